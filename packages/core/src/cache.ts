@@ -0,0 +1,233 @@
+/**
+ * Response Cache - Reuses model responses for identical requests
+ */
+
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { createHash } from 'crypto';
+import { ModelResponse, ResponseFormat } from './providers.js';
+import { ToolDefinition } from './tools.js';
+import { AgentOptions, Message } from './types.js';
+
+/**
+ * A cached response and when it expires, in milliseconds since the epoch
+ */
+export interface CacheEntry {
+  response: ModelResponse;
+  expiresAt?: number;
+}
+
+/**
+ * Storage for cache entries
+ */
+export interface CacheBackend {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Which requests are cached
+ *
+ * `deterministic` caches only requests made with temperature 0, where a
+ * repeated call would give the same answer; `always` caches every request.
+ */
+export type CacheMode = 'deterministic' | 'always';
+
+/**
+ * Response cache options
+ *
+ * `ttl` is in milliseconds; without it entries never expire.
+ */
+export interface ResponseCacheConfig {
+  backend?: CacheBackend;
+  ttl?: number;
+  mode?: CacheMode;
+}
+
+/**
+ * Everything that determines a model response
+ */
+export interface CacheKeyInput {
+  messages: Message[];
+  options: Pick<AgentOptions, 'model' | 'temperature' | 'maxTokens' | 'topP' | 'frequencyPenalty' | 'presencePenalty' | 'stopSequences'>
+    & { responseFormat?: ResponseFormat };
+  tools?: ToolDefinition[];
+}
+
+/**
+ * In-memory LRU backend - the least recently read entry is evicted first
+ */
+export class LRUCacheBackend implements CacheBackend {
+  private entries: Map<string, CacheEntry> = new Map();
+
+  constructor(private maxEntries: number = 1000) {}
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const entry = this.entries.get(key);
+
+    if (entry) {
+      // Move to the most recently used end
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+/**
+ * File backend - one JSON file per entry in a directory
+ */
+export class FileCacheBackend implements CacheBackend {
+  constructor(private directory: string) {}
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(this.pathFor(key), 'utf8')) as CacheEntry;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    // Write then rename so readers never see a partial entry
+    const path = this.pathFor(key);
+    await fs.writeFile(`${path}.tmp`, JSON.stringify(entry), 'utf8');
+    await fs.rename(`${path}.tmp`, path);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.pathFor(key), { force: true });
+  }
+
+  async clear(): Promise<void> {
+    await fs.rm(this.directory, { recursive: true, force: true });
+  }
+
+  private pathFor(key: string): string {
+    return join(this.directory, `${key}.json`);
+  }
+}
+
+/**
+ * Response Cache - Looks up and stores model responses by request hash
+ */
+export class ResponseCache {
+  private backend: CacheBackend;
+  private mode: CacheMode;
+
+  constructor(private config: ResponseCacheConfig = {}) {
+    this.backend = config.backend || new LRUCacheBackend();
+    this.mode = config.mode || 'deterministic';
+  }
+
+  /**
+   * Check whether requests with these options are cached
+   */
+  isCacheable(options: Pick<AgentOptions, 'temperature'>): boolean {
+    return this.mode === 'always' || options.temperature === 0;
+  }
+
+  /**
+   * Get the cached response for a key, if it has not expired
+   */
+  async get(key: string): Promise<ModelResponse | undefined> {
+    const entry = await this.backend.get(key);
+
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      await this.backend.delete(key);
+      return undefined;
+    }
+    return clone(entry.response);
+  }
+
+  /**
+   * Store a response under a key
+   *
+   * Rate limit headers describe the original call and are not kept.
+   */
+  async set(key: string, response: ModelResponse): Promise<void> {
+    const { rateLimit: _rateLimit, ...cached } = response;
+
+    await this.backend.set(key, {
+      response: clone(cached),
+      expiresAt: this.config.ttl === undefined ? undefined : Date.now() + this.config.ttl,
+    });
+  }
+
+  /**
+   * Drop every cached response
+   */
+  async clear(): Promise<void> {
+    await this.backend.clear();
+  }
+}
+
+/**
+ * Hash the messages, model, sampling options and tools of a request
+ *
+ * Timestamps and metadata are left out, so a repeated conversation
+ * produces the same key.
+ */
+export function cacheKey(input: CacheKeyInput): string {
+  const messages = input.messages.map(message => ({
+    role: message.role,
+    content: message.content,
+    name: message.name,
+    toolCallId: message.toolCallId,
+    toolCalls: message.toolCalls?.map(({ id, name, arguments: args }) => ({ id, name, arguments: args })),
+  }));
+
+  return createHash('sha256')
+    .update(stableStringify({ messages, options: input.options, tools: input.tools }))
+    .digest('hex');
+}
+
+function clone(response: ModelResponse): ModelResponse {
+  return JSON.parse(JSON.stringify(response)) as ModelResponse;
+}
+
+/**
+ * JSON with object keys sorted, so equal values serialize identically
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => stableStringify(item ?? null)).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
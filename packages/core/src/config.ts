@@ -0,0 +1,548 @@
+/**
+ * Agent Configuration - Layered config from defaults, files, environment and overrides
+ */
+
+import { readFileSync } from 'fs';
+import type { RuntimeConfig } from './runtime.js';
+import { AgentValidationError } from './errors.js';
+
+/**
+ * Fully resolved agent configuration
+ */
+export type AgentConfig = RuntimeConfig;
+
+/**
+ * Config sections that are merged key-by-key instead of replaced
+ */
+const NESTED_SECTIONS = ['retry', 'circuitBreaker', 'rateLimit', 'bulkhead', 'hedging', 'metrics'] as const;
+
+type NestedSection = typeof NESTED_SECTIONS[number];
+
+/**
+ * Partial configuration - nested sections may also be partial
+ */
+export type RuntimeConfigInput = Partial<Omit<RuntimeConfig, NestedSection>> & {
+  [K in NestedSection]?: Partial<NonNullable<RuntimeConfig[K]>>;
+};
+
+/**
+ * Where a resolved value came from
+ */
+export type ConfigSource = 'default' | 'override' | `file:${string}` | `env:${string}`;
+
+/**
+ * Default configuration
+ */
+export const DEFAULT_CONFIG: RuntimeConfig = {
+  model: 'gpt-4-turbo-preview',
+  systemPrompt: 'You are a helpful AI assistant.',
+  temperature: 0.7,
+  maxTokens: 4096,
+  maxIterations: 10,
+  timeout: 60000,
+  stream: false,
+  contextOverflow: 'reject',
+  fallbackOn: ['server-error', 'circuit-open'],
+  retry: {
+    maxRetries: 3,
+    baseDelay: 1000,
+    maxDelay: 30000,
+    factor: 2,
+  },
+  circuitBreaker: {
+    enabled: true,
+    failureThreshold: 5,
+    successThreshold: 2,
+    timeout: 60000,
+  },
+  rateLimit: {
+    enabled: false,
+    onLimit: 'queue',
+  },
+  bulkhead: {
+    enabled: false,
+    maxConcurrent: 10,
+    maxQueue: 100,
+    scope: 'provider',
+  },
+  hedging: {
+    enabled: false,
+    delay: 2000,
+    maxAttempts: 2,
+  },
+  metrics: {
+    enabled: true,
+  },
+  tracing: {
+    enabled: false,
+  },
+  queue: {
+    enabled: false,
+  },
+  cache: {
+    enabled: false,
+  },
+  logging: {
+    enabled: false,
+    level: 'info',
+  },
+};
+
+/**
+ * Validation rule for a single data field
+ */
+interface FieldSpec {
+  path: string;
+  type: 'string' | 'number' | 'integer' | 'boolean' | 'string[]' | 'number[]' | 'labels' | 'fallbacks' | 'pricing' | 'budgets';
+  min?: number;
+  max?: number;
+  values?: string[];
+  required?: boolean;
+}
+
+/**
+ * Every data field in RuntimeConfig, used for env parsing and validation
+ */
+const FIELDS: FieldSpec[] = [
+  { path: 'model', type: 'string', required: true },
+  { path: 'systemPrompt', type: 'string' },
+  { path: 'temperature', type: 'number', min: 0, max: 2, required: true },
+  { path: 'maxTokens', type: 'integer', min: 1, max: 128000, required: true },
+  { path: 'topP', type: 'number', min: 0, max: 1 },
+  { path: 'frequencyPenalty', type: 'number', min: -2, max: 2 },
+  { path: 'presencePenalty', type: 'number', min: -2, max: 2 },
+  { path: 'stopSequences', type: 'string[]' },
+  { path: 'maxIterations', type: 'integer', min: 1, max: 100, required: true },
+  { path: 'timeout', type: 'integer', min: 1, required: true },
+  { path: 'stream', type: 'boolean' },
+  { path: 'contextOverflow', type: 'string', values: ['reject', 'trim'] },
+  { path: 'fallbacks', type: 'fallbacks' },
+  { path: 'fallbackOn', type: 'string[]', values: ['server-error', 'network-error', 'circuit-open', 'rate-limit'] },
+  { path: 'pricing', type: 'pricing' },
+  { path: 'budgets', type: 'budgets' },
+  { path: 'retry.maxRetries', type: 'integer', min: 0, max: 20 },
+  { path: 'retry.baseDelay', type: 'integer', min: 0 },
+  { path: 'retry.maxDelay', type: 'integer', min: 0 },
+  { path: 'retry.factor', type: 'number', min: 1 },
+  { path: 'retry.strategy', type: 'string', values: ['exponential', 'full-jitter', 'equal-jitter', 'decorrelated-jitter'] },
+  { path: 'retry.budget', type: 'integer', min: 0 },
+  { path: 'retry.deadline', type: 'integer', min: 0 },
+  { path: 'circuitBreaker.enabled', type: 'boolean' },
+  { path: 'circuitBreaker.failureThreshold', type: 'integer', min: 1 },
+  { path: 'circuitBreaker.successThreshold', type: 'integer', min: 1 },
+  { path: 'circuitBreaker.timeout', type: 'integer', min: 0 },
+  { path: 'circuitBreaker.mode', type: 'string', values: ['consecutive', 'sliding-window'] },
+  { path: 'circuitBreaker.windowMs', type: 'integer', min: 1 },
+  { path: 'circuitBreaker.failureRateThreshold', type: 'number', min: 0, max: 1 },
+  { path: 'circuitBreaker.minimumRequests', type: 'integer', min: 1 },
+  { path: 'circuitBreaker.halfOpenMaxProbes', type: 'integer', min: 1 },
+  { path: 'rateLimit.enabled', type: 'boolean' },
+  { path: 'rateLimit.requestsPerMinute', type: 'integer', min: 1 },
+  { path: 'rateLimit.tokensPerMinute', type: 'integer', min: 1 },
+  { path: 'rateLimit.onLimit', type: 'string', values: ['queue', 'fail'] },
+  { path: 'rateLimit.maxWait', type: 'integer', min: 0 },
+  { path: 'bulkhead.enabled', type: 'boolean' },
+  { path: 'bulkhead.maxConcurrent', type: 'integer', min: 1 },
+  { path: 'bulkhead.maxQueue', type: 'integer', min: 0 },
+  { path: 'bulkhead.maxWait', type: 'integer', min: 0 },
+  { path: 'bulkhead.scope', type: 'string', values: ['provider', 'user'] },
+  { path: 'hedging.enabled', type: 'boolean' },
+  { path: 'hedging.delay', type: 'integer', min: 0 },
+  { path: 'hedging.maxAttempts', type: 'integer', min: 1, max: 5 },
+  { path: 'metrics.enabled', type: 'boolean' },
+  { path: 'metrics.labels', type: 'labels' },
+  { path: 'metrics.buckets.duration', type: 'number[]', min: 0 },
+  { path: 'metrics.buckets.timeToFirstToken', type: 'number[]', min: 0 },
+  { path: 'metrics.buckets.attemptLatency', type: 'number[]', min: 0 },
+  { path: 'metrics.buckets.tokens', type: 'number[]', min: 0 },
+  { path: 'tracing.enabled', type: 'boolean' },
+  { path: 'tracing.serviceName', type: 'string' },
+  { path: 'tracing.file', type: 'string' },
+  { path: 'queue.enabled', type: 'boolean' },
+  { path: 'queue.concurrency', type: 'integer', min: 1 },
+  { path: 'queue.maxDepth', type: 'integer', min: 0 },
+  { path: 'queue.retention', type: 'integer', min: 0 },
+  { path: 'cache.enabled', type: 'boolean' },
+  { path: 'cache.mode', type: 'string', values: ['deterministic', 'always'] },
+  { path: 'cache.ttl', type: 'integer', min: 0 },
+  { path: 'cache.maxEntries', type: 'integer', min: 1 },
+  { path: 'cache.directory', type: 'string' },
+  { path: 'logging.enabled', type: 'boolean' },
+  { path: 'logging.level', type: 'string', values: ['debug', 'info', 'warn', 'error'] },
+  { path: 'logging.redact.patterns', type: 'string[]' },
+  { path: 'logging.redact.keys', type: 'string[]' },
+];
+
+/**
+ * Object-valued keys that are injected in code rather than read from files or env
+ */
+const RUNTIME_OBJECTS = ['provider', 'tools', 'memory', 'store', 'guardrails', 'tokenizers', 'tracing.exporter', 'queue.store', 'cache.backend', 'logging.logger'];
+
+/**
+ * Deep-merge config layers; plain objects merge, everything else replaces
+ */
+export function mergeConfig<T>(base: T, ...layers: unknown[]): T {
+  let merged: unknown = base;
+
+  for (const layer of layers) {
+    merged = mergeValue(merged, layer);
+  }
+
+  return merged as T;
+}
+
+function mergeValue(base: unknown, layer: unknown): unknown {
+  if (layer === undefined) {
+    return base;
+  }
+
+  if (!isPlainObject(base) || !isPlainObject(layer)) {
+    return layer;
+  }
+
+  const result: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(layer)) {
+    result[key] = mergeValue(base[key], value);
+  }
+  return result;
+}
+
+/**
+ * Validate every field of a resolved configuration
+ *
+ * Throws AgentValidationError with the dotted field path on the first problem.
+ */
+export function validateConfig(config: RuntimeConfig): void {
+  for (const spec of FIELDS) {
+    const value = getPath(config, spec.path);
+
+    if (value === undefined) {
+      if (spec.required) {
+        throw new AgentValidationError(`${spec.path} is required`, spec.path, value);
+      }
+      continue;
+    }
+
+    validateField(spec, value);
+  }
+
+  const retry = config.retry;
+  if (retry && retry.maxDelay < retry.baseDelay) {
+    throw new AgentValidationError(
+      'retry.maxDelay must be greater than or equal to retry.baseDelay',
+      'retry.maxDelay',
+      retry.maxDelay
+    );
+  }
+
+  for (const pattern of config.logging?.redact?.patterns || []) {
+    try {
+      new RegExp(pattern);
+    } catch {
+      throw new AgentValidationError(
+        `logging.redact.patterns contains an invalid regular expression: ${pattern}`,
+        'logging.redact.patterns',
+        pattern
+      );
+    }
+  }
+}
+
+function validateField(spec: FieldSpec, value: unknown): void {
+  const fail = (expectation: string): never => {
+    throw new AgentValidationError(`${spec.path} must be ${expectation}`, spec.path, value);
+  };
+
+  switch (spec.type) {
+    case 'string':
+      if (typeof value !== 'string' || value.length === 0) fail('a non-empty string');
+      if (spec.values && !spec.values.includes(value as string)) fail(`one of ${spec.values.join(', ')}`);
+      return;
+    case 'boolean':
+      if (typeof value !== 'boolean') fail('a boolean');
+      return;
+    case 'string[]':
+      if (!Array.isArray(value) || !value.every(item => typeof item === 'string')) {
+        fail('an array of strings');
+      }
+      if (spec.values && !(value as string[]).every(item => spec.values!.includes(item))) {
+        fail(`a list of ${spec.values.join(', ')}`);
+      }
+      return;
+    case 'number[]':
+      if (!Array.isArray(value) || value.length === 0 || !value.every(item =>
+        typeof item === 'number' && Number.isFinite(item) && (spec.min === undefined || item >= spec.min)
+      )) {
+        fail(`a non-empty array of numbers${spec.min !== undefined ? ` >= ${spec.min}` : ''}`);
+      }
+      return;
+    case 'fallbacks':
+      if (!Array.isArray(value) || !value.every(item =>
+        isPlainObject(item) &&
+        typeof item.model === 'string' && item.model.length > 0 &&
+        (item.options === undefined || isPlainObject(item.options))
+      )) {
+        fail('an array of { model, options? } objects');
+      }
+      return;
+    case 'pricing':
+      if (!isPlainObject(value) || !Object.values(value).every(item =>
+        isPlainObject(item) && isRate(item.prompt) && isRate(item.completion)
+      )) {
+        fail('an object of { prompt, completion } rates per model');
+      }
+      return;
+    case 'budgets':
+      if (!Array.isArray(value) || !value.every(item =>
+        isPlainObject(item) &&
+        ['user', 'session', 'runtime'].includes(item.scope as string) &&
+        ['daily', 'monthly'].includes(item.window as string) &&
+        isRate(item.limit) &&
+        (item.action === undefined || ['warn', 'reject'].includes(item.action as string))
+      )) {
+        fail('an array of { scope, window, limit, action? } budgets');
+      }
+      return;
+    case 'labels':
+      if (!isPlainObject(value) || !Object.values(value).every(item => typeof item === 'string')) {
+        fail('an object of string labels');
+      }
+      return;
+    case 'number':
+    case 'integer':
+      if (typeof value !== 'number' || !Number.isFinite(value)) fail('a number');
+      if (spec.type === 'integer' && !Number.isInteger(value)) fail('an integer');
+      if (spec.min !== undefined && spec.max !== undefined) {
+        if ((value as number) < spec.min || (value as number) > spec.max) {
+          fail(`between ${spec.min} and ${spec.max}`);
+        }
+      } else if (spec.min !== undefined && (value as number) < spec.min) {
+        fail(`>= ${spec.min}`);
+      } else if (spec.max !== undefined && (value as number) > spec.max) {
+        fail(`<= ${spec.max}`);
+      }
+      return;
+  }
+}
+
+/**
+ * Agent Config Builder - Fluent, layered configuration
+ *
+ * Layers are applied over the defaults in the order they are added,
+ * so later layers win:
+ *
+ *   new AgentConfigBuilder()
+ *     .fromFile('agent.config.json')
+ *     .fromEnv()
+ *     .override({ provider })
+ *     .build();
+ */
+export class AgentConfigBuilder {
+  private layers: Array<{ source: ConfigSource | 'env'; values: Record<string, unknown> }> = [];
+  private envNames: Map<string, string> = new Map();
+
+  /**
+   * Load a JSON config file
+   */
+  fromFile(path: string, options: { optional?: boolean } = {}): this {
+    let raw: string;
+
+    try {
+      raw = readFileSync(path, 'utf8');
+    } catch (error) {
+      if (options.optional && (error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return this;
+      }
+      throw new AgentValidationError(
+        `Cannot read config file '${path}': ${error instanceof Error ? error.message : String(error)}`,
+        'file',
+        path
+      );
+    }
+
+    let values: unknown;
+    try {
+      values = JSON.parse(raw);
+    } catch (error) {
+      throw new AgentValidationError(
+        `Config file '${path}' is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+        'file',
+        path
+      );
+    }
+
+    if (!isPlainObject(values)) {
+      throw new AgentValidationError(`Config file '${path}' must contain a JSON object`, 'file', path);
+    }
+
+    for (const leaf of leafPaths(values)) {
+      if (!FIELDS.some(spec => spec.path === leaf || leaf.startsWith(`${spec.path}.`))) {
+        throw new AgentValidationError(`Unknown config field '${leaf}' in '${path}'`, leaf);
+      }
+    }
+
+    this.layers.push({ source: `file:${path}`, values });
+    return this;
+  }
+
+  /**
+   * Read AGENT_* environment variables
+   *
+   * Paths map to SCREAMING_SNAKE_CASE: `retry.maxRetries` is read from
+   * `AGENT_RETRY_MAX_RETRIES`. Arrays are comma-separated,
+   * `metrics.labels` uses `key=value` pairs and `pricing` and `budgets`
+   * are JSON.
+   */
+  fromEnv(env: Record<string, string | undefined> = process.env, prefix: string = 'AGENT_'): this {
+    const values: Record<string, unknown> = {};
+
+    for (const spec of FIELDS) {
+      const name = prefix + spec.path
+        .split('.')
+        .map(part => part.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase())
+        .join('_');
+      const raw = env[name];
+
+      if (raw === undefined || raw === '') {
+        continue;
+      }
+
+      setPath(values, spec.path, parseEnvValue(spec, name, raw));
+      this.envNames.set(spec.path, name);
+    }
+
+    this.layers.push({ source: 'env', values });
+    return this;
+  }
+
+  /**
+   * Apply explicit overrides
+   */
+  override(values: RuntimeConfigInput): this {
+    this.layers.push({ source: 'override', values: values as Record<string, unknown> });
+    return this;
+  }
+
+  /**
+   * Merge all layers over the defaults and validate the result
+   */
+  build(): AgentConfig {
+    const config = mergeConfig(DEFAULT_CONFIG, ...this.layers.map(layer => layer.values));
+    validateConfig(config);
+    return config;
+  }
+
+  /**
+   * Report which layer supplied each resolved value
+   */
+  getSources(): Record<string, ConfigSource> {
+    const sources: Record<string, ConfigSource> = {};
+
+    for (const path of leafPaths(DEFAULT_CONFIG as unknown as Record<string, unknown>)) {
+      sources[path] = 'default';
+    }
+
+    for (const layer of this.layers) {
+      for (const path of leafPaths(layer.values)) {
+        sources[path] = layer.source === 'env'
+          ? `env:${this.envNames.get(path) ?? path}`
+          : layer.source;
+      }
+    }
+
+    return sources;
+  }
+}
+
+function parseEnvValue(spec: FieldSpec, name: string, raw: string): unknown {
+  switch (spec.type) {
+    case 'string':
+      return raw;
+    case 'boolean':
+      if (!['true', 'false', '1', '0'].includes(raw.toLowerCase())) {
+        throw new AgentValidationError(`${name} must be true or false`, spec.path, raw);
+      }
+      return raw.toLowerCase() === 'true' || raw === '1';
+    case 'string[]':
+      return raw.split(',').map(item => item.trim()).filter(Boolean);
+    case 'number[]':
+      return raw.split(',').map(item => item.trim()).filter(Boolean).map(item => {
+        const value = Number(item);
+        if (Number.isNaN(value)) {
+          throw new AgentValidationError(`${name} must be a list of numbers`, spec.path, raw);
+        }
+        return value;
+      });
+    case 'fallbacks':
+      return raw.split(',').map(item => item.trim()).filter(Boolean).map(model => ({ model }));
+    case 'pricing':
+    case 'budgets':
+      try {
+        return JSON.parse(raw);
+      } catch {
+        throw new AgentValidationError(`${name} must be JSON`, spec.path, raw);
+      }
+    case 'labels':
+      return Object.fromEntries(raw.split(',').map(pair => {
+        const [key, ...rest] = pair.split('=');
+        return [key!.trim(), rest.join('=').trim()];
+      }));
+    case 'number':
+    case 'integer': {
+      const value = Number(raw);
+      if (Number.isNaN(value)) {
+        throw new AgentValidationError(`${name} must be a number`, spec.path, raw);
+      }
+      return value;
+    }
+  }
+}
+
+function leafPaths(values: Record<string, unknown>, prefix: string = ''): string[] {
+  const paths: string[] = [];
+
+  for (const [key, value] of Object.entries(values)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+
+    if (isPlainObject(value) && !RUNTIME_OBJECTS.includes(path) && path !== 'metrics.labels') {
+      paths.push(...leafPaths(value, path));
+    } else if (value !== undefined) {
+      paths.push(path);
+    }
+  }
+
+  return paths;
+}
+
+function getPath(values: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (current, key) => isPlainObject(current) ? current[key] : undefined,
+    values
+  );
+}
+
+function setPath(values: Record<string, unknown>, path: string, value: unknown): void {
+  const keys = path.split('.');
+  let current = values;
+
+  for (const key of keys.slice(0, -1)) {
+    if (!isPlainObject(current[key])) {
+      current[key] = {};
+    }
+    current = current[key] as Record<string, unknown>;
+  }
+
+  current[keys[keys.length - 1]!] = value;
+}
+
+function isRate(value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return false;
+  }
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
@@ -26,6 +26,9 @@ export class AgentError extends Error {
     Error.captureStackTrace(this, this.constructor);
   }
 
+  /**
+   * Serialize for API responses and logs - the stack trace is left out
+   */
   toJSON(): Record<string, unknown> {
     return {
       name: this.name,
@@ -33,7 +36,6 @@ export class AgentError extends Error {
       code: this.code,
       retryable: this.retryable,
       metadata: this.metadata,
-      stack: this.stack,
     };
   }
 }
@@ -69,6 +71,11 @@ export class AgentRateLimitError extends AgentError {
     remaining?: number,
     resetAt?: Date
   ) {
+    // A retryAfter that is not a usable delay leaves the normal backoff in charge
+    if (retryAfter !== undefined && !(retryAfter >= 0)) {
+      retryAfter = undefined;
+    }
+
     super(
       message,
       'AGENT_RATE_LIMIT',
@@ -83,7 +90,8 @@ export class AgentRateLimitError extends AgentError {
   }
 
   static fromHeaders(headers: Record<string, string>): AgentRateLimitError {
-    const retryAfter = parseInt(headers['retry-after'] || '60', 10);
+    // Only a server-provided Retry-After overrides the caller's backoff
+    const retryAfter = headers['retry-after'] ? parseRetryAfter(headers['retry-after']) : undefined;
     const limit = parseInt(headers['x-ratelimit-limit'] || '0', 10);
     const remaining = parseInt(headers['x-ratelimit-remaining'] || '0', 10);
     const resetAt = headers['x-ratelimit-reset'] 
@@ -100,6 +108,22 @@ export class AgentRateLimitError extends AgentError {
   }
 }
 
+/**
+ * Parse a Retry-After header, either delta-seconds or an HTTP-date, into
+ * seconds from now; unparseable values and dates in the past give undefined
+ */
+function parseRetryAfter(value: string): number | undefined {
+  if (/^\s*\d+\s*$/.test(value)) {
+    return parseInt(value, 10);
+  }
+
+  const date = Date.parse(value);
+  if (Number.isNaN(date) || date < Date.now()) {
+    return undefined;
+  }
+  return Math.ceil((date - Date.now()) / 1000);
+}
+
 /**
  * Model error (API errors from LLM providers)
  */
@@ -197,3 +221,86 @@ export class AgentCircuitOpenError extends AgentError {
     this.opensAt = opensAt;
   }
 }
+
+/**
+ * Cancellation error
+ */
+export class AgentCancelledError extends AgentError {
+  public readonly executionId?: string;
+
+  constructor(executionId?: string, reason?: string) {
+    super(
+      reason || 'Execution was cancelled',
+      'AGENT_CANCELLED',
+      false,
+      { executionId }
+    );
+    this.name = 'AgentCancelledError';
+    this.executionId = executionId;
+  }
+}
+
+/**
+ * Spending budget exceeded error
+ */
+export class AgentBudgetExceededError extends AgentError {
+  constructor(scope: string, key: string, limit: number, spent: number, window: string) {
+    super(
+      `Budget exceeded for ${scope} '${key}': $${spent.toFixed(4)} of $${limit} ${window} limit`,
+      'AGENT_BUDGET_EXCEEDED',
+      false,
+      { scope, key, limit, spent, window }
+    );
+    this.name = 'AgentBudgetExceededError';
+  }
+}
+
+/**
+ * Job queue full error
+ */
+export class AgentQueueFullError extends AgentError {
+  constructor(maxDepth: number) {
+    super(
+      `Job queue is full: ${maxDepth} jobs already queued`,
+      'AGENT_QUEUE_FULL',
+      true,
+      { maxDepth }
+    );
+    this.name = 'AgentQueueFullError';
+  }
+}
+
+/**
+ * Bulkhead full error
+ */
+export class AgentBulkheadFullError extends AgentError {
+  constructor(name: string, maxConcurrent: number, maxQueue: number) {
+    super(
+      `Bulkhead '${name}' is full: ${maxConcurrent} calls running and ${maxQueue} waiting`,
+      'AGENT_BULKHEAD_FULL',
+      true,
+      { name, maxConcurrent, maxQueue }
+    );
+    this.name = 'AgentBulkheadFullError';
+  }
+}
+
+/**
+ * Guardrail blocked error
+ */
+export class AgentGuardrailError extends AgentError {
+  public readonly guardrail: string;
+  public readonly stage: string;
+
+  constructor(guardrail: string, stage: string, reason: string) {
+    super(
+      `Blocked by guardrail '${guardrail}' on ${stage}: ${reason}`,
+      'AGENT_GUARDRAIL_BLOCKED',
+      false,
+      { guardrail, stage, reason }
+    );
+    this.name = 'AgentGuardrailError';
+    this.guardrail = guardrail;
+    this.stage = stage;
+  }
+}
@@ -0,0 +1,234 @@
+/**
+ * Guardrails - Policy checks on the task before the model and the output after it
+ */
+
+import { AgentGuardrailError } from './errors.js';
+import { ExecutionConfig } from './types.js';
+
+export type GuardrailStage = 'input' | 'output';
+
+/**
+ * What a guardrail decided about a piece of text
+ *
+ * `rewrite` and `redact` both replace the text; redactions only mask
+ * parts of it. Later guardrails see the replaced text.
+ */
+export type GuardrailDecision =
+  | { action: 'allow' }
+  | { action: 'block'; reason: string }
+  | { action: 'rewrite' | 'redact'; text: string; reason: string };
+
+/**
+ * Where the text being checked comes from
+ */
+export interface GuardrailContext {
+  stage: GuardrailStage;
+  executionId: string;
+  config: ExecutionConfig;
+}
+
+/**
+ * A policy check run on input, output or both
+ */
+export interface Guardrail {
+  readonly name: string;
+  readonly stages: GuardrailStage[];
+  check(text: string, context: GuardrailContext): GuardrailDecision | Promise<GuardrailDecision>;
+}
+
+/**
+ * A guardrail that blocked or changed text, as reported in
+ * `guardrail:triggered` events and `metadata.guardrails`
+ */
+export interface GuardrailTrigger {
+  guardrail: string;
+  stage: GuardrailStage;
+  action: 'block' | 'rewrite' | 'redact';
+  reason: string;
+}
+
+/**
+ * Shared options of the built-in guardrails
+ *
+ * `action` is 'block' by default; 'redact' masks matches instead.
+ */
+export interface MatchGuardrailOptions {
+  name?: string;
+  stages?: GuardrailStage[];
+  action?: 'block' | 'redact';
+}
+
+export type PiiType = 'email' | 'creditCard' | 'ssn' | 'phone' | 'ipAddress';
+
+/**
+ * Built-in PII detectors, in the order they are applied
+ */
+export const PII_PATTERNS: Record<PiiType, RegExp> = {
+  email: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+  creditCard: /\b(?:\d{4}[ -]?){3}\d{1,4}\b/g,
+  ssn: /\b\d{3}-\d{2}-\d{4}\b/g,
+  phone: /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{3}\)|\b\d{3})[\s.-]?\d{3}[\s.-]?\d{4}\b/g,
+  ipAddress: /\b(?:\d{1,3}\.){3}\d{1,3}\b/g,
+};
+
+/**
+ * Banned Content Guardrail - Blocks or masks listed words and phrases
+ *
+ * Terms match whole words, case-insensitively.
+ */
+export class BannedContentGuardrail implements Guardrail {
+  readonly name: string;
+  readonly stages: GuardrailStage[];
+  private pattern?: RegExp;
+
+  constructor(terms: string[], private options: MatchGuardrailOptions = {}) {
+    this.name = options.name || 'banned-content';
+    this.stages = options.stages || ['input', 'output'];
+    if (terms.length > 0) {
+      this.pattern = new RegExp(`\\b(?:${terms.map(escapeRegExp).join('|')})\\b`, 'gi');
+    }
+  }
+
+  check(text: string): GuardrailDecision {
+    const matches = this.pattern ? text.match(this.pattern) : null;
+    if (!matches) {
+      return { action: 'allow' };
+    }
+
+    const reason = `Contains ${matches.length} banned term${matches.length === 1 ? '' : 's'}`;
+    return this.options.action === 'redact'
+      ? { action: 'redact', text: text.replace(this.pattern!, '[REDACTED]'), reason }
+      : { action: 'block', reason };
+  }
+}
+
+/**
+ * PII options - which built-in detectors to use and extra named patterns
+ */
+export interface PiiGuardrailOptions extends MatchGuardrailOptions {
+  detectors?: PiiType[];
+  patterns?: Record<string, RegExp>;
+}
+
+/**
+ * PII Guardrail - Blocks or masks emails, card numbers, SSNs, phone
+ * numbers, IP addresses and custom patterns
+ *
+ * Redacted matches become `[REDACTED_<TYPE>]`, such as `[REDACTED_EMAIL]`.
+ */
+export class PiiGuardrail implements Guardrail {
+  readonly name: string;
+  readonly stages: GuardrailStage[];
+  private detectors: Array<[string, RegExp]>;
+
+  constructor(private options: PiiGuardrailOptions = {}) {
+    this.name = options.name || 'pii';
+    this.stages = options.stages || ['input', 'output'];
+
+    const builtIn = (options.detectors || Object.keys(PII_PATTERNS) as PiiType[])
+      .map(type => [type, PII_PATTERNS[type]] as [string, RegExp]);
+    this.detectors = [...builtIn, ...Object.entries(options.patterns || {})]
+      .map(([type, pattern]) => [type, pattern.global ? pattern : new RegExp(pattern.source, `${pattern.flags}g`)]);
+  }
+
+  check(text: string): GuardrailDecision {
+    const found: string[] = [];
+    let redacted = text;
+
+    for (const [type, pattern] of this.detectors) {
+      const next = redacted.replace(pattern, `[REDACTED_${toLabel(type)}]`);
+      if (next !== redacted) {
+        found.push(type);
+        redacted = next;
+      }
+    }
+
+    if (found.length === 0) {
+      return { action: 'allow' };
+    }
+
+    const reason = `Contains PII: ${found.join(', ')}`;
+    return this.options.action === 'redact'
+      ? { action: 'redact', text: redacted, reason }
+      : { action: 'block', reason };
+  }
+}
+
+/**
+ * Verdict of a classifier callback - true or `flagged` blocks the text
+ */
+export type ClassifierVerdict = boolean | { flagged: boolean; reason?: string };
+
+/**
+ * Classifier Guardrail - Blocks text a custom callback flags, such as a moderation API
+ */
+export class ClassifierGuardrail implements Guardrail {
+  readonly stages: GuardrailStage[];
+
+  constructor(
+    readonly name: string,
+    private classify: (text: string, context: GuardrailContext) => ClassifierVerdict | Promise<ClassifierVerdict>,
+    options: { stages?: GuardrailStage[] } = {}
+  ) {
+    this.stages = options.stages || ['input', 'output'];
+  }
+
+  async check(text: string, context: GuardrailContext): Promise<GuardrailDecision> {
+    const verdict = await this.classify(text, context);
+    const flagged = typeof verdict === 'boolean' ? verdict : verdict.flagged;
+
+    if (!flagged) {
+      return { action: 'allow' };
+    }
+    return {
+      action: 'block',
+      reason: (typeof verdict === 'object' && verdict.reason) || 'Flagged by classifier',
+    };
+  }
+}
+
+/**
+ * Run the guardrails for a stage in order
+ *
+ * Returns the text after any rewrites and redactions. Each guardrail that
+ * acts is passed to `onTrigger`; a block throws AgentGuardrailError.
+ */
+export async function runGuardrails(
+  guardrails: Guardrail[],
+  text: string,
+  context: GuardrailContext,
+  onTrigger: (trigger: GuardrailTrigger) => void = () => undefined
+): Promise<string> {
+  let current = text;
+
+  for (const guardrail of guardrails) {
+    if (!guardrail.stages.includes(context.stage)) {
+      continue;
+    }
+
+    const decision = await guardrail.check(current, context);
+    if (decision.action === 'allow') {
+      continue;
+    }
+
+    onTrigger({ guardrail: guardrail.name, stage: context.stage, action: decision.action, reason: decision.reason });
+
+    if (decision.action === 'block') {
+      throw new AgentGuardrailError(guardrail.name, context.stage, decision.reason);
+    }
+    current = decision.text;
+  }
+
+  return current;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Turn a detector name such as `creditCard` into `CREDIT_CARD`
+ */
+function toLabel(type: string): string {
+  return type.replace(/([a-z])([A-Z])/g, '$1_$2').toUpperCase();
+}
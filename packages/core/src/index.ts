@@ -10,18 +10,170 @@
  */
 
 export { AgentRuntime } from './runtime.js';
-export { AgentConfig, AgentConfigBuilder } from './config.js';
-export { AgentExecutor, ExecutionResult, ExecutionStatus } from './executor.js';
-export { AgentMemory, MemoryConfig } from './memory.js';
-export { ToolRegistry, Tool, ToolDefinition } from './tools.js';
-export { AgentError, AgentTimeoutError, AgentRateLimitError } from './errors.js';
-export { RetryConfig, CircuitBreaker, CircuitState } from './resilience.js';
-export { AgentMetrics, MetricCollector } from './metrics.js';
+export { AgentConfig, AgentConfigBuilder, DEFAULT_CONFIG } from './config.js';
+export { AgentMemory, MemoryConfig, InMemoryBackend, FileMemoryBackend } from './memory.js';
+export { ToolRegistry, Tool, ToolDefinition, parseToolCall } from './tools.js';
+export {
+  AgentError,
+  AgentTimeoutError,
+  AgentRateLimitError,
+  AgentModelError,
+  AgentToolError,
+  AgentMemoryError,
+  AgentCancelledError,
+  AgentCircuitOpenError,
+  AgentBudgetExceededError,
+  AgentQueueFullError,
+  AgentBulkheadFullError,
+  AgentGuardrailError,
+  AgentValidationError,
+} from './errors.js';
+export {
+  RetryConfig,
+  RetryPolicy,
+  RetrySession,
+  withRetry,
+  CircuitBreaker,
+  CircuitBreakerRegistry,
+  CircuitState,
+  RateLimiter,
+  RateLimiterConfig,
+  RateLimitInfo,
+  Bulkhead,
+  withHedging,
+} from './resilience.js';
+export { AgentMetrics, MetricCollector, Histogram, renderMetrics, DEFAULT_BUCKETS } from './metrics.js';
+export { OpenAICompatibleProvider, MockProvider } from './providers.js';
+export { PricingRegistry, BudgetTracker, DEFAULT_PRICING } from './pricing.js';
+export {
+  BpeTokenizer,
+  ApproximateTokenizer,
+  TokenizerRegistry,
+  getEncoding,
+  countMessageTokens,
+  CL100K_PATTERN,
+  O200K_PATTERN,
+} from './tokenizer.js';
+export { InMemoryExecutionStore, FileExecutionStore, toExecutionRecord } from './store.js';
+export { JobQueue, InMemoryJobStore } from './queue.js';
+export {
+  BannedContentGuardrail,
+  PiiGuardrail,
+  ClassifierGuardrail,
+  runGuardrails,
+  PII_PATTERNS,
+} from './guardrails.js';
+export { ResponseCache, LRUCacheBackend, FileCacheBackend, cacheKey } from './cache.js';
+export { MiddlewareChain } from './middleware.js';
+export { AgentOrchestrator } from './orchestrator.js';
+export { Workflow, renderTemplate } from './workflow.js';
+export { validateSchema, formatSchemaIssues, parseJSONOutput } from './schema.js';
+export {
+  Tracer,
+  Span,
+  InMemorySpanExporter,
+  FileSpanExporter,
+  parseTraceparent,
+  formatTraceparent,
+} from './tracing.js';
+export {
+  Logger,
+  Redactor,
+  StreamSink,
+  FileSink,
+  MemorySink,
+  PinoSink,
+  serializeError,
+  LOG_LEVELS,
+  DEFAULT_REDACTION_RULES,
+  DEFAULT_REDACTED_KEYS,
+} from './logger.js';
 
 export type {
   AgentOptions,
   Message,
   ToolCall,
+  ToolCallDelta,
   StreamChunk,
+  TokenUsage,
   ExecutionConfig,
+  ExecutionResult,
+  ExecutionStatus,
+  HealthStatus,
+  HealthCheck,
 } from './types.js';
+
+export type {
+  BackoffStrategy,
+  CircuitPermit,
+  RetryPredicate,
+  RetryEvent,
+  RetryOptions,
+  BulkheadConfig,
+  HedgingConfig,
+  HedgingOptions,
+} from './resilience.js';
+
+export type {
+  ModelProvider,
+  ModelCapabilities,
+  ModelRequest,
+  ModelResponse,
+  ModelStreamDelta,
+  ResponseFormat,
+} from './providers.js';
+
+export type { RuntimeConfigInput, ConfigSource } from './config.js';
+export type { RuntimeConfig, ModelFallback, FallbackTrigger, SkippedModel } from './runtime.js';
+export type { ModelPricing, Budget, BudgetScope, BudgetStatus } from './pricing.js';
+export type { Tokenizer, MessageTokenCache } from './tokenizer.js';
+export type {
+  TracerConfig,
+  SpanContext,
+  SpanData,
+  SpanEvent,
+  SpanExporter,
+  SpanStatus,
+  SpanAttributes,
+  SpanAttributeValue,
+} from './tracing.js';
+export type { LogLevel, LogRecord, LogSink, LoggerConfig, RedactionConfig, RedactionRule, PinoLike } from './logger.js';
+export type { MetricsFormat, HistogramBuckets, MetricSample, MetricFamily } from './metrics.js';
+export type { ToolContext } from './tools.js';
+export type { MemoryBackend, WindowPolicy } from './memory.js';
+export type { ExecutionStore, ExecutionRecord, ExecutionQuery, ExecutionPage, ExecutionStoreConfig } from './store.js';
+export type {
+  Guardrail,
+  GuardrailStage,
+  GuardrailDecision,
+  GuardrailContext,
+  GuardrailTrigger,
+  MatchGuardrailOptions,
+  PiiGuardrailOptions,
+  PiiType,
+  ClassifierVerdict,
+} from './guardrails.js';
+export type { CacheBackend, CacheEntry, CacheMode, ResponseCacheConfig, CacheKeyInput } from './cache.js';
+export type { Middleware, ModelCallContext, ToolCallContext } from './middleware.js';
+export type {
+  AgentDefinition,
+  AgentLink,
+  HistoryMode,
+  Handoff,
+  OrchestratorConfig,
+  OrchestratorExecutionConfig,
+} from './orchestrator.js';
+export type {
+  WorkflowConfig,
+  WorkflowStep,
+  AgentStep,
+  ToolStep,
+  FunctionStep,
+  WorkflowEdge,
+  WorkflowContext,
+  WorkflowRun,
+  StepRecord,
+  StepStatus,
+} from './workflow.js';
+export type { Job, JobStatus, JobPriority, JobEvent, JobStore, JobRunner, JobQueueConfig, JobQueueStats } from './queue.js';
+export type { JSONSchema, SchemaIssue } from './schema.js';
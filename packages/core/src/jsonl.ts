@@ -0,0 +1,42 @@
+/**
+ * JSON Lines - Ordered appends of one JSON value per line
+ */
+
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+
+/**
+ * Appends one JSON value per line to a file, creating its directory
+ *
+ * Writes are queued so lines keep their order; flush() waits for the
+ * queue and rethrows the first write failure.
+ */
+export class JsonLinesWriter {
+  private queue: Promise<void> = Promise.resolve();
+  private failure?: unknown;
+
+  constructor(private path: string) {}
+
+  append(value: unknown): void {
+    const line = JSON.stringify(value) + '\n';
+
+    this.queue = this.queue
+      .then(async () => {
+        await fs.mkdir(dirname(this.path), { recursive: true });
+        await fs.appendFile(this.path, line, 'utf8');
+      })
+      .catch(error => {
+        this.failure ??= error;
+      });
+  }
+
+  async flush(): Promise<void> {
+    await this.queue;
+
+    const failure = this.failure;
+    this.failure = undefined;
+    if (failure !== undefined) {
+      throw failure;
+    }
+  }
+}
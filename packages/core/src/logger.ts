@@ -0,0 +1,342 @@
+/**
+ * Logger - Structured JSON logging with secret and PII redaction
+ */
+
+import { AgentError, AgentValidationError } from './errors.js';
+import { JsonLinesWriter } from './jsonl.js';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Numeric severity of each level, lowest first
+ */
+export const LOG_LEVELS: Record<LogLevel, number> = {
+  debug: 20,
+  info: 30,
+  warn: 40,
+  error: 50,
+};
+
+/**
+ * One structured log line
+ *
+ * Context fields such as `executionId` sit next to the record's own data.
+ */
+export interface LogRecord {
+  time: string;
+  level: LogLevel;
+  msg: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Destination for log records
+ */
+export interface LogSink {
+  write(record: LogRecord): void;
+
+  /**
+   * Wait until every record has been written
+   */
+  flush?(): Promise<void>;
+}
+
+/**
+ * Replacement rule applied to every string that is logged
+ */
+export interface RedactionRule {
+  pattern: RegExp;
+  replacement: string;
+}
+
+/**
+ * Built-in rules for API keys, bearer tokens and email addresses
+ */
+export const DEFAULT_REDACTION_RULES: RedactionRule[] = [
+  { pattern: /\bsk-(?:ant-|proj-)?[A-Za-z0-9_-]{16,}/g, replacement: '[REDACTED_API_KEY]' },
+  { pattern: /\bAKIA[0-9A-Z]{16}\b/g, replacement: '[REDACTED_API_KEY]' },
+  { pattern: /\bgh[pousr]_[A-Za-z0-9]{36,}\b/g, replacement: '[REDACTED_API_KEY]' },
+  { pattern: /\bBearer\s+[A-Za-z0-9._~+/-]+=*/gi, replacement: 'Bearer [REDACTED]' },
+  { pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g, replacement: '[REDACTED_EMAIL]' },
+];
+
+/**
+ * Keys whose values are always masked
+ *
+ * Keys are compared ignoring case, `-` and `_`, and match when they end
+ * with one of these, so `x-api-key`, `client_secret` and
+ * `Proxy-Authorization` are masked too.
+ */
+export const DEFAULT_REDACTED_KEYS = ['apiKey', 'authorization', 'password', 'secret', 'token', 'accessToken', 'refreshToken'];
+
+/**
+ * Redaction configuration
+ *
+ * `patterns` are added to the built-in rules and replaced with
+ * `[REDACTED]`; `keys` are added to the built-in sensitive keys.
+ */
+export interface RedactionConfig {
+  patterns?: Array<string | RegExp | RedactionRule>;
+  keys?: string[];
+}
+
+/**
+ * Redactor - Masks secrets and PII in strings and nested values
+ */
+export class Redactor {
+  private rules: RedactionRule[];
+  private keys: string[];
+
+  constructor(config: RedactionConfig = {}) {
+    this.rules = [
+      ...DEFAULT_REDACTION_RULES,
+      ...(config.patterns || []).map(toRule),
+    ];
+    this.keys = [...DEFAULT_REDACTED_KEYS, ...(config.keys || [])].map(normalizeKey);
+  }
+
+  /**
+   * Mask every rule match in a string
+   */
+  redactString(value: string): string {
+    return this.rules.reduce((text, rule) => text.replace(rule.pattern, rule.replacement), value);
+  }
+
+  /**
+   * Copy a value with strings masked, sensitive keys replaced and errors serialized
+   */
+  redact(value: unknown, seen: WeakSet<object> = new WeakSet()): unknown {
+    if (typeof value === 'string') {
+      return this.redactString(value);
+    }
+    if (value instanceof Error) {
+      return this.redact(serializeError(value), seen);
+    }
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+    if (typeof value !== 'object' || value === null) {
+      return value;
+    }
+    if (seen.has(value)) {
+      return '[Circular]';
+    }
+    seen.add(value);
+
+    if (Array.isArray(value)) {
+      return value.map(item => this.redact(item, seen));
+    }
+
+    const redacted: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      if (item === undefined) {
+        continue;
+      }
+      redacted[key] = this.isSensitive(key) ? '[REDACTED]' : this.redact(item, seen);
+    }
+    return redacted;
+  }
+
+  private isSensitive(key: string): boolean {
+    const normalized = normalizeKey(key);
+    return this.keys.some(sensitive => normalized.endsWith(sensitive));
+  }
+}
+
+/**
+ * Logger configuration
+ */
+export interface LoggerConfig {
+  level?: LogLevel;
+  sinks?: LogSink[];
+  redaction?: RedactionConfig | Redactor;
+  context?: Record<string, unknown>;
+}
+
+/**
+ * Logger - Writes redacted JSON records to one or more sinks
+ *
+ * Child loggers share the parent's sinks, level and redaction and add
+ * their own context, such as `executionId`, to every record.
+ */
+export class Logger {
+  private level: LogLevel;
+  private sinks: LogSink[];
+  private redactor: Redactor;
+  private context: Record<string, unknown>;
+
+  constructor(config: LoggerConfig = {}) {
+    this.level = config.level || 'info';
+    this.sinks = config.sinks || [new StreamSink()];
+    this.redactor = config.redaction instanceof Redactor ? config.redaction : new Redactor(config.redaction);
+    this.context = config.context || {};
+  }
+
+  /**
+   * Create a logger that adds context to every record
+   */
+  child(context: Record<string, unknown>): Logger {
+    return new Logger({
+      level: this.level,
+      sinks: this.sinks,
+      redaction: this.redactor,
+      context: { ...this.context, ...context },
+    });
+  }
+
+  /**
+   * Check whether records at a level are written
+   */
+  isLevelEnabled(level: LogLevel): boolean {
+    return LOG_LEVELS[level] >= LOG_LEVELS[this.level];
+  }
+
+  /**
+   * Write a record at debug level
+   */
+  debug(msg: string, data?: Record<string, unknown>): void {
+    this.log('debug', msg, data);
+  }
+
+  /**
+   * Write a record at info level
+   */
+  info(msg: string, data?: Record<string, unknown>): void {
+    this.log('info', msg, data);
+  }
+
+  /**
+   * Write a record at warn level
+   */
+  warn(msg: string, data?: Record<string, unknown>): void {
+    this.log('warn', msg, data);
+  }
+
+  /**
+   * Write a record at error level
+   */
+  error(msg: string, data?: Record<string, unknown>): void {
+    this.log('error', msg, data);
+  }
+
+  /**
+   * Write a record if its level is enabled
+   */
+  log(level: LogLevel, msg: string, data: Record<string, unknown> = {}): void {
+    if (!this.isLevelEnabled(level)) {
+      return;
+    }
+
+    const fields = this.redactor.redact({ ...this.context, ...data }) as Record<string, unknown>;
+    const record: LogRecord = {
+      time: new Date().toISOString(),
+      level,
+      msg: this.redactor.redactString(msg),
+      ...fields,
+    };
+
+    for (const sink of this.sinks) {
+      sink.write(record);
+    }
+  }
+
+  /**
+   * Wait for every sink to finish writing
+   */
+  async flush(): Promise<void> {
+    await Promise.all(this.sinks.map(sink => sink.flush?.()));
+  }
+}
+
+/**
+ * Stream sink - One JSON record per line, to stdout by default
+ */
+export class StreamSink implements LogSink {
+  constructor(private stream: NodeJS.WritableStream = process.stdout) {}
+
+  write(record: LogRecord): void {
+    this.stream.write(JSON.stringify(record) + '\n');
+  }
+}
+
+/**
+ * File sink - Appends one JSON record per line
+ */
+export class FileSink implements LogSink {
+  private writer: JsonLinesWriter;
+
+  constructor(path: string) {
+    this.writer = new JsonLinesWriter(path);
+  }
+
+  write(record: LogRecord): void {
+    this.writer.append(record);
+  }
+
+  flush(): Promise<void> {
+    return this.writer.flush();
+  }
+}
+
+/**
+ * Memory sink - Keeps records for tests
+ */
+export class MemorySink implements LogSink {
+  readonly records: LogRecord[] = [];
+
+  write(record: LogRecord): void {
+    this.records.push(record);
+  }
+}
+
+/**
+ * Logger with pino's `logger.info(object, message)` signature
+ */
+export type PinoLike = Record<LogLevel, (object: Record<string, unknown>, msg: string) => void>;
+
+/**
+ * Pino sink - Hands records to an existing pino (or compatible) logger
+ *
+ * The target logger adds its own time and level fields.
+ */
+export class PinoSink implements LogSink {
+  constructor(private target: PinoLike) {}
+
+  write(record: LogRecord): void {
+    const { time: _time, level, msg, ...fields } = record;
+    this.target[level](fields, msg);
+  }
+}
+
+/**
+ * Serialize an error for logs - AgentErrors through toJSON, never with a stack
+ */
+export function serializeError(error: unknown): Record<string, unknown> {
+  if (error instanceof AgentError) {
+    return error.toJSON();
+  }
+  if (error instanceof Error) {
+    return { name: error.name, message: error.message };
+  }
+  return { message: String(error) };
+}
+
+function toRule(rule: string | RegExp | RedactionRule): RedactionRule {
+  const { pattern, replacement } = typeof rule === 'string' || rule instanceof RegExp
+    ? { pattern: rule, replacement: '[REDACTED]' }
+    : rule;
+
+  // Every match is replaced, not just the first
+  if (typeof pattern === 'string') {
+    try {
+      return { pattern: new RegExp(pattern, 'g'), replacement };
+    } catch {
+      throw new AgentValidationError(`Invalid redaction pattern: ${pattern}`, 'patterns', pattern);
+    }
+  }
+  return { pattern: pattern.global ? pattern : new RegExp(pattern.source, `${pattern.flags}g`), replacement };
+}
+
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[-_]/g, '');
+}
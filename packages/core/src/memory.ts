@@ -0,0 +1,204 @@
+/**
+ * Agent Memory - Per-conversation message history
+ */
+
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { Message } from './types.js';
+import { AgentMemoryError } from './errors.js';
+import { Tokenizer } from './tokenizer.js';
+
+/**
+ * Storage backend for conversation history
+ */
+export interface MemoryBackend {
+  load(conversationId: string): Promise<Message[]>;
+  append(conversationId: string, messages: Message[]): Promise<void>;
+  clear(conversationId: string): Promise<void>;
+}
+
+/**
+ * Windowing policy applied when history is loaded
+ */
+export type WindowPolicy =
+  | { type: 'messages'; maxMessages: number }
+  | { type: 'tokens'; maxTokens: number };
+
+/**
+ * Memory configuration
+ */
+export interface MemoryConfig {
+  backend?: MemoryBackend;
+  window?: WindowPolicy;
+  tokenizer?: Tokenizer;
+}
+
+/**
+ * In-memory backend - history is lost when the process exits
+ */
+export class InMemoryBackend implements MemoryBackend {
+  private conversations: Map<string, Message[]> = new Map();
+
+  async load(conversationId: string): Promise<Message[]> {
+    return [...(this.conversations.get(conversationId) || [])];
+  }
+
+  async append(conversationId: string, messages: Message[]): Promise<void> {
+    const history = this.conversations.get(conversationId) || [];
+    history.push(...messages);
+    this.conversations.set(conversationId, history);
+  }
+
+  async clear(conversationId: string): Promise<void> {
+    this.conversations.delete(conversationId);
+  }
+}
+
+/**
+ * File backend - one JSONL file per conversation
+ */
+export class FileMemoryBackend implements MemoryBackend {
+  constructor(private directory: string) {}
+
+  async load(conversationId: string): Promise<Message[]> {
+    let content: string;
+
+    try {
+      content = await fs.readFile(this.pathFor(conversationId), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    return content
+      .split('\n')
+      .filter(line => line.trim().length > 0)
+      .map(line => JSON.parse(line) as Message);
+  }
+
+  async append(conversationId: string, messages: Message[]): Promise<void> {
+    if (messages.length === 0) {
+      return;
+    }
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.appendFile(
+      this.pathFor(conversationId),
+      messages.map(message => JSON.stringify(message)).join('\n') + '\n',
+      'utf8'
+    );
+  }
+
+  async clear(conversationId: string): Promise<void> {
+    await fs.rm(this.pathFor(conversationId), { force: true });
+  }
+
+  private pathFor(conversationId: string): string {
+    return join(this.directory, `${encodeURIComponent(conversationId)}.jsonl`);
+  }
+}
+
+/**
+ * Agent Memory - Loads and saves conversation turns
+ */
+export class AgentMemory {
+  private backend: MemoryBackend;
+  private window?: WindowPolicy;
+  private tokenizer?: Tokenizer;
+
+  constructor(config: MemoryConfig = {}) {
+    this.backend = config.backend || new InMemoryBackend();
+    this.window = config.window;
+    this.tokenizer = config.tokenizer;
+  }
+
+  /**
+   * Load conversation history, applying the window policy
+   */
+  async load(conversationId: string): Promise<Message[]> {
+    let messages: Message[];
+
+    try {
+      messages = await this.backend.load(conversationId);
+    } catch (error) {
+      throw new AgentMemoryError(
+        `Failed to load conversation '${conversationId}': ${errorMessage(error)}`
+      );
+    }
+
+    return this.applyWindow(messages);
+  }
+
+  /**
+   * Append messages to a conversation
+   */
+  async append(conversationId: string, messages: Message[]): Promise<void> {
+    try {
+      await this.backend.append(conversationId, messages);
+    } catch (error) {
+      throw new AgentMemoryError(
+        `Failed to save conversation '${conversationId}': ${errorMessage(error)}`
+      );
+    }
+  }
+
+  /**
+   * Remove all history for a conversation
+   */
+  async clear(conversationId: string): Promise<void> {
+    try {
+      await this.backend.clear(conversationId);
+    } catch (error) {
+      throw new AgentMemoryError(
+        `Failed to clear conversation '${conversationId}': ${errorMessage(error)}`
+      );
+    }
+  }
+
+  /**
+   * Keep the most recent messages allowed by the window policy
+   */
+  private applyWindow(messages: Message[]): Message[] {
+    if (!this.window) {
+      return messages;
+    }
+
+    let start = 0;
+
+    if (this.window.type === 'messages') {
+      start = Math.max(0, messages.length - this.window.maxMessages);
+    } else {
+      let tokens = 0;
+      start = messages.length;
+      while (start > 0) {
+        tokens += this.countTokens(messages[start - 1]!);
+        if (tokens > this.window.maxTokens) {
+          break;
+        }
+        start--;
+      }
+    }
+
+    // Never start on a tool result whose assistant tool call was trimmed
+    while (start < messages.length && messages[start]!.role === 'tool') {
+      start++;
+    }
+
+    return messages.slice(start);
+  }
+
+  /**
+   * Count a message with the configured tokenizer, or estimate at four characters a token
+   */
+  private countTokens(message: Message): number {
+    return this.tokenizer
+      ? this.tokenizer.count(message.content)
+      : Math.ceil(message.content.length / 4);
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
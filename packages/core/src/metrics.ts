@@ -5,6 +5,112 @@
 import { EventEmitter } from 'events';
 import { ExecutionResult, TokenUsage } from './types.js';
 
+/**
+ * Exposition format - Prometheus text 0.0.4 or OpenMetrics 1.0
+ */
+export type MetricsFormat = 'prometheus' | 'openmetrics';
+
+/**
+ * Histogram bucket upper bounds; durations in seconds
+ */
+export interface HistogramBuckets {
+  duration?: number[];
+  timeToFirstToken?: number[];
+  attemptLatency?: number[];
+  tokens?: number[];
+}
+
+/**
+ * Default histogram buckets
+ */
+export const DEFAULT_BUCKETS: Required<HistogramBuckets> = {
+  duration: [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120],
+  timeToFirstToken: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+  attemptLatency: [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60],
+  tokens: [100, 250, 500, 1000, 2500, 5000, 10000, 25000, 50000, 100000],
+};
+
+/**
+ * One exported sample
+ */
+export interface MetricSample {
+  name: string;
+  labels: Record<string, string>;
+  value: number;
+}
+
+/**
+ * A metric family - HELP and TYPE plus its samples
+ *
+ * `name` is the family name; counter samples carry the `_total` suffix
+ * and histogram samples `_bucket`, `_sum` and `_count`.
+ */
+export interface MetricFamily {
+  name: string;
+  help: string;
+  type: 'counter' | 'gauge' | 'histogram';
+  samples: MetricSample[];
+}
+
+/**
+ * Histogram - Cumulative bucket counts per label set
+ */
+export class Histogram {
+  private series: Map<string, { labels: Record<string, string>; counts: number[]; sum: number; count: number }> = new Map();
+  readonly buckets: number[];
+
+  constructor(buckets: number[]) {
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  /**
+   * Record one observation
+   */
+  observe(value: number, labels: Record<string, string> = {}): void {
+    const key = JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+    let series = this.series.get(key);
+
+    if (!series) {
+      series = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        series!.counts[index]!++;
+      }
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  /**
+   * Get the `_bucket`, `_sum` and `_count` samples
+   */
+  samples(name: string, labels: Record<string, string> = {}): MetricSample[] {
+    const samples: MetricSample[] = [];
+
+    for (const series of this.series.values()) {
+      const seriesLabels = { ...labels, ...series.labels };
+      this.buckets.forEach((bound, index) => {
+        samples.push({ name: `${name}_bucket`, labels: { ...seriesLabels, le: String(bound) }, value: series.counts[index]! });
+      });
+      samples.push({ name: `${name}_bucket`, labels: { ...seriesLabels, le: '+Inf' }, value: series.count });
+      samples.push({ name: `${name}_sum`, labels: seriesLabels, value: series.sum });
+      samples.push({ name: `${name}_count`, labels: seriesLabels, value: series.count });
+    }
+
+    return samples;
+  }
+
+  /**
+   * Drop all observations
+   */
+  reset(): void {
+    this.series.clear();
+  }
+}
+
 /**
  * Agent Metrics
  */
@@ -13,15 +119,28 @@ export class AgentMetrics extends EventEmitter {
   private successes: number = 0;
   private failures: number = 0;
   private timeouts: number = 0;
+  private cancellations: number = 0;
   private totalDuration: number = 0;
   private totalTokens: number = 0;
   private totalCost: number = 0;
+  private fallbacks: Map<string, number> = new Map();
+  private jobs = { queued: 0, running: 0 };
+  private cacheHits: number = 0;
+  private cacheMisses: number = 0;
+  private durations: Histogram;
+  private timeToFirstToken: Histogram;
+  private attemptLatency: Histogram;
+  private tokensPerRequest: Histogram;
   private labels?: Record<string, string>;
   private initialized: boolean = false;
 
-  constructor(labels?: Record<string, string>) {
+  constructor(labels?: Record<string, string>, buckets: HistogramBuckets = {}) {
     super();
     this.labels = labels;
+    this.durations = new Histogram(buckets.duration || DEFAULT_BUCKETS.duration);
+    this.timeToFirstToken = new Histogram(buckets.timeToFirstToken || DEFAULT_BUCKETS.timeToFirstToken);
+    this.attemptLatency = new Histogram(buckets.attemptLatency || DEFAULT_BUCKETS.attemptLatency);
+    this.tokensPerRequest = new Histogram(buckets.tokens || DEFAULT_BUCKETS.tokens);
   }
 
   async initialize(): Promise<void> {
@@ -31,8 +150,23 @@ export class AgentMetrics extends EventEmitter {
 
   /**
    * Record an execution
+   *
+   * The model label comes from `metadata.model`, falling back to `model`
+   * for executions that failed before a model answered.
    */
-  recordExecution(result: ExecutionResult): void {
+  recordExecution(result: ExecutionResult, model?: string): void {
+    const labels = {
+      model: String(result.metadata?.model ?? model ?? ''),
+      status: result.status,
+      error_code: result.errorCode || '',
+    };
+
+    this.durations.observe(result.duration / 1000, labels);
+    this.tokensPerRequest.observe(result.usage.totalTokens, labels);
+    if (typeof result.metadata?.timeToFirstToken === 'number') {
+      this.timeToFirstToken.observe(result.metadata.timeToFirstToken / 1000, labels);
+    }
+
     this.executions++;
     this.totalDuration += result.duration;
     this.totalTokens += result.usage.totalTokens;
@@ -52,11 +186,51 @@ export class AgentMetrics extends EventEmitter {
       case 'failed':
         this.failures++;
         break;
+      case 'cancelled':
+        this.cancellations++;
+        break;
     }
 
     this.emit('execution', result);
   }
 
+  /**
+   * Record the latency of one provider call
+   */
+  recordAttempt(model: string, duration: number, errorCode?: string): void {
+    this.attemptLatency.observe(duration / 1000, {
+      model,
+      status: errorCode === undefined ? 'success' : 'error',
+      error_code: errorCode || '',
+    });
+  }
+
+  /**
+   * Record a fallback to the given model
+   */
+  recordFallback(model: string): void {
+    this.fallbacks.set(model, (this.fallbacks.get(model) || 0) + 1);
+    this.emit('fallback', { model });
+  }
+
+  /**
+   * Record a response cache lookup
+   */
+  recordCache(hit: boolean): void {
+    if (hit) {
+      this.cacheHits++;
+    } else {
+      this.cacheMisses++;
+    }
+  }
+
+  /**
+   * Record the current number of queued and running jobs
+   */
+  recordJobs(queued: number, running: number): void {
+    this.jobs = { queued, running };
+  }
+
   /**
    * Get current metrics
    */
@@ -65,10 +239,14 @@ export class AgentMetrics extends EventEmitter {
     successes: number;
     failures: number;
     timeouts: number;
+    cancellations: number;
     successRate: number;
     averageDuration: number;
     totalTokens: number;
     totalCost: number;
+    fallbacks: Record<string, number>;
+    jobs: { queued: number; running: number };
+    cache: { hits: number; misses: number };
     labels?: Record<string, string>;
   } {
     return {
@@ -76,6 +254,7 @@ export class AgentMetrics extends EventEmitter {
       successes: this.successes,
       failures: this.failures,
       timeouts: this.timeouts,
+      cancellations: this.cancellations,
       successRate: this.executions > 0 
         ? (this.successes / this.executions) * 100 
         : 0,
@@ -84,40 +263,114 @@ export class AgentMetrics extends EventEmitter {
         : 0,
       totalTokens: this.totalTokens,
       totalCost: this.totalCost,
+      fallbacks: Object.fromEntries(this.fallbacks),
+      jobs: { ...this.jobs },
+      cache: { hits: this.cacheHits, misses: this.cacheMisses },
       labels: this.labels,
     };
   }
 
   /**
-   * Get Prometheus-format metrics
+   * Get every metric family with this instance's labels applied
    */
-  getPrometheusMetrics(): string {
+  collect(): MetricFamily[] {
     const m = this.getMetrics();
-    
-    return `
-# HELP agent_executions_total Total number of agent executions
-# TYPE agent_executions_total counter
-agent_executions_total${this.formatLabels({ status: 'total' })} ${m.executions}
-agent_executions_total${this.formatLabels({ status: 'success' })} ${m.successes}
-agent_executions_total${this.formatLabels({ status: 'failure' })} ${m.failures}
-agent_executions_total${this.formatLabels({ status: 'timeout' })} ${m.timeouts}
+    const labels = { ...this.labels };
+    const sample = (name: string, value: number, extra: Record<string, string> = {}): MetricSample => ({
+      name,
+      labels: { ...labels, ...extra },
+      value,
+    });
 
-# HELP agent_success_rate Agent success rate percentage
-# TYPE agent_success_rate gauge
-agent_success_rate${this.formatLabels()} ${m.successRate.toFixed(2)}
-
-# HELP agent_execution_duration_seconds Average execution duration
-# TYPE agent_execution_duration_seconds gauge
-agent_execution_duration_seconds${this.formatLabels()} ${(m.averageDuration / 1000).toFixed(3)}
-
-# HELP agent_tokens_total Total tokens consumed
-# TYPE agent_tokens_total counter
-agent_tokens_total${this.formatLabels()} ${m.totalTokens}
+    return [
+      {
+        name: 'agent_executions',
+        help: 'Total number of agent executions',
+        type: 'counter',
+        samples: [
+          sample('agent_executions_total', m.executions, { status: 'total' }),
+          sample('agent_executions_total', m.successes, { status: 'success' }),
+          sample('agent_executions_total', m.failures, { status: 'failure' }),
+          sample('agent_executions_total', m.timeouts, { status: 'timeout' }),
+          sample('agent_executions_total', m.cancellations, { status: 'cancelled' }),
+        ],
+      },
+      {
+        name: 'agent_success_rate',
+        help: 'Agent success rate percentage',
+        type: 'gauge',
+        samples: [sample('agent_success_rate', Number(m.successRate.toFixed(2)))],
+      },
+      {
+        name: 'agent_execution_duration_seconds',
+        help: 'Execution duration',
+        type: 'histogram',
+        samples: this.durations.samples('agent_execution_duration_seconds', labels),
+      },
+      {
+        name: 'agent_time_to_first_token_seconds',
+        help: 'Time from the start of a stream to its first content',
+        type: 'histogram',
+        samples: this.timeToFirstToken.samples('agent_time_to_first_token_seconds', labels),
+      },
+      {
+        name: 'agent_provider_attempt_duration_seconds',
+        help: 'Latency of individual model provider calls',
+        type: 'histogram',
+        samples: this.attemptLatency.samples('agent_provider_attempt_duration_seconds', labels),
+      },
+      {
+        name: 'agent_tokens_per_request',
+        help: 'Tokens consumed per execution',
+        type: 'histogram',
+        samples: this.tokensPerRequest.samples('agent_tokens_per_request', labels),
+      },
+      {
+        name: 'agent_tokens',
+        help: 'Total tokens consumed',
+        type: 'counter',
+        samples: [sample('agent_tokens_total', m.totalTokens)],
+      },
+      {
+        name: 'agent_cost',
+        help: 'Total cost in USD',
+        type: 'counter',
+        samples: [sample('agent_cost_total', Number(m.totalCost.toFixed(6)))],
+      },
+      {
+        name: 'agent_model_fallbacks',
+        help: 'Fallback activations by the model fallen back to',
+        type: 'counter',
+        samples: Object.entries(m.fallbacks).map(([model, count]) =>
+          sample('agent_model_fallbacks_total', count, { model })
+        ),
+      },
+      {
+        name: 'agent_cache_lookups',
+        help: 'Response cache lookups by result',
+        type: 'counter',
+        samples: [
+          sample('agent_cache_lookups_total', m.cache.hits, { result: 'hit' }),
+          sample('agent_cache_lookups_total', m.cache.misses, { result: 'miss' }),
+        ],
+      },
+      {
+        name: 'agent_jobs',
+        help: 'Background jobs by state',
+        type: 'gauge',
+        samples: [
+          sample('agent_jobs', m.jobs.queued, { state: 'queued' }),
+          sample('agent_jobs', m.jobs.running, { state: 'running' }),
+        ],
+      },
+    ];
+  }
 
-# HELP agent_cost_total Total cost in USD
-# TYPE agent_cost_total counter
-agent_cost_total${this.formatLabels()} ${m.totalCost.toFixed(6)}
-`.trim();
+  /**
+   * Get Prometheus-format metrics
+   */
+  getPrometheusMetrics(format: MetricsFormat = 'prometheus'): string {
+    return renderMetrics(this.collect(), format);
   }
 
   /**
@@ -135,22 +388,20 @@ agent_cost_total${this.formatLabels()} ${m.totalCost.toFixed(6)}
     this.successes = 0;
     this.failures = 0;
     this.timeouts = 0;
+    this.cancellations = 0;
     this.totalDuration = 0;
     this.totalTokens = 0;
     this.totalCost = 0;
+    this.fallbacks.clear();
+    this.jobs = { queued: 0, running: 0 };
+    this.cacheHits = 0;
+    this.cacheMisses = 0;
+    this.durations.reset();
+    this.timeToFirstToken.reset();
+    this.attemptLatency.reset();
+    this.tokensPerRequest.reset();
     this.emit('reset');
   }
-
-  private formatLabels(extra?: Record<string, string>): string {
-    const labels = { ...this.labels, ...extra };
-    const entries = Object.entries(labels);
-    
-    if (entries.length === 0) {
-      return '';
-    }
-    
-    return '{' + entries.map(([k, v]) => `${k}="${v}"`).join(',') + '}';
-  }
 }
 
 /**
@@ -215,15 +466,80 @@ export class MetricCollector extends EventEmitter {
 
   /**
    * Get all metrics in Prometheus format
+   *
+   * Each family is written once, with an `agent` label telling the
+   * registered instances apart.
    */
-  getAllPrometheusMetrics(): string {
-    const parts: string[] = [];
-    
+  getAllPrometheusMetrics(format: MetricsFormat = 'prometheus'): string {
+    const families = new Map<string, MetricFamily>();
+
     for (const [id, metrics] of this.metrics.entries()) {
-      parts.push(`# Agent: ${id}`);
-      parts.push(metrics.getPrometheusMetrics());
+      for (const family of metrics.collect()) {
+        const merged = families.get(family.name) || { ...family, samples: [] };
+        merged.samples.push(...family.samples.map(sample => ({
+          ...sample,
+          labels: { agent: id, ...sample.labels },
+        })));
+        families.set(family.name, merged);
+      }
     }
-    
-    return parts.join('\n\n');
+
+    return renderMetrics([...families.values()], format);
+  }
+}
+
+/**
+ * Render metric families in the Prometheus text or OpenMetrics format
+ */
+export function renderMetrics(families: MetricFamily[], format: MetricsFormat = 'prometheus'): string {
+  const lines: string[] = [];
+
+  for (const family of families) {
+    // Prometheus names counters after their samples, OpenMetrics after the family
+    const name = format === 'prometheus' && family.type === 'counter' ? `${family.name}_total` : family.name;
+    lines.push(`# HELP ${name} ${escapeHelp(family.help)}`);
+    lines.push(`# TYPE ${name} ${family.type}`);
+
+    for (const sample of family.samples) {
+      lines.push(`${sample.name}${formatLabels(sample.labels, format)} ${formatValue(sample.value)}`);
+    }
+  }
+
+  if (format === 'openmetrics') {
+    lines.push('# EOF');
+  }
+
+  return lines.join('\n');
+}
+
+function formatLabels(labels: Record<string, string>, format: MetricsFormat): string {
+  const entries = Object.entries(labels);
+
+  if (entries.length === 0) {
+    return '';
+  }
+
+  return '{' + entries.map(([key, value]) => {
+    // OpenMetrics expects bucket bounds as floats
+    const text = format === 'openmetrics' && key === 'le' && /^-?\d+$/.test(value) ? `${value}.0` : value;
+    return `${key}="${escapeLabelValue(text)}"`;
+  }).join(',') + '}';
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function escapeHelp(help: string): string {
+  return help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) {
+    return '+Inf';
+  }
+  if (value === -Infinity) {
+    return '-Inf';
   }
+  return Number.isNaN(value) ? 'NaN' : String(value);
 }
@@ -0,0 +1,132 @@
+/**
+ * Middleware - Ordered hooks around every model call and tool call
+ */
+
+import { ModelRequestOptions, ModelResponse } from './providers.js';
+import { ExecutionConfig, Message, ToolCall } from './types.js';
+
+/**
+ * One model call, as seen by middleware
+ *
+ * `messages` is a copy of the conversation and `options` holds overrides
+ * for the request options, so changes to either only affect this call.
+ * `state` is shared by the hooks of one call, for example to time it.
+ */
+export interface ModelCallContext {
+  executionId: string;
+  config: ExecutionConfig;
+  iteration: number;
+  stream: boolean;
+  messages: Message[];
+  options: Partial<ModelRequestOptions>;
+  state: Record<string, unknown>;
+}
+
+/**
+ * One tool call, as seen by middleware
+ *
+ * Changes to `call.arguments` are passed to the tool.
+ */
+export interface ToolCallContext {
+  executionId: string;
+  config: ExecutionConfig;
+  call: ToolCall;
+  state: Record<string, unknown>;
+}
+
+/**
+ * Hooks run around model and tool calls
+ *
+ * A `before` hook that returns a response or completed tool call
+ * short-circuits: the remaining `before` hooks and the call itself are
+ * skipped. An `after` hook may return a replacement. For streams, content
+ * already sent to the caller is not changed by a replacement response.
+ * `onError` observes failed calls and may throw a different error.
+ */
+export interface Middleware {
+  name?: string;
+  beforeModelCall?(context: ModelCallContext): ModelResponse | void | Promise<ModelResponse | void>;
+  afterModelCall?(context: ModelCallContext, response: ModelResponse): ModelResponse | void | Promise<ModelResponse | void>;
+  beforeToolCall?(context: ToolCallContext): ToolCall | void | Promise<ToolCall | void>;
+  afterToolCall?(context: ToolCallContext, call: ToolCall): ToolCall | void | Promise<ToolCall | void>;
+  onError?(error: unknown, context: ModelCallContext | ToolCallContext): void | Promise<void>;
+}
+
+/**
+ * Middleware Chain - Runs `before` hooks in registration order and
+ * `after` hooks in reverse, so the first middleware wraps all the others
+ */
+export class MiddlewareChain {
+  private middleware: Middleware[] = [];
+
+  /**
+   * Add middleware to the end of the chain
+   */
+  use(middleware: Middleware): this {
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  get size(): number {
+    return this.middleware.length;
+  }
+
+  /**
+   * Run `beforeModelCall` hooks until one returns a response
+   */
+  async beforeModelCall(context: ModelCallContext): Promise<ModelResponse | undefined> {
+    for (const middleware of this.middleware) {
+      const response = await middleware.beforeModelCall?.(context);
+      if (response) {
+        return response;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Run `afterModelCall` hooks, each seeing the previous replacement
+   */
+  async afterModelCall(context: ModelCallContext, response: ModelResponse): Promise<ModelResponse> {
+    let current = response;
+
+    for (const middleware of [...this.middleware].reverse()) {
+      current = await middleware.afterModelCall?.(context, current) || current;
+    }
+    return current;
+  }
+
+  /**
+   * Run `beforeToolCall` hooks until one returns a completed call
+   */
+  async beforeToolCall(context: ToolCallContext): Promise<ToolCall | undefined> {
+    for (const middleware of this.middleware) {
+      const call = await middleware.beforeToolCall?.(context);
+      if (call) {
+        return call;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Run `afterToolCall` hooks, each seeing the previous replacement
+   */
+  async afterToolCall(context: ToolCallContext, call: ToolCall): Promise<ToolCall> {
+    let current = call;
+
+    for (const middleware of [...this.middleware].reverse()) {
+      current = await middleware.afterToolCall?.(context, current) || current;
+    }
+    return current;
+  }
+
+  /**
+   * Tell every middleware about a failed call
+   */
+  async onError(error: unknown, context: ModelCallContext | ToolCallContext): Promise<void> {
+    for (const middleware of this.middleware) {
+      await middleware.onError?.(error, context);
+    }
+  }
+}
@@ -0,0 +1,453 @@
+/**
+ * Agent Orchestrator - Named agents that hand off to and call each other
+ */
+
+import { EventEmitter } from 'events';
+import { AgentRuntime } from './runtime.js';
+import { RuntimeConfigInput } from './config.js';
+import { Tool, ToolRegistry } from './tools.js';
+import { ModelResponse } from './providers.js';
+import { AgentError, AgentValidationError } from './errors.js';
+import { addUsage } from './pricing.js';
+import { AgentOptions, ExecutionConfig, ExecutionResult, Message, TokenUsage, ToolCall } from './types.js';
+
+/**
+ * What another agent sees of the conversation
+ *
+ * `shared` passes the conversation so far; `isolated` passes only the
+ * task the agent is given.
+ */
+export type HistoryMode = 'shared' | 'isolated';
+
+/**
+ * Another agent that an agent may hand off to or call
+ */
+export interface AgentLink {
+  agent: string;
+  history?: HistoryMode;
+}
+
+/**
+ * A named agent with its own system prompt, tools and model options
+ *
+ * `description` tells other agents when to hand off to or call this one.
+ * Handoffs share history by default and sub-agent calls isolate it.
+ */
+export interface AgentDefinition {
+  name: string;
+  description?: string;
+  systemPrompt?: string;
+  tools?: ToolRegistry;
+  options?: Partial<AgentOptions>;
+  handoffs?: Array<string | AgentLink>;
+  subAgents?: Array<string | AgentLink>;
+}
+
+/**
+ * Orchestrator options
+ *
+ * `defaults` is the runtime config every agent starts from, such as the
+ * provider, retries and metrics. `entry` receives tasks that name no agent
+ * and is the first agent by default. `maxHandoffs` defaults to 5; a task
+ * that needs more fails with `MAX_HANDOFFS_EXCEEDED`.
+ */
+export interface OrchestratorConfig {
+  agents: AgentDefinition[];
+  defaults?: RuntimeConfigInput;
+  entry?: string;
+  maxHandoffs?: number;
+}
+
+/**
+ * Execution options - `agent` picks the agent that starts the task
+ */
+export interface OrchestratorExecutionConfig extends ExecutionConfig {
+  agent?: string;
+}
+
+/**
+ * A handoff, as reported in `agent:handoff` events and `metadata.handoffs`
+ */
+export interface Handoff {
+  from: string;
+  to: string;
+  message: string;
+}
+
+/**
+ * One orchestrated task, shared by every agent execution taking part
+ */
+interface Run {
+  id: string;
+  usage: Record<string, TokenUsage>;
+}
+
+/**
+ * One agent execution: its result, the messages it added and the handoff
+ * it asked for
+ */
+interface AgentTurn {
+  result: ExecutionResult;
+  messages: Message[];
+  handoff?: Handoff & { history: HistoryMode };
+}
+
+/**
+ * Agent Orchestrator - Runs tasks across named agents
+ *
+ * Every agent gets its own AgentRuntime, with metrics labelled by agent.
+ * Agents hand off through `transfer_to_<agent>` tools, which end the
+ * current agent's turn and continue the task with the other agent, and
+ * call sub-agents through `ask_<agent>` tools, which return the other
+ * agent's answer as the tool result.
+ */
+export class AgentOrchestrator extends EventEmitter {
+  private definitions: Map<string, AgentDefinition> = new Map();
+  private agents: Map<string, AgentRuntime> = new Map();
+  private subAgentTools: Map<string, string> = new Map();
+  private entry: string;
+  private maxHandoffs: number;
+  private runs: Map<string, Run> = new Map();
+  private executions: Map<string, Run> = new Map();
+  private started: WeakMap<ExecutionConfig, string> = new WeakMap();
+  private loaded: Map<string, number> = new Map();
+  private pending: Map<string, Handoff & { history: HistoryMode }> = new Map();
+
+  constructor(config: OrchestratorConfig) {
+    super();
+
+    for (const definition of config.agents) {
+      if (this.definitions.has(definition.name)) {
+        throw new AgentValidationError(`Agent '${definition.name}' is defined twice`, 'agents', definition.name);
+      }
+      this.definitions.set(definition.name, definition);
+    }
+
+    this.entry = config.entry || config.agents[0]?.name || '';
+    this.maxHandoffs = config.maxHandoffs ?? 5;
+    this.requireAgent(this.entry, 'entry');
+
+    for (const definition of config.agents) {
+      this.agents.set(definition.name, this.createRuntime(definition, config.defaults || {}));
+    }
+  }
+
+  /**
+   * Run a task, starting with `config.agent` or the entry agent
+   *
+   * The result has the final agent's output and status. Its messages are
+   * the new turns of every agent in order, each tagged with the agent that
+   * produced it in `metadata.agent`; `usage` covers every agent, including
+   * sub-agents, and `metadata.usageByAgent` splits it per agent.
+   */
+  async execute(task: string, config: OrchestratorExecutionConfig = {}): Promise<ExecutionResult> {
+    const { agent = this.entry, ...executionConfig } = config;
+    this.requireAgent(agent, 'agent');
+
+    const run: Run = { id: `run_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`, usage: {} };
+    this.runs.set(run.id, run);
+
+    try {
+      const result = await this.runChain(run, agent, task, executionConfig);
+      const usage: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+      for (const agentUsage of Object.values(run.usage)) {
+        addUsage(usage, agentUsage);
+      }
+
+      return { ...result, usage, metadata: { ...result.metadata, usageByAgent: run.usage } };
+    } finally {
+      this.runs.delete(run.id);
+    }
+  }
+
+  /**
+   * Get the runtime behind a named agent, for its metrics, health or events
+   */
+  getAgent(name: string): AgentRuntime {
+    this.requireAgent(name, 'agent');
+    return this.agents.get(name)!;
+  }
+
+  /**
+   * Names of every agent, in definition order
+   */
+  getAgentNames(): string[] {
+    return [...this.definitions.keys()];
+  }
+
+  /**
+   * Number of agent executions still tracked; zero once every run has settled
+   */
+  getActiveExecutions(): number {
+    return new Set([...this.executions.keys(), ...this.loaded.keys(), ...this.pending.keys()]).size;
+  }
+
+  /**
+   * Run an agent and follow its handoffs until an agent answers
+   */
+  private async runChain(run: Run, agent: string, task: string, config: ExecutionConfig): Promise<ExecutionResult> {
+    const startedAt = Date.now();
+    const messages: Message[] = [];
+    const toolCalls: ToolCall[] = [];
+    const handoffs: Handoff[] = [];
+    const agents: string[] = [];
+    let history = config.history || [];
+    let current = agent;
+    let input = task;
+    let first: ExecutionResult | undefined;
+    let result: ExecutionResult;
+    let maxHandoffsReached = false;
+
+    for (;;) {
+      agents.push(current);
+      const turn = await this.runAgent(run, current, input, { ...config, history });
+      const { handoff } = turn;
+      result = turn.result;
+      first ??= result;
+      messages.push(...turn.messages);
+      toolCalls.push(...result.toolCalls);
+
+      if (!handoff || result.status !== 'completed') {
+        break;
+      }
+      if (handoffs.length >= this.maxHandoffs) {
+        // The last agent only said it was handing off, which is no answer
+        maxHandoffsReached = true;
+        const failure = new AgentError(
+          `Stopped after ${this.maxHandoffs} handoffs without an answer; '${current}' asked to hand off to '${handoff.to}'`,
+          'MAX_HANDOFFS_EXCEEDED',
+          false,
+          { maxHandoffs: this.maxHandoffs, from: current, to: handoff.to }
+        );
+        result = { ...result, status: 'failed', output: '', error: failure.message, errorCode: failure.code, failure };
+        break;
+      }
+
+      const { history: mode, ...made } = handoff;
+      handoffs.push(made);
+      this.emit('agent:handoff', { executionId: result.id, ...made });
+
+      history = mode === 'shared' ? [...(config.history || []), ...messages] : [];
+      current = handoff.to;
+      input = handoff.message;
+    }
+
+    return {
+      ...result,
+      id: first.id,
+      toolCalls,
+      messages,
+      duration: Date.now() - startedAt,
+      metadata: {
+        ...result.metadata,
+        agent: current,
+        agents,
+        handoffs,
+        ...(maxHandoffsReached && { maxHandoffsReached }),
+      },
+    };
+  }
+
+  /**
+   * Run one agent execution and charge its usage to the agent
+   */
+  private async runAgent(run: Run, agent: string, task: string, config: ExecutionConfig): Promise<AgentTurn> {
+    const executionConfig: ExecutionConfig = { ...config, metadata: { ...config.metadata, agent, runId: run.id } };
+
+    try {
+      const result = await this.agents.get(agent)!.execute(task, executionConfig);
+      run.usage[agent] ??= { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+      addUsage(run.usage[agent]!, result.usage);
+
+      return {
+        result,
+        messages: this.newMessages(result, config.history?.length || 0, agent),
+        handoff: this.pending.get(result.id),
+      };
+    } finally {
+      // Forget the execution even when execute() throws
+      const executionId = this.started.get(executionConfig);
+      if (executionId) {
+        this.executions.delete(executionId);
+        this.loaded.delete(executionId);
+        this.pending.delete(executionId);
+      }
+    }
+  }
+
+  /**
+   * The messages an execution added, tagged with the agent that produced them
+   *
+   * Sub-agent results are tagged with the sub-agent.
+   */
+  private newMessages(result: ExecutionResult, history: number, agent: string): Message[] {
+    // Skip the system prompt, conversation memory and passed-in history
+    const start = 1 + (this.loaded.get(result.id) || 0) + history;
+
+    return result.messages.slice(start).map(message => ({
+      ...message,
+      metadata: {
+        ...message.metadata,
+        agent: (message.role === 'tool' && this.subAgentTools.get(message.name || '')) || agent,
+      },
+    }));
+  }
+
+  /**
+   * Build an agent's runtime with its handoff and sub-agent tools
+   */
+  private createRuntime(definition: AgentDefinition, defaults: RuntimeConfigInput): AgentRuntime {
+    const tools = new ToolRegistry();
+
+    for (const registry of [defaults.tools, definition.tools]) {
+      for (const { name } of registry?.getDefinitions() || []) {
+        tools.register(registry!.get(name)!);
+      }
+    }
+    for (const link of definition.handoffs || []) {
+      tools.register(this.handoffTool(definition.name, this.resolveLink(definition, link, 'shared')));
+    }
+    for (const link of definition.subAgents || []) {
+      tools.register(this.subAgentTool(definition.name, this.resolveLink(definition, link, 'isolated')));
+    }
+
+    const runtime = new AgentRuntime({
+      ...defaults,
+      ...definition.options,
+      systemPrompt: definition.systemPrompt ?? defaults.systemPrompt,
+      tools,
+      metrics: { ...defaults.metrics, labels: { ...defaults.metrics?.labels, agent: definition.name } },
+    });
+
+    // A requested handoff ends the turn instead of asking the model again
+    runtime.use({
+      name: 'handoff',
+      beforeModelCall: ({ executionId }): ModelResponse | void => {
+        const handoff = this.pending.get(executionId);
+        if (handoff) {
+          return {
+            model: runtime.getConfig().model,
+            content: `Handing off to ${handoff.to}.`,
+            toolCalls: [],
+            finishReason: 'stop',
+            usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+          };
+        }
+      },
+    });
+
+    runtime.on('execution:start', ({ executionId, config }: { executionId: string; config: ExecutionConfig }) => {
+      this.started.set(config, executionId);
+      const run = this.runs.get(config.metadata?.runId as string);
+      if (run) {
+        this.executions.set(executionId, run);
+      }
+    });
+    runtime.on('memory:load', ({ executionId, messages }: { executionId: string; messages: number }) => {
+      this.loaded.set(executionId, messages);
+    });
+
+    return runtime;
+  }
+
+  /**
+   * Tool that hands the task to another agent at the end of the turn
+   */
+  private handoffTool(from: string, link: Required<AgentLink>): Tool<{ message: string }> {
+    const description = this.definitions.get(link.agent)!.description;
+
+    return {
+      name: `transfer_to_${link.agent}`,
+      description: `Hand the conversation off to the ${link.agent} agent${description ? `: ${description}` : ''}`,
+      parameters: {
+        type: 'object',
+        required: ['message'],
+        properties: {
+          message: { type: 'string', description: `What the ${link.agent} agent should do` },
+        },
+      },
+      execute: ({ message }, context) => {
+        const pending = this.pending.get(context.executionId);
+        if (pending) {
+          return `Already handing off to ${pending.to}`;
+        }
+
+        this.pending.set(context.executionId, { from, to: link.agent, message, history: link.history });
+        return `Handing off to ${link.agent}`;
+      },
+    };
+  }
+
+  /**
+   * Tool that runs another agent on a task and returns its answer
+   */
+  private subAgentTool(from: string, link: Required<AgentLink>): Tool<{ task: string }> {
+    const name = `ask_${link.agent}`;
+    const description = this.definitions.get(link.agent)!.description;
+    this.subAgentTools.set(name, link.agent);
+
+    return {
+      name,
+      description: `Ask the ${link.agent} agent to do a task and return its answer${description ? `: ${description}` : ''}`,
+      parameters: {
+        type: 'object',
+        required: ['task'],
+        properties: {
+          task: { type: 'string', description: `The task for the ${link.agent} agent` },
+        },
+      },
+      execute: async ({ task }, context) => {
+        // Calls from an agent used outside execute() get a run of their own
+        const run = this.executions.get(context.executionId) || { id: '', usage: {} };
+        this.emit('agent:call', { executionId: context.executionId, from, to: link.agent, task });
+
+        const result = await this.runChain(run, link.agent, task, {
+          userId: context.userId,
+          sessionId: context.sessionId,
+          signal: context.signal,
+          history: link.history === 'shared' ? sharedHistory(context.messages || []) : [],
+        });
+
+        if (result.status !== 'completed') {
+          throw result.failure!;
+        }
+        return result.output;
+      },
+    };
+  }
+
+  /**
+   * Normalize a link, checking that it names a known agent
+   */
+  private resolveLink(definition: AgentDefinition, link: string | AgentLink, history: HistoryMode): Required<AgentLink> {
+    const resolved = typeof link === 'string' ? { agent: link, history } : { history, ...link };
+
+    if (!this.definitions.has(resolved.agent)) {
+      throw new AgentValidationError(
+        `Agent '${definition.name}' links to unknown agent '${resolved.agent}'`,
+        'agents',
+        resolved.agent
+      );
+    }
+    return resolved;
+  }
+
+  private requireAgent(name: string, field: string): void {
+    if (!this.definitions.has(name)) {
+      throw new AgentValidationError(`Unknown agent '${name}'`, field, name);
+    }
+  }
+}
+
+/**
+ * The caller's conversation without its system prompt or its unfinished
+ * tool-calling turn, which providers reject without every tool result
+ */
+function sharedHistory(messages: Message[]): Message[] {
+  let end = messages.length;
+  while (end > 0 && !(messages[end - 1]!.role === 'assistant' && messages[end - 1]!.toolCalls?.length)) {
+    end--;
+  }
+
+  return messages.slice(0, end > 0 ? end - 1 : messages.length).filter(message => message.role !== 'system');
+}
@@ -0,0 +1,191 @@
+/**
+ * Pricing - Per-model token rates, cost calculation and spending budgets
+ */
+
+import { TokenUsage } from './types.js';
+
+/**
+ * Token rates for one model, in USD per million tokens
+ */
+export interface ModelPricing {
+  prompt: number;
+  completion: number;
+}
+
+/**
+ * Built-in rates, overridable through RuntimeConfig.pricing
+ */
+export const DEFAULT_PRICING: Record<string, ModelPricing> = {
+  'gpt-4-turbo-preview': { prompt: 10, completion: 30 },
+  'gpt-4-turbo': { prompt: 10, completion: 30 },
+  'gpt-4': { prompt: 30, completion: 60 },
+  'gpt-4o': { prompt: 2.5, completion: 10 },
+  'gpt-4o-mini': { prompt: 0.15, completion: 0.6 },
+  'gpt-3.5-turbo': { prompt: 0.5, completion: 1.5 },
+};
+
+/**
+ * Pricing Registry - Looks up model rates and prices token usage
+ */
+export class PricingRegistry {
+  private rates: Map<string, ModelPricing>;
+
+  constructor(overrides: Record<string, ModelPricing> = {}) {
+    this.rates = new Map(Object.entries({ ...DEFAULT_PRICING, ...overrides }));
+  }
+
+  /**
+   * Set the rates for a model
+   */
+  set(model: string, pricing: ModelPricing): this {
+    this.rates.set(model, pricing);
+    return this;
+  }
+
+  /**
+   * Get the rates for a model
+   *
+   * Dated snapshots such as `gpt-4o-2024-08-06` fall back to the longest
+   * registered model name they start with.
+   */
+  get(model: string): ModelPricing | undefined {
+    const exact = this.rates.get(model);
+    if (exact) {
+      return exact;
+    }
+
+    let match: string | undefined;
+    for (const name of this.rates.keys()) {
+      if (model.startsWith(`${name}-`) && (!match || name.length > match.length)) {
+        match = name;
+      }
+    }
+    return match ? this.rates.get(match) : undefined;
+  }
+
+  /**
+   * Price token usage for a model, or undefined when the model has no rates
+   */
+  cost(model: string, usage: Pick<TokenUsage, 'promptTokens' | 'completionTokens'>): number | undefined {
+    const pricing = this.get(model);
+    if (!pricing) {
+      return undefined;
+    }
+
+    return (usage.promptTokens * pricing.prompt + usage.completionTokens * pricing.completion) / 1_000_000;
+  }
+}
+
+/**
+ * Spending budget
+ *
+ * `user` and `session` budgets apply per userId or sessionId and are
+ * skipped for executions without one; a `runtime` budget covers every
+ * execution. Windows are UTC calendar days or months.
+ */
+export interface Budget {
+  scope: 'user' | 'session' | 'runtime';
+  window: 'daily' | 'monthly';
+  limit: number;
+  action?: 'warn' | 'reject';
+}
+
+/**
+ * Identifies who an execution is spending for
+ */
+export interface BudgetScope {
+  userId?: string;
+  sessionId?: string;
+}
+
+/**
+ * Spend against one budget in its current window
+ */
+export interface BudgetStatus {
+  scope: Budget['scope'];
+  key: string;
+  window: Budget['window'];
+  limit: number;
+  spent: number;
+  action: 'warn' | 'reject';
+}
+
+/**
+ * Budget Tracker - Accumulates spend per budget, scope key and window
+ */
+export class BudgetTracker {
+  private spend: Map<string, { period: string; spent: number }> = new Map();
+
+  constructor(private budgets: Budget[] = []) {}
+
+  /**
+   * Get the budgets a further cost would exceed
+   */
+  check(scope: BudgetScope, cost: number, now: Date = new Date()): BudgetStatus[] {
+    return this.statuses(scope, now).filter(status => status.spent + cost > status.limit);
+  }
+
+  /**
+   * Add spend to every budget that applies
+   */
+  record(scope: BudgetScope, cost: number, now: Date = new Date()): void {
+    for (const { entry, status } of this.applicable(scope, now)) {
+      this.spend.set(entry, { period: periodOf(status.window, now), spent: status.spent + cost });
+    }
+  }
+
+  /**
+   * Get current spend against every budget that applies
+   */
+  statuses(scope: BudgetScope, now: Date = new Date()): BudgetStatus[] {
+    return this.applicable(scope, now).map(({ status }) => status);
+  }
+
+  private applicable(scope: BudgetScope, now: Date): Array<{ entry: string; status: BudgetStatus }> {
+    const applicable: Array<{ entry: string; status: BudgetStatus }> = [];
+
+    this.budgets.forEach((budget, index) => {
+      const key = budget.scope === 'user' ? scope.userId
+        : budget.scope === 'session' ? scope.sessionId
+        : 'runtime';
+
+      if (key === undefined) {
+        return;
+      }
+
+      const entry = `${index}:${key}`;
+      const current = this.spend.get(entry);
+
+      applicable.push({
+        entry,
+        status: {
+          scope: budget.scope,
+          key,
+          window: budget.window,
+          limit: budget.limit,
+          spent: current && current.period === periodOf(budget.window, now) ? current.spent : 0,
+          action: budget.action || 'reject',
+        },
+      });
+    });
+
+    return applicable;
+  }
+}
+
+/**
+ * Add one usage record onto a running total
+ */
+export function addUsage(total: TokenUsage, usage: TokenUsage): void {
+  total.promptTokens += usage.promptTokens;
+  total.completionTokens += usage.completionTokens;
+  total.totalTokens += usage.totalTokens;
+  if (usage.cost !== undefined) {
+    total.cost = (total.cost ?? 0) + usage.cost;
+  }
+}
+
+function periodOf(window: Budget['window'], now: Date): string {
+  const iso = now.toISOString();
+  return window === 'daily' ? iso.slice(0, 10) : iso.slice(0, 7);
+}
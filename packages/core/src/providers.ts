@@ -0,0 +1,575 @@
+/**
+ * Model Providers - Pluggable LLM backends for the agent runtime
+ */
+
+import { Message, ToolCall, ToolCallDelta, TokenUsage } from './types.js';
+import { AgentModelError, AgentRateLimitError } from './errors.js';
+import { ToolDefinition, parseToolCall } from './tools.js';
+import { RateLimitInfo } from './resilience.js';
+import { JSONSchema } from './schema.js';
+
+/**
+ * Capabilities advertised by a provider for a given model
+ */
+export interface ModelCapabilities {
+  toolCalling: boolean;
+  streaming: boolean;
+  maxContextTokens: number;
+}
+
+/**
+ * Sampling options forwarded to the provider
+ */
+export interface ModelRequestOptions {
+  temperature: number;
+  maxTokens: number;
+  topP?: number;
+  frequencyPenalty?: number;
+  presencePenalty?: number;
+  stopSequences?: string[];
+  responseFormat?: ResponseFormat;
+}
+
+/**
+ * Ask the model for JSON output, optionally matching a schema
+ */
+export interface ResponseFormat {
+  type: 'json';
+  schema?: JSONSchema;
+  name?: string;
+}
+
+/**
+ * Request sent to a model provider
+ *
+ * `traceparent` identifies the runtime's span for the call; HTTP
+ * providers forward it so the backend can join the trace.
+ */
+export interface ModelRequest {
+  model: string;
+  messages: Message[];
+  options: ModelRequestOptions;
+  tools?: ToolDefinition[];
+  signal?: AbortSignal;
+  traceparent?: string;
+}
+
+/**
+ * Reason the model stopped generating
+ */
+export type FinishReason = 'stop' | 'length' | 'tool_calls' | 'content_filter';
+
+/**
+ * Complete (non-streaming) model response
+ */
+export interface ModelResponse {
+  model: string;
+  content: string;
+  toolCalls: ToolCall[];
+  finishReason: FinishReason;
+  usage: TokenUsage;
+  rateLimit?: RateLimitInfo;
+}
+
+/**
+ * Incremental delta emitted while streaming
+ */
+export interface ModelStreamDelta {
+  content?: string;
+  toolCalls?: ToolCallDelta[];
+  finishReason?: FinishReason;
+  usage?: TokenUsage;
+  rateLimit?: RateLimitInfo;
+}
+
+/**
+ * Model provider - implemented once per LLM backend
+ */
+export interface ModelProvider {
+  readonly name: string;
+
+  /**
+   * Describe what the given model supports
+   */
+  capabilities(model: string): ModelCapabilities;
+
+  /**
+   * Run a request and return the complete response
+   */
+  complete(request: ModelRequest): Promise<ModelResponse>;
+
+  /**
+   * Run a request and yield incremental deltas
+   */
+  stream(request: ModelRequest): AsyncIterable<ModelStreamDelta>;
+}
+
+/**
+ * Default capabilities used when a provider knows nothing about a model
+ */
+export const DEFAULT_CAPABILITIES: ModelCapabilities = {
+  toolCalling: true,
+  streaming: true,
+  maxContextTokens: 128000,
+};
+
+/**
+ * OpenAI-compatible provider configuration
+ */
+export interface OpenAICompatibleConfig {
+  baseUrl: string;
+  apiKey?: string;
+  name?: string;
+  headers?: Record<string, string>;
+  capabilities?: Record<string, Partial<ModelCapabilities>>;
+}
+
+/**
+ * OpenAI-compatible chat completions provider
+ *
+ * Works against any server implementing `POST /chat/completions`,
+ * including local stand-ins such as vLLM, Ollama or LM Studio.
+ */
+export class OpenAICompatibleProvider implements ModelProvider {
+  readonly name: string;
+  private config: OpenAICompatibleConfig;
+
+  constructor(config: OpenAICompatibleConfig) {
+    this.config = config;
+    this.name = config.name || 'openai';
+  }
+
+  capabilities(model: string): ModelCapabilities {
+    return { ...DEFAULT_CAPABILITIES, ...this.config.capabilities?.[model] };
+  }
+
+  async complete(request: ModelRequest): Promise<ModelResponse> {
+    const response = await this.post(this.buildBody(request, false), request);
+    const body = this.parseJSON<OpenAIChatResponse>(await response.text(), response.status);
+    const choice = body.choices?.[0];
+
+    if (!choice) {
+      throw new AgentModelError('Response contained no choices', this.name, response.status);
+    }
+
+    return {
+      model: body.model || request.model,
+      content: choice.message?.content || '',
+      toolCalls: (choice.message?.tool_calls || []).map(call =>
+        parseToolCall(call.id, call.function.name, call.function.arguments)
+      ),
+      finishReason: mapFinishReason(choice.finish_reason),
+      usage: mapUsage(body.usage),
+      rateLimit: parseRateLimitHeaders(response.headers),
+    };
+  }
+
+  async *stream(request: ModelRequest): AsyncGenerator<ModelStreamDelta> {
+    const response = await this.post(this.buildBody(request, true), request);
+
+    if (!response.body) {
+      throw new AgentModelError('Response has no body to stream', this.name, response.status);
+    }
+
+    let rateLimit = parseRateLimitHeaders(response.headers);
+
+    for await (const line of readLines(response.body as AsyncIterable<Uint8Array>)) {
+      if (!line.startsWith('data:')) {
+        continue;
+      }
+
+      const data = line.slice(5).trim();
+      if (data === '[DONE]') {
+        return;
+      }
+
+      const delta = this.parseStreamEvent(this.parseJSON<OpenAIStreamEvent>(data, response.status));
+      if (delta) {
+        // Report the response's rate limit headers once, on the first delta
+        yield rateLimit ? { ...delta, rateLimit } : delta;
+        rateLimit = undefined;
+      }
+    }
+  }
+
+  /**
+   * Parse a response body or stream event; malformed JSON is a provider failure
+   */
+  private parseJSON<T>(text: string, status: number): T {
+    try {
+      return JSON.parse(text) as T;
+    } catch (error) {
+      throw new AgentModelError(
+        `Malformed response from ${this.name}: ${error instanceof Error ? error.message : String(error)}`,
+        this.name,
+        status
+      );
+    }
+  }
+
+  private parseStreamEvent(event: OpenAIStreamEvent): ModelStreamDelta | undefined {
+    const choice = event.choices?.[0];
+    const delta: ModelStreamDelta = {};
+
+    if (choice?.delta?.content) {
+      delta.content = choice.delta.content;
+    }
+
+    if (choice?.delta?.tool_calls) {
+      delta.toolCalls = choice.delta.tool_calls.map(call => ({
+        index: call.index,
+        id: call.id,
+        name: call.function?.name,
+        arguments: call.function?.arguments,
+      }));
+    }
+
+    if (choice?.finish_reason) {
+      delta.finishReason = mapFinishReason(choice.finish_reason);
+    }
+
+    if (event.usage) {
+      delta.usage = mapUsage(event.usage);
+    }
+
+    return Object.keys(delta).length > 0 ? delta : undefined;
+  }
+
+  private buildBody(request: ModelRequest, stream: boolean): Record<string, unknown> {
+    const { options } = request;
+
+    return {
+      model: request.model,
+      messages: request.messages.map(toOpenAIMessage),
+      temperature: options.temperature,
+      max_tokens: options.maxTokens,
+      top_p: options.topP,
+      frequency_penalty: options.frequencyPenalty,
+      presence_penalty: options.presencePenalty,
+      stop: options.stopSequences,
+      ...(options.responseFormat ? { response_format: toOpenAIResponseFormat(options.responseFormat) } : {}),
+      ...(request.tools?.length ? {
+        tools: request.tools.map(tool => ({
+          type: 'function',
+          function: {
+            name: tool.name,
+            description: tool.description,
+            parameters: tool.parameters,
+          },
+        })),
+      } : {}),
+      stream,
+      ...(stream ? { stream_options: { include_usage: true } } : {}),
+    };
+  }
+
+  /**
+   * POST to the completions endpoint, mapping HTTP failures onto agent errors
+   */
+  private async post(body: Record<string, unknown>, request: ModelRequest): Promise<Response> {
+    const url = `${this.config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+    const signal = request.signal;
+    let response: Response;
+
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          ...(this.config.apiKey ? { authorization: `Bearer ${this.config.apiKey}` } : {}),
+          ...(request.traceparent ? { traceparent: request.traceparent } : {}),
+          ...this.config.headers,
+        },
+        body: JSON.stringify(body),
+        signal,
+      });
+    } catch (error) {
+      if (signal?.aborted) {
+        throw signal.reason;
+      }
+      throw new AgentModelError(
+        `Request to ${this.name} failed: ${error instanceof Error ? error.message : String(error)}`,
+        this.name
+      );
+    }
+
+    if (response.status === 429) {
+      throw AgentRateLimitError.fromHeaders(Object.fromEntries(response.headers.entries()));
+    }
+
+    if (!response.ok) {
+      throw new AgentModelError(await readErrorMessage(response), this.name, response.status);
+    }
+
+    return response;
+  }
+}
+
+/**
+ * Mock provider configuration
+ */
+export interface MockProviderConfig {
+  name?: string;
+  responses?: Array<Partial<ModelResponse>>;
+  handler?: (request: ModelRequest) => Partial<ModelResponse> | Promise<Partial<ModelResponse>>;
+  capabilities?: Partial<ModelCapabilities>;
+}
+
+/**
+ * Mock provider - Scripted responses for tests and local development
+ *
+ * Returns queued `responses` in order, then falls back to `handler`,
+ * which echoes the last message by default.
+ */
+export class MockProvider implements ModelProvider {
+  readonly name: string;
+  readonly requests: ModelRequest[] = [];
+  private config: MockProviderConfig;
+  private queue: Array<Partial<ModelResponse>>;
+
+  constructor(config: MockProviderConfig = {}) {
+    this.config = config;
+    this.name = config.name || 'mock';
+    this.queue = [...(config.responses || [])];
+  }
+
+  capabilities(_model: string): ModelCapabilities {
+    return { ...DEFAULT_CAPABILITIES, ...this.config.capabilities };
+  }
+
+  async complete(request: ModelRequest): Promise<ModelResponse> {
+    this.requests.push(request);
+    request.signal?.throwIfAborted();
+
+    const scripted = this.queue.shift()
+      ?? await (this.config.handler || echo)(request);
+    const content = scripted.content ?? '';
+    const toolCalls = scripted.toolCalls ?? [];
+    const promptTokens = request.messages.reduce(
+      (sum, msg) => sum + Math.ceil(msg.content.length / 4),
+      0
+    );
+    const completionTokens = Math.ceil(content.length / 4);
+
+    return {
+      model: scripted.model ?? request.model,
+      content,
+      toolCalls,
+      finishReason: scripted.finishReason ?? (toolCalls.length > 0 ? 'tool_calls' : 'stop'),
+      usage: scripted.usage ?? {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+      },
+    };
+  }
+
+  async *stream(request: ModelRequest): AsyncGenerator<ModelStreamDelta> {
+    const response = await this.complete(request);
+
+    for (const word of response.content.match(/\s*\S+/g) || []) {
+      yield { content: word };
+    }
+
+    if (response.toolCalls.length > 0) {
+      yield {
+        toolCalls: response.toolCalls.map((call, index) => ({
+          index,
+          id: call.id,
+          name: call.name,
+          arguments: JSON.stringify(call.arguments),
+        })),
+      };
+    }
+
+    yield { finishReason: response.finishReason, usage: response.usage };
+  }
+}
+
+function echo(request: ModelRequest): Partial<ModelResponse> {
+  return { content: `Processed: ${request.messages[request.messages.length - 1]?.content || ''}` };
+}
+
+/**
+ * Wire types for the OpenAI chat completions API
+ */
+interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+interface OpenAIChatResponse {
+  model?: string;
+  choices?: Array<{
+    message?: { content?: string | null; tool_calls?: OpenAIToolCall[] };
+    finish_reason?: string | null;
+  }>;
+  usage?: OpenAIUsage;
+}
+
+interface OpenAIStreamEvent {
+  choices?: Array<{
+    delta?: {
+      content?: string | null;
+      tool_calls?: Array<{
+        index: number;
+        id?: string;
+        function?: { name?: string; arguments?: string };
+      }>;
+    };
+    finish_reason?: string | null;
+  }>;
+  usage?: OpenAIUsage | null;
+}
+
+function toOpenAIMessage(message: Message): Record<string, unknown> {
+  const toolCalls = message.toolCalls?.length ? message.toolCalls : undefined;
+
+  return {
+    role: message.role,
+    content: toolCalls && !message.content ? null : message.content,
+    ...(message.name ? { name: message.name } : {}),
+    ...(message.toolCallId ? { tool_call_id: message.toolCallId } : {}),
+    ...(toolCalls ? {
+      tool_calls: toolCalls.map(call => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+      })),
+    } : {}),
+  };
+}
+
+/**
+ * Map a response format onto OpenAI's `response_format`
+ *
+ * Without a schema the model is only asked for a JSON object.
+ */
+function toOpenAIResponseFormat(format: ResponseFormat): Record<string, unknown> {
+  if (!format.schema) {
+    return { type: 'json_object' };
+  }
+  return {
+    type: 'json_schema',
+    json_schema: { name: format.name || 'response', schema: format.schema },
+  };
+}
+
+function mapFinishReason(reason?: string | null): FinishReason {
+  switch (reason) {
+    case 'length':
+      return 'length';
+    case 'tool_calls':
+    case 'function_call':
+      return 'tool_calls';
+    case 'content_filter':
+      return 'content_filter';
+    default:
+      return 'stop';
+  }
+}
+
+function mapUsage(usage?: OpenAIUsage | null): TokenUsage {
+  const promptTokens = usage?.prompt_tokens ?? 0;
+  const completionTokens = usage?.completion_tokens ?? 0;
+
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: usage?.total_tokens ?? promptTokens + completionTokens,
+  };
+}
+
+/**
+ * Parse OpenAI-style `x-ratelimit-*` response headers
+ */
+function parseRateLimitHeaders(headers: Headers): RateLimitInfo | undefined {
+  const number = (name: string): number | undefined => {
+    const value = headers.get(name);
+    return value !== null && value !== '' && !Number.isNaN(Number(value)) ? Number(value) : undefined;
+  };
+  const resetAt = (name: string): Date | undefined => {
+    const value = headers.get(name);
+    const ms = value ? parseDuration(value) : undefined;
+    return ms !== undefined ? new Date(Date.now() + ms) : undefined;
+  };
+
+  const info: RateLimitInfo = {
+    remainingRequests: number('x-ratelimit-remaining-requests') ?? number('x-ratelimit-remaining'),
+    remainingTokens: number('x-ratelimit-remaining-tokens'),
+    resetRequestsAt: resetAt('x-ratelimit-reset-requests'),
+    resetTokensAt: resetAt('x-ratelimit-reset-tokens'),
+  };
+
+  const epochReset = number('x-ratelimit-reset');
+  if (!info.resetRequestsAt && epochReset !== undefined) {
+    info.resetRequestsAt = new Date(epochReset * 1000);
+  }
+
+  return Object.values(info).some(value => value !== undefined) ? info : undefined;
+}
+
+/**
+ * Parse durations such as `20ms`, `1s` or `6m0s` into milliseconds
+ */
+function parseDuration(value: string): number | undefined {
+  const units: Record<string, number> = { ms: 1, s: 1000, m: 60000, h: 3600000 };
+  let total = 0;
+  let matched = false;
+
+  for (const [, amount, unit] of value.matchAll(/(\d+(?:\.\d+)?)(ms|s|m|h)/g)) {
+    total += Number(amount) * units[unit!]!;
+    matched = true;
+  }
+
+  return matched ? total : undefined;
+}
+
+/**
+ * Split a byte stream into trimmed lines, including a final line that
+ * has no trailing newline
+ */
+async function* readLines(body: AsyncIterable<Uint8Array>): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for await (const bytes of body) {
+    buffer += decoder.decode(bytes, { stream: true });
+
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) >= 0) {
+      yield buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+    }
+  }
+
+  buffer += decoder.decode();
+  if (buffer.trim()) {
+    yield buffer.trim();
+  }
+}
+
+async function readErrorMessage(response: Response): Promise<string> {
+  const text = await response.text().catch(() => '');
+
+  try {
+    const body = JSON.parse(text) as { error?: { message?: string } | string };
+    if (typeof body.error === 'string') {
+      return body.error;
+    }
+    if (body.error?.message) {
+      return body.error.message;
+    }
+  } catch {
+    // Not JSON, fall through to the raw body
+  }
+
+  return text || `HTTP ${response.status} ${response.statusText}`;
+}
@@ -0,0 +1,419 @@
+/**
+ * Job Queue - Runs submitted tasks in the background on a worker pool
+ */
+
+import { EventEmitter } from 'events';
+import { AgentCancelledError, AgentQueueFullError, AgentValidationError } from './errors.js';
+import { ExecutionConfig, ExecutionResult } from './types.js';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export type JobPriority = 'high' | 'normal' | 'low';
+
+/**
+ * Scheduling order of each priority, lowest first
+ */
+const PRIORITY_ORDER: Record<JobPriority, number> = {
+  high: 0,
+  normal: 1,
+  low: 2,
+};
+
+/**
+ * A submitted task and its outcome
+ *
+ * `status` follows the execution result: a job whose execution failed or
+ * timed out is 'failed'. Times are milliseconds since the epoch.
+ */
+export interface Job {
+  id: string;
+  task: string;
+  config: Omit<ExecutionConfig, 'signal'>;
+  priority: JobPriority;
+  status: JobStatus;
+  submittedAt: number;
+  startedAt?: number;
+  completedAt?: number;
+  executionId?: string;
+  result?: ExecutionResult;
+  error?: string;
+}
+
+/**
+ * Payload of `job:queued`, `job:start`, `job:progress` and `job:complete`
+ *
+ * Progress events carry the runtime event name and its data.
+ */
+export interface JobEvent {
+  jobId: string;
+  job?: Job;
+  event?: string;
+  data?: Record<string, unknown>;
+}
+
+/**
+ * Persistence for jobs
+ */
+export interface JobStore {
+  save(job: Job): Promise<void>;
+  get(id: string): Promise<Job | undefined>;
+
+  /**
+   * List jobs in any of the given states, oldest first
+   */
+  list(statuses: JobStatus[]): Promise<Job[]>;
+  delete(id: string): Promise<void>;
+}
+
+/**
+ * Runs one job; the signal aborts when the job is cancelled
+ */
+export type JobRunner = (job: Job, signal: AbortSignal) => Promise<ExecutionResult>;
+
+/**
+ * Queue options
+ *
+ * `maxDepth` bounds the jobs waiting to run; finished jobs are kept in
+ * the store for `retention` milliseconds.
+ */
+export interface JobQueueConfig {
+  concurrency?: number;
+  maxDepth?: number;
+  retention?: number;
+  store?: JobStore;
+}
+
+/**
+ * Queued and running job counts
+ */
+export interface JobQueueStats {
+  queued: number;
+  running: number;
+  concurrency: number;
+  maxDepth: number;
+}
+
+const JOB_EVENTS = ['job:queued', 'job:start', 'job:progress', 'job:complete'];
+
+const FINISHED: JobStatus[] = ['completed', 'failed', 'cancelled'];
+
+/**
+ * In-memory job store - jobs are lost when the process exits
+ */
+export class InMemoryJobStore implements JobStore {
+  private jobs: Map<string, Job> = new Map();
+
+  async save(job: Job): Promise<void> {
+    this.jobs.set(job.id, { ...job });
+  }
+
+  async get(id: string): Promise<Job | undefined> {
+    const job = this.jobs.get(id);
+    return job && { ...job };
+  }
+
+  async list(statuses: JobStatus[]): Promise<Job[]> {
+    return [...this.jobs.values()]
+      .filter(job => statuses.includes(job.status))
+      .sort((a, b) => a.submittedAt - b.submittedAt)
+      .map(job => ({ ...job }));
+  }
+
+  async delete(id: string): Promise<void> {
+    this.jobs.delete(id);
+  }
+}
+
+/**
+ * Job Queue - Priority scheduling with per-user fairness
+ *
+ * Higher priorities always run first. Within a priority the next job
+ * belongs to the user with the fewest running jobs, then the user served
+ * least recently, so one user's backlog cannot starve everyone else.
+ * Jobs without a userId share one slot in that rotation.
+ */
+export class JobQueue extends EventEmitter {
+  private pending: Job[] = [];
+  private running: Map<string, { job: Job; controller: AbortController }> = new Map();
+  private submitting = 0;
+  private served: Map<string, number> = new Map();
+  private sequence = 0;
+  private finished: Array<{ id: string; completedAt: number }> = [];
+  private store: JobStore;
+  private concurrency: number;
+  private maxDepth: number;
+  private retention: number;
+
+  constructor(private runner: JobRunner, config: JobQueueConfig = {}) {
+    super();
+    this.setMaxListeners(0);
+    this.store = config.store || new InMemoryJobStore();
+    this.concurrency = config.concurrency ?? 4;
+    this.maxDepth = config.maxDepth ?? 1000;
+    this.retention = config.retention ?? 3_600_000;
+  }
+
+  /**
+   * Queue a task, rejecting with AgentQueueFullError at maxDepth
+   */
+  async submit(task: string, config: ExecutionConfig = {}, priority: JobPriority = 'normal'): Promise<Job> {
+    if (this.pending.length + this.submitting >= this.maxDepth) {
+      throw new AgentQueueFullError(this.maxDepth);
+    }
+
+    const { signal: _signal, ...settings } = config;
+    const job: Job = {
+      id: `job_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      task,
+      config: settings,
+      priority,
+      status: 'queued',
+      submittedAt: Date.now(),
+    };
+
+    this.submitting++;
+    try {
+      await this.store.save(job);
+    } finally {
+      this.submitting--;
+    }
+
+    this.pending.push(job);
+    this.emit('job:queued', { jobId: job.id, job: { ...job } });
+    this.drain();
+    return { ...job };
+  }
+
+  /**
+   * Re-queue jobs left queued or running by a previous process
+   *
+   * Jobs already known to this queue are skipped; maxDepth is not applied.
+   */
+  async recover(): Promise<number> {
+    let recovered = 0;
+
+    for (const job of await this.store.list(['queued', 'running'])) {
+      if (this.running.has(job.id) || this.pending.some(pending => pending.id === job.id)) {
+        continue;
+      }
+
+      job.status = 'queued';
+      job.startedAt = undefined;
+      await this.store.save(job);
+      this.pending.push(job);
+      recovered++;
+    }
+
+    this.drain();
+    return recovered;
+  }
+
+  /**
+   * Get a job by id
+   */
+  async get(id: string): Promise<Job | undefined> {
+    const job = this.running.get(id)?.job || this.pending.find(pending => pending.id === id);
+    return job ? { ...job } : this.store.get(id);
+  }
+
+  /**
+   * Wait for a job to finish
+   */
+  async wait(id: string): Promise<Job> {
+    return new Promise<Job>((resolve, reject) => {
+      const onComplete = (event: JobEvent) => {
+        if (event.jobId === id) {
+          this.off('job:complete', onComplete);
+          resolve(event.job!);
+        }
+      };
+      // Listen first so a job finishing during the lookup is not missed
+      this.on('job:complete', onComplete);
+
+      this.get(id).then(job => {
+        if (!job) {
+          this.off('job:complete', onComplete);
+          reject(new AgentValidationError(`Unknown job: ${id}`, 'jobId', id));
+        } else if (FINISHED.includes(job.status)) {
+          this.off('job:complete', onComplete);
+          resolve(job);
+        }
+      }, error => {
+        this.off('job:complete', onComplete);
+        reject(error);
+      });
+    });
+  }
+
+  /**
+   * Receive the queued, start, progress and complete events of one job
+   *
+   * Returns a function that removes the listener.
+   */
+  subscribe(id: string, listener: (type: string, event: JobEvent) => void): () => void {
+    const handlers = JOB_EVENTS.map(type => {
+      const handler = (event: JobEvent) => {
+        if (event.jobId === id) {
+          listener(type, event);
+        }
+      };
+      this.on(type, handler);
+      return [type, handler] as const;
+    });
+
+    return () => {
+      for (const [type, handler] of handlers) {
+        this.off(type, handler);
+      }
+    };
+  }
+
+  /**
+   * Report progress of a running job
+   *
+   * The first event carrying an executionId links the job to its execution.
+   */
+  report(id: string, event: string, data: Record<string, unknown> = {}): void {
+    const entry = this.running.get(id);
+    if (!entry) {
+      return;
+    }
+
+    if (entry.job.executionId === undefined && typeof data.executionId === 'string') {
+      entry.job.executionId = data.executionId;
+    }
+    this.emit('job:progress', { jobId: id, event, data });
+  }
+
+  /**
+   * Cancel a queued or running job
+   *
+   * Returns false if the job is unknown or already finished.
+   */
+  async cancel(id: string, reason?: string): Promise<boolean> {
+    const running = this.running.get(id);
+    if (running) {
+      running.controller.abort(new AgentCancelledError(running.job.executionId, reason));
+      return true;
+    }
+
+    const index = this.pending.findIndex(job => job.id === id);
+    if (index === -1) {
+      return false;
+    }
+
+    const [job] = this.pending.splice(index, 1);
+    job!.error = reason || 'Job was cancelled';
+    await this.finish(job!, 'cancelled');
+    return true;
+  }
+
+  /**
+   * Get queued and running job counts
+   */
+  getStats(): JobQueueStats {
+    return {
+      queued: this.pending.length,
+      running: this.running.size,
+      concurrency: this.concurrency,
+      maxDepth: this.maxDepth,
+    };
+  }
+
+  /**
+   * Start queued jobs while workers are free
+   */
+  private drain(): void {
+    while (this.running.size < this.concurrency && this.pending.length > 0) {
+      const index = this.nextIndex();
+      const [job] = this.pending.splice(index, 1);
+      void this.run(job!);
+    }
+  }
+
+  /**
+   * Pick the next job by priority, then fairness, then submission order
+   */
+  private nextIndex(): number {
+    const runningByUser = new Map<string, number>();
+    for (const { job } of this.running.values()) {
+      runningByUser.set(userKey(job), (runningByUser.get(userKey(job)) || 0) + 1);
+    }
+
+    const rank = (job: Job): number[] => [
+      PRIORITY_ORDER[job.priority],
+      runningByUser.get(userKey(job)) || 0,
+      this.served.get(userKey(job)) ?? -1,
+    ];
+
+    let best = 0;
+    this.pending.forEach((job, index) => {
+      if (compareRanks(rank(job), rank(this.pending[best]!)) < 0) {
+        best = index;
+      }
+    });
+    return best;
+  }
+
+  private async run(job: Job): Promise<void> {
+    const controller = new AbortController();
+    let status: JobStatus;
+
+    job.status = 'running';
+    job.startedAt = Date.now();
+    this.running.set(job.id, { job, controller });
+    this.served.set(userKey(job), ++this.sequence);
+
+    try {
+      await this.store.save(job);
+      this.emit('job:start', { jobId: job.id, job: { ...job } });
+
+      const result = await this.runner(job, controller.signal);
+      job.result = result;
+      job.executionId = result.id;
+      job.error = result.error;
+      status = result.status === 'completed' ? 'completed' : result.status === 'cancelled' ? 'cancelled' : 'failed';
+    } catch (error) {
+      job.error = error instanceof Error ? error.message : String(error);
+      status = controller.signal.aborted ? 'cancelled' : 'failed';
+    }
+
+    this.running.delete(job.id);
+    await this.finish(job, status);
+    this.drain();
+  }
+
+  /**
+   * Record a finished job and drop finished jobs past their retention
+   */
+  private async finish(job: Job, status: JobStatus): Promise<void> {
+    job.status = status;
+    job.completedAt = Date.now();
+    this.finished.push({ id: job.id, completedAt: job.completedAt });
+
+    try {
+      await this.store.save(job);
+
+      while (this.finished.length > 0 && this.finished[0]!.completedAt < Date.now() - this.retention) {
+        await this.store.delete(this.finished.shift()!.id);
+      }
+    } catch (error) {
+      this.emit('job:error', { jobId: job.id, error });
+    }
+
+    this.emit('job:complete', { jobId: job.id, job: { ...job } });
+  }
+}
+
+function userKey(job: Job): string {
+  return job.config.userId ?? '';
+}
+
+function compareRanks(a: number[], b: number[]): number {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) {
+      return a[i]! - b[i]!;
+    }
+  }
+  return 0;
+}
@@ -1,15 +1,63 @@
 /**
- * Resilience Patterns - Retry and Circuit Breaker
+ * Resilience Patterns - Retry, Circuit Breaker, Rate Limiting, Bulkhead and Hedging
  */
 
+import { EventEmitter } from 'events';
+import { AgentBulkheadFullError, AgentCancelledError, AgentError, AgentRateLimitError } from './errors.js';
+
+/**
+ * Backoff strategy between retry attempts
+ *
+ * `exponential` waits baseDelay * factor^n plus up to 10% jitter. The
+ * jittered strategies follow the usual full, equal and decorrelated
+ * jitter formulas, all capped at maxDelay.
+ */
+export type BackoffStrategy = 'exponential' | 'full-jitter' | 'equal-jitter' | 'decorrelated-jitter';
+
+/**
+ * Decide whether a failed attempt (numbered from 1) should be retried
+ */
+export type RetryPredicate = (error: Error, attempt: number) => boolean;
+
 /**
  * Retry configuration
+ *
+ * `budget` caps the total time spent waiting between attempts and
+ * `deadline` the time since the first attempt, both in ms; a retry that
+ * would exceed either is not made. Without `shouldRetry`, AgentErrors are
+ * retried only when marked retryable and other errors always are.
  */
 export interface RetryConfig {
   maxRetries: number;
   baseDelay: number;
   maxDelay: number;
   factor: number;
+  strategy?: BackoffStrategy;
+  budget?: number;
+  deadline?: number;
+  shouldRetry?: RetryPredicate;
+}
+
+/**
+ * A scheduled retry
+ *
+ * `attempt` is the attempt that failed, numbered from 1; `retryAfter` is
+ * the server-provided wait in seconds when the delay came from one.
+ */
+export interface RetryEvent {
+  attempt: number;
+  delay: number;
+  error: Error;
+  retryAfter?: number;
+  elapsed: number;
+}
+
+/**
+ * Per-call retry options
+ */
+export interface RetryOptions {
+  signal?: AbortSignal;
+  onRetry?: (event: RetryEvent) => void;
 }
 
 /**
@@ -19,73 +67,140 @@ export type CircuitState = 'closed' | 'open' | 'half-open';
 
 /**
  * Circuit breaker configuration
+ *
+ * In `consecutive` mode (the default) the circuit opens after
+ * `failureThreshold` failures in a row. In `sliding-window` mode it opens
+ * once at least `minimumRequests` calls within `windowMs` have a failure
+ * rate of `failureRateThreshold` (0-1) or more.
  */
 export interface CircuitBreakerConfig {
   failureThreshold: number;
   successThreshold: number;
   timeout: number;
+  mode?: 'consecutive' | 'sliding-window';
+  windowMs?: number;
+  failureRateThreshold?: number;
+  minimumRequests?: number;
+  halfOpenMaxProbes?: number;
+}
+
+/**
+ * Circuit state transition
+ */
+export interface CircuitStateChange {
+  from: CircuitState;
+  to: CircuitState;
+}
+
+/**
+ * A call let through by CircuitBreaker.tryAcquire
+ *
+ * `probe` marks one of the limited half-open probe calls; only those hold
+ * a probe slot, given back when the permit is passed to recordSuccess,
+ * recordFailure or release.
+ */
+export interface CircuitPermit {
+  readonly probe: boolean;
 }
 
 /**
  * Circuit Breaker - Prevents cascading failures
+ *
+ * Emits `state-change` with a CircuitStateChange on every transition.
  */
-export class CircuitBreaker {
+export class CircuitBreaker extends EventEmitter {
   private state: CircuitState = 'closed';
   private failures: number = 0;
   private successes: number = 0;
+  private probes: Set<CircuitPermit> = new Set();
+  private outcomes: Array<{ time: number; failed: boolean }> = [];
   private lastFailureTime?: number;
   private nextAttemptTime?: number;
 
-  constructor(private config: CircuitBreakerConfig) {}
+  constructor(private config: CircuitBreakerConfig) {
+    super();
+  }
 
   /**
    * Check if circuit is open
    */
   isOpen(): boolean {
-    if (this.state === 'closed') {
-      return false;
+    return this.getState() === 'open';
+  }
+
+  /**
+   * Try to start a call
+   *
+   * Returns undefined while open, or while half-open and the maximum
+   * number of concurrent probe calls are already in flight. Every permit
+   * must be passed back to recordSuccess, recordFailure or release.
+   */
+  tryAcquire(): CircuitPermit | undefined {
+    const state = this.getState();
+
+    if (state === 'open') {
+      return undefined;
     }
 
-    if (this.state === 'open' && this.nextAttemptTime) {
-      if (Date.now() >= this.nextAttemptTime) {
-        this.state = 'half-open';
-        this.nextAttemptTime = undefined;
-        return false;
+    if (state === 'half-open') {
+      if (this.probes.size >= (this.config.halfOpenMaxProbes ?? 1)) {
+        return undefined;
       }
+      const probe: CircuitPermit = { probe: true };
+      this.probes.add(probe);
+      return probe;
     }
 
-    return this.state === 'open';
+    return { probe: false };
+  }
+
+  /**
+   * Give back a permitted call without recording an outcome
+   *
+   * Only a probe permit from the current half-open period frees a slot.
+   */
+  release(permit?: CircuitPermit): void {
+    if (permit) {
+      this.probes.delete(permit);
+    }
   }
 
   /**
    * Record a successful execution
    */
-  recordSuccess(): void {
+  recordSuccess(permit?: CircuitPermit): void {
     this.failures = 0;
+    this.release(permit);
     
     if (this.state === 'half-open') {
       this.successes++;
       if (this.successes >= this.config.successThreshold) {
-        this.state = 'closed';
+        this.transition('closed');
         this.successes = 0;
       }
+    } else if (this.config.mode === 'sliding-window') {
+      this.recordOutcome(false);
     }
   }
 
   /**
    * Record a failed execution
    */
-  recordFailure(): void {
+  recordFailure(permit?: CircuitPermit): void {
     this.failures++;
     this.lastFailureTime = Date.now();
+    this.release(permit);
 
     if (this.state === 'half-open') {
-      this.state = 'open';
-      this.setNextAttemptTime();
+      this.open();
       this.successes = 0;
+    } else if (this.config.mode === 'sliding-window') {
+      this.recordOutcome(true);
+      if (this.state === 'closed' && this.failureRateExceeded()) {
+        this.open();
+      }
     } else if (this.failures >= this.config.failureThreshold) {
-      this.state = 'open';
-      this.setNextAttemptTime();
+      this.open();
     }
   }
 
@@ -96,20 +211,30 @@ export class CircuitBreaker {
     // Check if we should transition from open to half-open
     if (this.state === 'open' && this.nextAttemptTime) {
       if (Date.now() >= this.nextAttemptTime) {
-        this.state = 'half-open';
         this.nextAttemptTime = undefined;
+        this.probes.clear();
+        this.transition('half-open');
       }
     }
     return this.state;
   }
 
+  /**
+   * When an open circuit will next allow a probe call
+   */
+  getOpensAt(): Date | undefined {
+    return this.nextAttemptTime !== undefined ? new Date(this.nextAttemptTime) : undefined;
+  }
+
   /**
    * Reset circuit breaker
    */
   reset(): void {
-    this.state = 'closed';
+    this.transition('closed');
     this.failures = 0;
     this.successes = 0;
+    this.probes.clear();
+    this.outcomes = [];
     this.lastFailureTime = undefined;
     this.nextAttemptTime = undefined;
   }
@@ -122,65 +247,703 @@ export class CircuitBreaker {
     failures: number;
     successes: number;
     lastFailureTime?: number;
+    failureRate?: number;
+    opensAt?: Date;
   } {
     return {
       state: this.getState(),
       failures: this.failures,
       successes: this.successes,
       lastFailureTime: this.lastFailureTime,
+      ...(this.config.mode === 'sliding-window' ? { failureRate: this.failureRate() } : {}),
+      opensAt: this.getOpensAt(),
     };
   }
 
-  private setNextAttemptTime(): void {
+  private open(): void {
     this.nextAttemptTime = Date.now() + this.config.timeout;
+    this.outcomes = [];
+    this.transition('open');
+  }
+
+  private transition(to: CircuitState): void {
+    const from = this.state;
+    this.state = to;
+
+    if (from !== to) {
+      this.emit('state-change', { from, to });
+    }
+  }
+
+  private recordOutcome(failed: boolean): void {
+    const now = Date.now();
+    this.outcomes.push({ time: now, failed });
+    this.pruneOutcomes(now);
+  }
+
+  private pruneOutcomes(now: number): void {
+    const windowStart = now - (this.config.windowMs ?? 60000);
+    while (this.outcomes.length > 0 && this.outcomes[0]!.time < windowStart) {
+      this.outcomes.shift();
+    }
+  }
+
+  private failureRate(): number {
+    this.pruneOutcomes(Date.now());
+    if (this.outcomes.length === 0) {
+      return 0;
+    }
+    return this.outcomes.filter(outcome => outcome.failed).length / this.outcomes.length;
+  }
+
+  private failureRateExceeded(): boolean {
+    const rate = this.failureRate();
+    return this.outcomes.length >= (this.config.minimumRequests ?? 10)
+      && rate >= (this.config.failureRateThreshold ?? 0.5);
   }
 }
 
 /**
- * Retry utility function
+ * Circuit Breaker Registry - One breaker per key, typically provider + model
+ *
+ * Emits `state-change` with the breaker key added to the CircuitStateChange.
  */
-export async function withRetry<T>(
-  fn: () => Promise<T>,
-  config: RetryConfig,
-  onRetry?: (attempt: number, error: Error, delay: number) => void
-): Promise<T> {
-  let lastError: Error | undefined;
+export class CircuitBreakerRegistry extends EventEmitter {
+  private breakers: Map<string, CircuitBreaker> = new Map();
+
+  constructor(private config: CircuitBreakerConfig) {
+    super();
+  }
+
+  /**
+   * Build the registry key for a provider and model
+   */
+  static key(provider: string, model: string): string {
+    return `${provider}:${model}`;
+  }
+
+  /**
+   * Get the breaker for a key, creating it on first use
+   */
+  get(key: string): CircuitBreaker {
+    let breaker = this.breakers.get(key);
+
+    if (!breaker) {
+      breaker = new CircuitBreaker(this.config);
+      breaker.on('state-change', (change: CircuitStateChange) => {
+        this.emit('state-change', { key, ...change });
+      });
+      this.breakers.set(key, breaker);
+    }
+
+    return breaker;
+  }
+
+  /**
+   * Get every breaker created so far
+   */
+  entries(): Array<[string, CircuitBreaker]> {
+    return [...this.breakers.entries()];
+  }
+
+  /**
+   * Get the state of every breaker
+   */
+  getStates(): Record<string, CircuitState> {
+    return Object.fromEntries(
+      this.entries().map(([key, breaker]) => [key, breaker.getState()])
+    );
+  }
+
+  /**
+   * Reset every breaker
+   */
+  reset(): void {
+    for (const breaker of this.breakers.values()) {
+      breaker.reset();
+    }
+  }
+}
+
+/**
+ * Rate limiter configuration
+ *
+ * Budgets are per minute. With `onLimit: 'queue'` callers wait for
+ * capacity (up to `maxWait` ms); with `'fail'` they get an
+ * AgentRateLimitError immediately.
+ */
+export interface RateLimiterConfig {
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+  onLimit?: 'queue' | 'fail';
+  maxWait?: number;
+}
+
+/**
+ * Provider-reported rate limit state, parsed from response headers
+ */
+export interface RateLimitInfo {
+  remainingRequests?: number;
+  remainingTokens?: number;
+  resetRequestsAt?: Date;
+  resetTokensAt?: Date;
+}
+
+/**
+ * Token bucket refilled continuously up to its per-minute capacity
+ */
+class TokenBucket {
+  private tokens: number;
+  private lastRefill: number = Date.now();
+
+  constructor(readonly capacity: number) {
+    this.tokens = capacity;
+  }
+
+  available(): number {
+    this.refill();
+    return this.tokens;
+  }
+
+  /**
+   * Milliseconds until `amount` tokens are available
+   */
+  waitTime(amount: number): number {
+    const deficit = Math.min(amount, this.capacity) - this.available();
+    return deficit <= 0 ? 0 : Math.ceil(deficit / (this.capacity / 60000));
+  }
+
+  take(amount: number): void {
+    this.refill();
+    this.tokens -= amount;
+  }
+
+  /**
+   * Lower the balance to what the provider reports as remaining
+   */
+  clamp(remaining: number): void {
+    this.refill();
+    this.tokens = Math.min(this.tokens, remaining);
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + (now - this.lastRefill) * (this.capacity / 60000)
+    );
+    this.lastRefill = now;
+  }
+}
+
+/**
+ * Rate Limiter - Client-side requests-per-minute and tokens-per-minute budgets
+ *
+ * Token usage is reserved up front from an estimate and reconciled
+ * against the actual usage once the response arrives.
+ */
+export class RateLimiter {
+  private requests?: TokenBucket;
+  private tokens?: TokenBucket;
+  private blockedUntil: number = 0;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private config: RateLimiterConfig) {
+    if (config.requestsPerMinute) {
+      this.requests = new TokenBucket(config.requestsPerMinute);
+    }
+    if (config.tokensPerMinute) {
+      this.tokens = new TokenBucket(config.tokensPerMinute);
+    }
+  }
+
+  /**
+   * Reserve one request and an estimated number of tokens
+   *
+   * Waiters are served in FIFO order. Resolves with the number of tokens
+   * reserved, to be passed to reconcile().
+   */
+  acquire(estimatedTokens: number, signal?: AbortSignal): Promise<number> {
+    const reservation = this.queue.then(() => this.reserve(estimatedTokens, signal));
+    this.queue = reservation.then(() => undefined, () => undefined);
+    return reservation;
+  }
+
+  /**
+   * Correct a reservation once actual usage is known
+   */
+  reconcile(reservedTokens: number, actualTokens: number): void {
+    this.tokens?.take(actualTokens - reservedTokens);
+  }
+
+  /**
+   * Adopt the provider's view of the remaining budget
+   */
+  observe(info: RateLimitInfo): void {
+    if (info.remainingRequests !== undefined) {
+      this.requests?.clamp(info.remainingRequests);
+      if (info.remainingRequests <= 0 && info.resetRequestsAt) {
+        this.blockUntil(info.resetRequestsAt.getTime());
+      }
+    }
+
+    if (info.remainingTokens !== undefined) {
+      this.tokens?.clamp(info.remainingTokens);
+      if (info.remainingTokens <= 0 && info.resetTokensAt) {
+        this.blockUntil(info.resetTokensAt.getTime());
+      }
+    }
+  }
+
+  /**
+   * Pause all requests after the provider rejected one
+   */
+  penalize(error: AgentRateLimitError): void {
+    if (error.resetAt) {
+      this.blockUntil(error.resetAt.getTime());
+    }
+    if (error.retryAfter !== undefined) {
+      this.blockUntil(Date.now() + error.retryAfter * 1000);
+    }
+  }
+
+  /**
+   * Get the current budget
+   */
+  getStats(): { availableRequests?: number; availableTokens?: number; blockedUntil?: Date } {
+    return {
+      availableRequests: this.requests ? Math.floor(this.requests.available()) : undefined,
+      availableTokens: this.tokens ? Math.floor(this.tokens.available()) : undefined,
+      blockedUntil: this.blockedUntil > Date.now() ? new Date(this.blockedUntil) : undefined,
+    };
+  }
+
+  private async reserve(estimatedTokens: number, signal?: AbortSignal): Promise<number> {
+    const reserved = this.tokens ? Math.min(estimatedTokens, this.tokens.capacity) : 0;
+    const startedAt = Date.now();
+
+    for (;;) {
+      const wait = Math.max(
+        this.requests?.waitTime(1) ?? 0,
+        this.tokens?.waitTime(reserved) ?? 0,
+        this.blockedUntil - Date.now()
+      );
+
+      if (wait <= 0) {
+        this.requests?.take(1);
+        this.tokens?.take(reserved);
+        return reserved;
+      }
+
+      const waited = Date.now() - startedAt;
+      if (this.config.onLimit === 'fail' || waited + wait > (this.config.maxWait ?? Infinity)) {
+        throw new AgentRateLimitError(
+          'Client-side rate limit exceeded',
+          Math.ceil(wait / 1000),
+          this.tokens && this.tokens.waitTime(reserved) > 0
+            ? this.config.tokensPerMinute
+            : this.config.requestsPerMinute,
+          0,
+          new Date(Date.now() + wait)
+        );
+      }
+
+      await sleep(wait, signal);
+    }
+  }
+
+  private blockUntil(time: number): void {
+    this.blockedUntil = Math.max(this.blockedUntil, time);
+  }
+}
+
+/**
+ * Bulkhead configuration
+ *
+ * At most `maxConcurrent` calls run at once and `maxQueue` more wait for
+ * a slot, each for up to `maxWait` ms. Calls beyond that are rejected
+ * with AgentBulkheadFullError.
+ */
+export interface BulkheadConfig {
+  maxConcurrent: number;
+  maxQueue?: number;
+  maxWait?: number;
+}
+
+/**
+ * Bulkhead - Caps concurrent calls so one workload cannot exhaust another's capacity
+ *
+ * Waiting calls get a slot in FIFO order.
+ */
+export class Bulkhead {
+  private active: number = 0;
+  private waiting: Array<() => void> = [];
+  private rejected: number = 0;
+
+  constructor(readonly name: string, private config: BulkheadConfig) {}
+
+  /**
+   * Wait for a slot and resolve with the function that frees it
+   *
+   * Rejects when the queue is full, the wait exceeds maxWait or the
+   * signal aborts.
+   */
+  acquire(signal?: AbortSignal): Promise<() => void> {
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+
+    if (this.active < this.config.maxConcurrent) {
+      this.active++;
+      return Promise.resolve(this.releaser());
+    }
+
+    const maxQueue = this.config.maxQueue ?? 0;
+    if (this.waiting.length >= maxQueue) {
+      return Promise.reject(this.reject());
+    }
+
+    return new Promise((resolve, reject) => {
+      const cleanup = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        this.waiting = this.waiting.filter(waiter => waiter !== grant);
+      };
+      const grant = () => {
+        cleanup();
+        this.active++;
+        resolve(this.releaser());
+      };
+      const onAbort = () => {
+        cleanup();
+        reject(signal!.reason);
+      };
+      const timer = this.config.maxWait === undefined
+        ? undefined
+        : setTimeout(() => {
+          cleanup();
+          reject(this.reject());
+        }, this.config.maxWait);
+
+      this.waiting.push(grant);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Run a function in a slot
+   */
+  async execute<T>(fn: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const release = await this.acquire(signal);
 
-  for (let attempt = 0; attempt <= config.maxRetries; attempt++) {
     try {
       return await fn();
-    } catch (error) {
-      lastError = error instanceof Error ? error : new Error(String(error));
-      
-      if (attempt === config.maxRetries) {
-        break;
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Get running, waiting and rejected call counts
+   */
+  getStats(): { active: number; queued: number; rejected: number; maxConcurrent: number; maxQueue: number } {
+    return {
+      active: this.active,
+      queued: this.waiting.length,
+      rejected: this.rejected,
+      maxConcurrent: this.config.maxConcurrent,
+      maxQueue: this.config.maxQueue ?? 0,
+    };
+  }
+
+  /**
+   * Build a release function that frees the slot once
+   */
+  private releaser(): () => void {
+    let released = false;
+
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+      this.active--;
+      this.waiting[0]?.();
+    };
+  }
+
+  private reject(): AgentBulkheadFullError {
+    this.rejected++;
+    return new AgentBulkheadFullError(this.name, this.config.maxConcurrent, this.config.maxQueue ?? 0);
+  }
+}
+
+/**
+ * Hedging configuration
+ *
+ * When an attempt has not finished after `delay` ms another one starts,
+ * up to `maxAttempts` in total (default 2).
+ */
+export interface HedgingConfig {
+  delay: number;
+  maxAttempts?: number;
+}
+
+/**
+ * Per-call hedging options
+ */
+export interface HedgingOptions {
+  signal?: AbortSignal;
+  onHedge?: (attempt: number) => void;
+}
+
+/**
+ * Run a function with hedged attempts to cut tail latency
+ *
+ * The first attempt to succeed wins and the others are aborted with an
+ * AgentCancelledError. A failed attempt does not start a new one; the
+ * call fails once every started attempt has failed, with the first error.
+ */
+export function withHedging<T>(
+  fn: (signal: AbortSignal, attempt: number) => Promise<T>,
+  config: HedgingConfig,
+  options: HedgingOptions = {}
+): Promise<T> {
+  const { signal, onHedge } = options;
+  const maxAttempts = Math.max(config.maxAttempts ?? 2, 1);
+
+  if (signal?.aborted) {
+    return Promise.reject(signal.reason);
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const controllers: AbortController[] = [];
+    let pending = 0;
+    let settled = false;
+    let firstError: unknown;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const finish = (winner?: AbortController) => {
+      settled = true;
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      for (const controller of controllers) {
+        if (controller !== winner) {
+          controller.abort(new AgentCancelledError(undefined, 'Hedged attempt lost'));
+        }
+      }
+    };
+    const onAbort = () => {
+      finish();
+      reject(signal!.reason);
+    };
+    const start = () => {
+      const attempt = controllers.length;
+      const controller = new AbortController();
+      controllers.push(controller);
+      pending++;
+
+      if (attempt > 0) {
+        onHedge?.(attempt);
+      }
+      if (controllers.length < maxAttempts) {
+        timer = setTimeout(start, config.delay);
       }
 
-      const delay = calculateDelay(attempt, config);
-      
-      if (onRetry) {
-        onRetry(attempt + 1, lastError, delay);
+      Promise.resolve()
+        .then(() => fn(controller.signal, attempt))
+        .then(value => {
+          if (!settled) {
+            finish(controller);
+            resolve(value);
+          }
+        }, error => {
+          pending--;
+          firstError ??= error;
+          // Failures are left to retries, so no hedge is started for them
+          if (!settled && pending === 0) {
+            finish();
+            reject(firstError);
+          }
+        });
+    };
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    start();
+  });
+}
+
+/**
+ * Retry Policy - Backoff, retry predicates and overall limits
+ */
+export class RetryPolicy {
+  constructor(readonly config: RetryConfig) {}
+
+  /**
+   * Run a function, retrying failed attempts
+   */
+  async execute<T>(fn: (attempt: number) => Promise<T>, options: RetryOptions = {}): Promise<T> {
+    const session = this.start(options);
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await fn(attempt);
+      } catch (error) {
+        await session.backoff(error);
       }
+    }
+  }
+
+  /**
+   * Start tracking the attempts of one call, for callers that drive their own loop
+   */
+  start(options: RetryOptions = {}): RetrySession {
+    return new RetrySession(this.config, options);
+  }
+}
+
+/**
+ * Retry Session - Attempt count, time waited and previous delay of one call
+ */
+export class RetrySession {
+  private attempts: number = 0;
+  private waited: number = 0;
+  private previousDelay: number;
+  private startedAt: number = Date.now();
+
+  constructor(private config: RetryConfig, private options: RetryOptions) {
+    this.previousDelay = config.baseDelay;
+  }
+
+  /**
+   * Handle a failed attempt
+   *
+   * Rethrows when the error should not be retried, retries are exhausted
+   * or the budget or deadline would be exceeded; otherwise waits for the
+   * server-provided retryAfter or the backoff delay.
+   */
+  async backoff(error: unknown): Promise<void> {
+    const { signal, onRetry } = this.options;
+    const lastError = error instanceof Error ? error : new Error(String(error));
+    const attempt = ++this.attempts;
 
-      await sleep(delay);
+    // Don't retry once the call has been aborted
+    if (signal?.aborted) {
+      throw signal.reason;
     }
+
+    const shouldRetry = this.config.shouldRetry || isRetryable;
+    if (attempt > this.config.maxRetries || !shouldRetry(lastError, attempt)) {
+      throw lastError;
+    }
+
+    const retryAfter = error instanceof AgentRateLimitError ? error.retryAfter : undefined;
+    const delay = retryAfter !== undefined
+      ? retryAfter * 1000
+      : calculateDelay(attempt, this.config, this.previousDelay);
+    const elapsed = Date.now() - this.startedAt;
+
+    if (this.config.budget !== undefined && this.waited + delay > this.config.budget) {
+      throw lastError;
+    }
+    if (this.config.deadline !== undefined && elapsed + delay > this.config.deadline) {
+      throw lastError;
+    }
+
+    this.waited += delay;
+    this.previousDelay = delay;
+    onRetry?.({ attempt, delay, error: lastError, retryAfter, elapsed });
+
+    await sleep(delay, signal);
+  }
+}
+
+/**
+ * Settle with the promise, or reject with the signal's reason once it aborts
+ */
+export function raceAbort<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) {
+    return Promise.reject(signal.reason);
   }
 
-  throw lastError;
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Retry utility function
+ */
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  config: RetryConfig,
+  onRetry?: (attempt: number, error: Error, delay: number) => void
+): Promise<T> {
+  return new RetryPolicy(config).execute(() => fn(), {
+    onRetry: onRetry && (event => onRetry(event.attempt, event.error, event.delay)),
+  });
+}
+
+/**
+ * Default retry predicate - honours AgentError.retryable
+ */
+function isRetryable(error: Error): boolean {
+  return error instanceof AgentError ? error.retryable : true;
 }
 
 /**
- * Calculate delay with exponential backoff and jitter
+ * Calculate the delay before the given retry
  */
-function calculateDelay(attempt: number, config: RetryConfig): number {
-  const exponentialDelay = config.baseDelay * Math.pow(config.factor, attempt);
-  const jitter = Math.random() * 0.1 * exponentialDelay;
-  return Math.min(exponentialDelay + jitter, config.maxDelay);
+function calculateDelay(attempt: number, config: RetryConfig, previousDelay: number): number {
+  const { baseDelay, maxDelay, factor } = config;
+  const exponentialDelay = baseDelay * Math.pow(factor, attempt - 1);
+  const ceiling = Math.min(exponentialDelay, maxDelay);
+
+  switch (config.strategy || 'exponential') {
+    case 'full-jitter':
+      return Math.random() * ceiling;
+    case 'equal-jitter':
+      return ceiling / 2 + Math.random() * (ceiling / 2);
+    case 'decorrelated-jitter':
+      return Math.min(maxDelay, baseDelay + Math.random() * Math.max(0, previousDelay * 3 - baseDelay));
+    default: {
+      const jitter = Math.random() * 0.1 * exponentialDelay;
+      return Math.min(exponentialDelay + jitter, maxDelay);
+    }
+  }
 }
 
 /**
- * Sleep utility
+ * Sleep utility - rejects early if the signal aborts
  */
-function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
 }
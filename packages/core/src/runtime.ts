@@ -6,6 +6,7 @@ import { EventEmitter } from 'events';
 import {
   Message,
   ToolCall,
+  ToolCallDelta,
   StreamChunk,
   TokenUsage,
   ExecutionResult,
@@ -19,53 +20,148 @@ import {
   AgentTimeoutError,
   AgentRateLimitError,
   AgentModelError,
+  AgentToolError,
+  AgentCancelledError,
+  AgentCircuitOpenError,
+  AgentBudgetExceededError,
+  AgentValidationError,
 } from './errors.js';
-import { RetryConfig, CircuitBreaker } from './resilience.js';
-import { AgentMetrics } from './metrics.js';
+import {
+  RetryConfig,
+  RetryEvent,
+  RetryPolicy,
+  CircuitBreaker,
+  CircuitBreakerConfig,
+  CircuitBreakerRegistry,
+  CircuitPermit,
+  RateLimiter,
+  RateLimiterConfig,
+  RateLimitInfo,
+  Bulkhead,
+  BulkheadConfig,
+  HedgingConfig,
+  withHedging,
+  raceAbort,
+} from './resilience.js';
+import { AgentMetrics, HistogramBuckets } from './metrics.js';
+import {
+  ModelProvider,
+  ModelRequest,
+  ModelRequestOptions,
+  ModelResponse,
+  ModelStreamDelta,
+  FinishReason,
+} from './providers.js';
+import { ToolRegistry, parseToolCall } from './tools.js';
+import { AgentMemory } from './memory.js';
+import { Budget, BudgetScope, BudgetStatus, BudgetTracker, ModelPricing, PricingRegistry, addUsage } from './pricing.js';
+import { MessageTokenCache, Tokenizer, TokenizerRegistry, countMessageTokens } from './tokenizer.js';
+import { FileSpanExporter, Span, SpanAttributeValue, SpanExporter, Tracer, parseTraceparent } from './tracing.js';
+import { LogLevel, Logger } from './logger.js';
+import { ExecutionRecord, ExecutionStore, toExecutionRecord } from './store.js';
+import { Job, JobEvent, JobPriority, JobQueue, JobQueueConfig } from './queue.js';
+import { Guardrail, GuardrailStage, runGuardrails } from './guardrails.js';
+import { CacheBackend, CacheMode, FileCacheBackend, LRUCacheBackend, ResponseCache, cacheKey } from './cache.js';
+import { Middleware, MiddlewareChain, ModelCallContext, ToolCallContext } from './middleware.js';
+import { formatSchemaIssues, parseJSONOutput } from './schema.js';
+import { DEFAULT_CONFIG, RuntimeConfigInput, mergeConfig, validateConfig } from './config.js';
+
+/**
+ * Alternate model tried when the ones before it fail
+ */
+export interface ModelFallback {
+  model: string;
+  options?: Partial<ModelRequestOptions>;
+}
+
+/**
+ * Failures that move on to the next model in the fallback chain
+ *
+ * `server-error` is a 5xx response, `network-error` a request that never
+ * got a response, `circuit-open` the model's breaker refusing the call and
+ * `rate-limit` a provider or client-side rate limit.
+ */
+export type FallbackTrigger = 'server-error' | 'network-error' | 'circuit-open' | 'rate-limit';
+
+/**
+ * A model that was skipped in favour of the next fallback
+ */
+export interface SkippedModel {
+  model: string;
+  reason: FallbackTrigger;
+  error: string;
+}
 
 /**
  * Agent Runtime Configuration
  */
 export interface RuntimeConfig extends AgentOptions {
+  systemPrompt?: string;
+  provider?: ModelProvider;
+  tools?: ToolRegistry;
+  memory?: AgentMemory;
+  store?: ExecutionStore;
+  guardrails?: Guardrail[];
+  tokenizers?: TokenizerRegistry;
+  contextOverflow?: 'reject' | 'trim';
+  fallbacks?: ModelFallback[];
+  fallbackOn?: FallbackTrigger[];
+  pricing?: Record<string, ModelPricing>;
+  budgets?: Budget[];
   retry?: RetryConfig;
-  circuitBreaker?: {
+  circuitBreaker?: CircuitBreakerConfig & {
+    enabled: boolean;
+  };
+  rateLimit?: RateLimiterConfig & {
+    enabled: boolean;
+  };
+  bulkhead?: BulkheadConfig & {
+    enabled: boolean;
+    scope?: 'provider' | 'user';
+  };
+  hedging?: HedgingConfig & {
     enabled: boolean;
-    failureThreshold: number;
-    successThreshold: number;
-    timeout: number;
   };
   metrics?: {
     enabled: boolean;
     labels?: Record<string, string>;
+    buckets?: HistogramBuckets;
+  };
+  tracing?: {
+    enabled: boolean;
+    serviceName?: string;
+    file?: string;
+    exporter?: SpanExporter;
+  };
+  queue?: JobQueueConfig & {
+    enabled: boolean;
+  };
+  cache?: {
+    enabled: boolean;
+    mode?: CacheMode;
+    ttl?: number;
+    maxEntries?: number;
+    directory?: string;
+    backend?: CacheBackend;
+  };
+  logging?: {
+    enabled: boolean;
+    level?: LogLevel;
+    redact?: {
+      patterns?: string[];
+      keys?: string[];
+    };
+    logger?: Logger;
   };
 }
 
 /**
- * Default configuration
+ * A call let through by a provider/model circuit breaker
  */
-const DEFAULT_CONFIG: RuntimeConfig = {
-  model: 'gpt-4-turbo-preview',
-  temperature: 0.7,
-  maxTokens: 4096,
-  maxIterations: 10,
-  timeout: 60000,
-  stream: false,
-  retry: {
-    maxRetries: 3,
-    baseDelay: 1000,
-    maxDelay: 30000,
-    factor: 2,
-  },
-  circuitBreaker: {
-    enabled: true,
-    failureThreshold: 5,
-    successThreshold: 2,
-    timeout: 60000,
-  },
-  metrics: {
-    enabled: true,
-  },
-};
+interface CircuitLease {
+  breaker: CircuitBreaker;
+  permit: CircuitPermit;
+}
 
 /**
  * Agent Runtime - Main execution engine
@@ -81,20 +177,69 @@ const DEFAULT_CONFIG: RuntimeConfig = {
  */
 export class AgentRuntime extends EventEmitter {
   private config: RuntimeConfig;
-  private circuitBreaker?: CircuitBreaker;
+  private retryPolicy: RetryPolicy;
+  private circuitBreakers?: CircuitBreakerRegistry;
+  private rateLimiters: Map<string, RateLimiter> = new Map();
+  private bulkheads: Map<string, Bulkhead> = new Map();
+  private hedges: number = 0;
+  private pricing: PricingRegistry;
+  private budgets: BudgetTracker;
+  private tokenizers: TokenizerRegistry;
+  private tokenCounts: WeakMap<Tokenizer, MessageTokenCache> = new WeakMap();
   private metrics: AgentMetrics;
+  private tracer?: Tracer;
+  private logger?: Logger;
+  private queue?: JobQueue;
+  private cache?: ResponseCache;
+  private middleware: MiddlewareChain = new MiddlewareChain();
+  private controllers: Map<string, AbortController> = new Map();
+  private spans: Map<string, Span> = new Map();
   private isInitialized: boolean = false;
 
-  constructor(config: Partial<RuntimeConfig> = {}) {
+  constructor(config: RuntimeConfigInput = {}) {
     super();
-    this.config = { ...DEFAULT_CONFIG, ...config };
-    this.metrics = new AgentMetrics(this.config.metrics?.labels);
-    
+    this.config = mergeConfig(DEFAULT_CONFIG, config);
+    this.metrics = new AgentMetrics(this.config.metrics?.labels, this.config.metrics?.buckets);
+    this.retryPolicy = new RetryPolicy(this.config.retry!);
+    this.pricing = new PricingRegistry(this.config.pricing);
+    this.budgets = new BudgetTracker(this.config.budgets);
+    this.tokenizers = this.config.tokenizers || new TokenizerRegistry();
+
+    if (this.config.tracing?.enabled) {
+      const { serviceName, file, exporter } = this.config.tracing;
+      this.tracer = new Tracer({ serviceName, exporter: exporter || (file ? new FileSpanExporter(file) : undefined) });
+    }
+
+    if (this.config.logging?.enabled) {
+      const { level, redact, logger } = this.config.logging;
+      this.logger = logger || new Logger({ level, redaction: redact });
+      this.attachLogger(this.logger);
+    }
+
+    if (this.config.cache?.enabled) {
+      const { mode, ttl, maxEntries, directory, backend } = this.config.cache;
+      this.cache = new ResponseCache({
+        mode,
+        ttl,
+        backend: backend || (directory ? new FileCacheBackend(directory) : new LRUCacheBackend(maxEntries)),
+      });
+    }
+
+    if (this.config.queue?.enabled) {
+      const { enabled: _enabled, ...queueConfig } = this.config.queue;
+      this.queue = new JobQueue((job, signal) => this.execute(job.task, {
+        ...job.config,
+        signal,
+        metadata: { ...job.config.metadata, jobId: job.id },
+      }), queueConfig);
+      this.attachQueue(this.queue);
+    }
+
     if (this.config.circuitBreaker?.enabled) {
-      this.circuitBreaker = new CircuitBreaker({
-        failureThreshold: this.config.circuitBreaker.failureThreshold,
-        successThreshold: this.config.circuitBreaker.successThreshold,
-        timeout: this.config.circuitBreaker.timeout,
+      const { enabled: _enabled, ...breakerConfig } = this.config.circuitBreaker;
+      this.circuitBreakers = new CircuitBreakerRegistry(breakerConfig);
+      this.circuitBreakers.on('state-change', change => {
+        this.emit('circuit:state-change', change);
       });
     }
   }
@@ -111,7 +256,7 @@ export class AgentRuntime extends EventEmitter {
     
     try {
       // Validate configuration
-      this.validateConfig();
+      validateConfig(this.config);
       
       // Initialize metrics
       if (this.config.metrics?.enabled) {
@@ -120,316 +265,1890 @@ export class AgentRuntime extends EventEmitter {
 
       this.isInitialized = true;
       this.emit('initialized');
+
+      // Pick up jobs a previous process left behind
+      await this.queue?.recover();
     } catch (error) {
-      this.emit('error', { error });
+      if (this.listenerCount('error') > 0) {
+        this.emit('error', { error });
+      }
       throw error;
     }
   }
 
   /**
-   * Validate configuration
+   * Register middleware around every model and tool call
+   *
+   * Middleware runs in registration order for `execute()` and `stream()`.
    */
-  private validateConfig(): void {
-    if (this.config.temperature < 0 || this.config.temperature > 2) {
-      throw new AgentError(
-        'Temperature must be between 0 and 2',
-        'INVALID_CONFIG',
-        false,
-        { temperature: this.config.temperature }
-      );
-    }
-
-    if (this.config.maxTokens < 1 || this.config.maxTokens > 128000) {
-      throw new AgentError(
-        'maxTokens must be between 1 and 128000',
-        'INVALID_CONFIG',
-        false,
-        { maxTokens: this.config.maxTokens }
-      );
-    }
-
-    if (this.config.maxIterations < 1 || this.config.maxIterations > 100) {
-      throw new AgentError(
-        'maxIterations must be between 1 and 100',
-        'INVALID_CONFIG',
-        false,
-        { maxIterations: this.config.maxIterations }
-      );
-    }
+  use(middleware: Middleware): this {
+    this.middleware.use(middleware);
+    return this;
   }
 
   /**
    * Execute a task
+   *
+   * With `config.responseSchema`, `T` is the type of the validated `parsed` output.
    */
-  async execute(
+  async execute<T = unknown>(
     task: string,
     config: ExecutionConfig = {}
-  ): Promise<ExecutionResult> {
+  ): Promise<ExecutionResult<T>> {
     await this.initialize();
 
-    const executionId = this.generateId();
+    const result = this.createResult(task);
+    const executionId = result.id;
     const startTime = Date.now();
-    const timeout = config.timeout || this.config.timeout;
-
-    // Create execution context
-    const messages: Message[] = [
-      { role: 'system', content: 'You are a helpful AI assistant.', timestamp: Date.now() },
-      { role: 'user', content: task, timestamp: Date.now() },
-    ];
-
-    const result: ExecutionResult = {
-      id: executionId,
-      status: 'pending',
-      output: '',
-      toolCalls: [],
-      messages,
-      usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
-      duration: 0,
-    };
+    const { signal, release } = this.track(executionId, 'execution', config);
+    this.startExecutionSpan(result, 'execution', config);
+    let releaseSlot: (() => void) | undefined;
 
     try {
-      // Check circuit breaker
-      if (this.circuitBreaker?.isOpen()) {
-        throw new AgentError(
-          'Circuit breaker is open',
-          'CIRCUIT_OPEN',
-          false
-        );
-      }
-
-      this.emit('execution:start', { executionId, task, config });
-      result.status = 'running';
-
-      // Execute with timeout
-      const executionPromise = this.executeWithRetry(messages, config);
-      const timeoutPromise = new Promise<ExecutionResult>((_, reject) => {
-        setTimeout(() => {
-          reject(new AgentTimeoutError('execution', timeout));
-        }, timeout);
-      });
+      releaseSlot = await this.acquireBulkhead(config, signal);
+      const turnStart = await this.beginExecution(result, task, config, 'execution');
+      task = await this.guardInput(result, config, turnStart);
 
-      const executionResult = await Promise.race([executionPromise, timeoutPromise]);
+      // Execute until completion, timeout or cancellation
+      const executionResult = await raceAbort(
+        this.executeCore(executionId, result.messages, config, signal),
+        signal
+      );
       
       result.output = executionResult.output;
       result.toolCalls = executionResult.toolCalls;
-      result.messages = executionResult.messages;
       result.usage = executionResult.usage;
-      result.status = 'completed';
-
-      // Record success for circuit breaker
-      this.circuitBreaker?.recordSuccess();
+      result.parsed = executionResult.parsed;
+      result.metadata = { ...result.metadata, ...executionResult.metadata };
 
+      await this.guardOutput(result, config);
+      await this.completeExecution(result, config, turnStart);
       this.emit('execution:complete', { executionId, result });
     } catch (error) {
-      result.status = error instanceof AgentTimeoutError ? 'timeout' : 'failed';
-      result.error = error instanceof Error ? error.message : String(error);
-      
-      // Record failure for circuit breaker
-      this.circuitBreaker?.recordFailure();
-
-      this.emit('execution:error', { executionId, error });
+      this.failExecution(result, signal.aborted ? signal.reason : error, 'execution');
     } finally {
+      releaseSlot?.();
+      release();
       result.duration = Date.now() - startTime;
-      result.messages = messages;
+      this.endExecutionSpan(result);
       
       // Record metrics
       if (this.config.metrics?.enabled) {
-        this.metrics.recordExecution(result);
+        this.metrics.recordExecution(result, this.config.model);
       }
+
+      await this.storeExecution(result, task, config, startTime);
     }
 
-    return result;
+    // `parsed` was validated against the schema the caller typed it with
+    return result as ExecutionResult<T>;
   }
 
   /**
-   * Execute with retry logic
+   * Create the result for a new execution
    */
-  private async executeWithRetry(
-    messages: Message[],
-    config: ExecutionConfig
-  ): Promise<ExecutionResult> {
-    const retryConfig = this.config.retry!;
-    let lastError: Error | undefined;
+  private createResult(task: string): ExecutionResult {
+    return {
+      id: this.generateId(),
+      status: 'pending',
+      output: '',
+      toolCalls: [],
+      messages: [
+        { role: 'system', content: this.config.systemPrompt!, timestamp: Date.now() },
+        { role: 'user', content: task, timestamp: Date.now() },
+      ],
+      usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+      duration: 0,
+    };
+  }
+
+  /**
+   * Load conversation history
+   *
+   * Returns the index of the first message belonging to the new turn.
+   */
+  private async beginExecution(
+    result: ExecutionResult,
+    task: string,
+    config: ExecutionConfig,
+    event: 'execution' | 'stream'
+  ): Promise<number> {
+    this.emit(`${event}:start`, { executionId: result.id, task, config });
+    result.status = 'running';
 
-    for (let attempt = 0; attempt <= retryConfig.maxRetries; attempt++) {
+    // Load prior turns for the conversation
+    const memory = config.conversationId ? this.config.memory : undefined;
+    if (memory) {
+      const span = this.startSpan(result.id, 'agent.memory.load', {
+        'agent.conversation.id': config.conversationId,
+      });
+      let history: Message[];
       try {
-        this.emit('execution:attempt', { attempt, max: retryConfig.maxRetries });
-        
-        return await this.executeCore(messages, config);
+        history = await memory.load(config.conversationId!);
+        span?.setAttribute('agent.memory.messages', history.length);
       } catch (error) {
-        lastError = error instanceof Error ? error : new Error(String(error));
-        
-        // Don't retry non-retryable errors
-        if (error instanceof AgentError && !error.retryable) {
-          throw error;
-        }
+        span?.recordError(error);
+        throw error;
+      } finally {
+        span?.end();
+      }
 
-        // Don't retry on last attempt
-        if (attempt === retryConfig.maxRetries) {
-          break;
-        }
+      result.messages.splice(1, 0, ...history);
+      this.emit('memory:load', {
+        executionId: result.id,
+        conversationId: config.conversationId,
+        messages: history.length,
+      });
+    }
 
-        // Calculate delay with exponential backoff and jitter
-        const delay = this.calculateDelay(attempt);
-        this.emit('execution:retry', { attempt, delay, error: lastError.message });
-        
-        await this.sleep(delay);
-      }
+    // Caller-supplied history goes right before the task and is not saved to memory
+    if (config.history) {
+      result.messages.splice(result.messages.length - 1, 0, ...config.history);
     }
 
-    throw lastError;
+    return result.messages.length - 1;
   }
 
   /**
-   * Core execution logic
+   * Run input guardrails on the task, returning the task as sent to the model
    */
-  private async executeCore(
-    messages: Message[],
+  private async guardInput(result: ExecutionResult, config: ExecutionConfig, turnStart: number): Promise<string> {
+    const message = result.messages[turnStart]!;
+    message.content = await this.runGuardrails('input', message.content, result, config);
+    return message.content;
+  }
+
+  /**
+   * Run output guardrails on the final output
+   *
+   * Streamed content has already reached the caller, so for streams a
+   * rewrite only changes the stored result; a block still fails the stream.
+   */
+  private async guardOutput(result: ExecutionResult, config: ExecutionConfig): Promise<void> {
+    const output = await this.runGuardrails('output', result.output, result, config);
+    if (output === result.output) {
+      return;
+    }
+
+    result.output = output;
+    const last = result.messages[result.messages.length - 1];
+    if (last?.role === 'assistant') {
+      last.content = output;
+    }
+  }
+
+  /**
+   * Run the runtime's and the execution's guardrails for one stage
+   *
+   * Every guardrail that acts emits `guardrail:triggered` and is listed
+   * in `metadata.guardrails`.
+   */
+  private async runGuardrails(
+    stage: GuardrailStage,
+    text: string,
+    result: ExecutionResult,
     config: ExecutionConfig
-  ): Promise<ExecutionResult> {
-    // This would integrate with actual LLM providers
-    // For now, return a simulated result
-    
-    const result: ExecutionResult = {
-      id: this.generateId(),
-      status: 'completed',
-      output: `Processed: ${messages[messages.length - 1]?.content || ''}`,
-      toolCalls: [],
-      messages,
-      usage: {
-        promptTokens: this.estimateTokens(messages),
-        completionTokens: 50,
-        totalTokens: this.estimateTokens(messages) + 50,
-      },
-      duration: 0,
-    };
+  ): Promise<string> {
+    const guardrails = [...(this.config.guardrails || []), ...(config.guardrails || [])];
+    if (guardrails.length === 0) {
+      return text;
+    }
 
-    return result;
+    return runGuardrails(guardrails, text, { stage, executionId: result.id, config }, trigger => {
+      const triggered = (result.metadata?.guardrails as unknown[] | undefined) || [];
+      result.metadata = { ...result.metadata, guardrails: [...triggered, trigger] };
+      this.emit('guardrail:triggered', { executionId: result.id, ...trigger });
+    });
   }
 
   /**
-   * Stream execution
+   * Persist the new turn and mark the execution completed
    */
-  async *stream(
-    task: string,
-    config: ExecutionConfig = {}
-  ): AsyncGenerator<StreamChunk> {
-    await this.initialize();
+  private async completeExecution(
+    result: ExecutionResult,
+    config: ExecutionConfig,
+    turnStart: number
+  ): Promise<void> {
+    const memory = config.conversationId ? this.config.memory : undefined;
+    if (memory) {
+      await memory.append(config.conversationId!, result.messages.slice(turnStart));
+    }
 
-    const executionId = this.generateId();
-    this.emit('stream:start', { executionId, task });
+    result.status = 'completed';
+  }
 
-    try {
-      // Simulated streaming
-      const chunks = ['Processing', ' your', ' request', '...'];
-      
-      for (const content of chunks) {
-        yield {
-          type: 'content',
-          content,
-        };
-        await this.sleep(100);
-      }
+  /**
+   * Mark the execution failed, timed out or cancelled
+   */
+  private failExecution(
+    result: ExecutionResult,
+    error: unknown,
+    event: 'execution' | 'stream'
+  ): void {
+    const executionId = result.id;
+    result.failure = error instanceof AgentError
+      ? error
+      : new AgentError(error instanceof Error ? error.message : String(error), 'UNKNOWN_ERROR');
+    result.error = result.failure.message;
+    result.errorCode = result.failure.code;
 
-      yield {
-        type: 'done',
-        usage: { promptTokens: 10, completionTokens: 4, totalTokens: 14 },
-      };
+    // Cancellation is the caller's choice, not a provider failure
+    if (error instanceof AgentCancelledError) {
+      result.status = 'cancelled';
+      this.emit('execution:cancelled', { executionId, reason: result.error });
+      return;
+    }
+
+    result.status = error instanceof AgentTimeoutError ? 'timeout' : 'failed';
+    this.emit(`${event}:error`, { executionId, error });
+  }
+
+  /**
+   * Save a finished execution to the configured store
+   *
+   * A store failure is reported as `store:error` and never fails the
+   * execution itself.
+   */
+  private async storeExecution(
+    result: ExecutionResult,
+    task: string,
+    config: ExecutionConfig,
+    startedAt: number
+  ): Promise<void> {
+    if (!this.config.store) {
+      return;
+    }
 
-      this.emit('stream:complete', { executionId });
+    try {
+      await this.config.store.save(toExecutionRecord(result, {
+        task,
+        userId: config.userId,
+        sessionId: config.sessionId,
+        conversationId: config.conversationId,
+        startedAt,
+      }));
     } catch (error) {
-      yield {
-        type: 'error',
-        error: error instanceof Error ? error.message : String(error),
-      };
-      this.emit('stream:error', { executionId, error });
+      this.emit('store:error', { executionId: result.id, error });
     }
   }
 
   /**
-   * Health check
+   * Look up a finished execution in the configured store
+   *
+   * Returns undefined when no store is configured or the id is unknown.
    */
-  async health(): Promise<HealthStatus> {
-    const checks: Record<string, { status: 'pass' | 'fail' | 'warn'; message?: string }> = {};
+  async getExecution(id: string): Promise<ExecutionRecord | undefined> {
+    return this.config.store?.get(id);
+  }
 
-    // Check initialization
-    checks.initialized = {
-      status: this.isInitialized ? 'pass' : 'fail',
-      message: this.isInitialized ? 'Runtime initialized' : 'Runtime not initialized',
-    };
+  /**
+   * Queue a task to run in the background and return its job id
+   *
+   * Rejects with AgentQueueFullError when the queue is at maxDepth.
+   */
+  async submit(
+    task: string,
+    config: ExecutionConfig = {},
+    options: { priority?: JobPriority } = {}
+  ): Promise<string> {
+    const queue = this.requireQueue();
+    await this.initialize();
 
-    // Check circuit breaker
-    if (this.circuitBreaker) {
-      const state = this.circuitBreaker.getState();
-      checks.circuitBreaker = {
-        status: state === 'closed' ? 'pass' : state === 'open' ? 'fail' : 'warn',
-        message: `Circuit breaker state: ${state}`,
-      };
+    const job = await queue.submit(task, config, options.priority);
+    return job.id;
+  }
+
+  /**
+   * Get the current state of a job
+   */
+  async getJob(id: string): Promise<Job | undefined> {
+    return this.requireQueue().get(id);
+  }
+
+  /**
+   * Wait for a job to finish
+   */
+  async waitForJob(id: string): Promise<Job> {
+    return this.requireQueue().wait(id);
+  }
+
+  /**
+   * Receive the progress events of one job
+   *
+   * Progress events carry the runtime events of the job's execution,
+   * such as `tool:start`. Returns a function that removes the listener.
+   */
+  subscribeJob(id: string, listener: (type: string, event: JobEvent) => void): () => void {
+    return this.requireQueue().subscribe(id, listener);
+  }
+
+  /**
+   * Cancel a queued or running job
+   *
+   * Returns false if the job is unknown or already finished.
+   */
+  async cancelJob(id: string, reason?: string): Promise<boolean> {
+    return this.requireQueue().cancel(id, reason);
+  }
+
+  private requireQueue(): JobQueue {
+    if (!this.queue) {
+      throw new AgentValidationError('Job queue is not enabled', 'queue.enabled', false);
     }
+    return this.queue;
+  }
 
-    // Check metrics
-    if (this.config.metrics?.enabled) {
-      checks.metrics = {
-        status: this.metrics.isHealthy() ? 'pass' : 'warn',
-        message: 'Metrics collection active',
-      };
+  /**
+   * Forward queue events and report execution events as job progress
+   *
+   * Executions started by the queue carry their job id in
+   * `metadata.jobId`.
+   */
+  private attachQueue(queue: JobQueue): void {
+    const jobs = new Map<string, string>();
+    const updateMetrics = () => {
+      const { queued, running } = queue.getStats();
+      this.metrics.recordJobs(queued, running);
+    };
+
+    for (const event of ['job:queued', 'job:start', 'job:progress', 'job:complete', 'job:error']) {
+      queue.on(event, (payload: JobEvent) => {
+        if (event !== 'job:progress') {
+          updateMetrics();
+        }
+        this.emit(event, payload);
+      });
     }
 
-    const allPass = Object.values(checks).every(c => c.status === 'pass');
-    const anyFail = Object.values(checks).some(c => c.status === 'fail');
+    for (const event of JOB_PROGRESS_EVENTS) {
+      this.on(event, (payload: Record<string, unknown> = {}) => {
+        const executionId = payload.executionId;
+        if (typeof executionId !== 'string') {
+          return;
+        }
 
-    return {
-      status: allPass ? 'healthy' : anyFail ? 'unhealthy' : 'degraded',
-      version: '1.0.0',
-      uptime: process.uptime(),
-      checks,
-    };
+        const jobId = (payload.config as ExecutionConfig | undefined)?.metadata?.jobId;
+        if (event === 'execution:start' && typeof jobId === 'string') {
+          jobs.set(executionId, jobId);
+        }
+
+        const id = jobs.get(executionId);
+        if (id) {
+          const { config: _config, result: _result, ...data } = payload;
+          queue.report(id, event, { ...data, executionId });
+        }
+        if (FINAL_EVENTS.includes(event)) {
+          jobs.delete(executionId);
+        }
+      });
+    }
   }
 
   /**
-   * Calculate retry delay with exponential backoff and jitter
+   * Cancel an in-flight execution or stream
+   *
+   * Returns false if no execution with that id is running.
    */
-  private calculateDelay(attempt: number): number {
-    const { baseDelay, maxDelay, factor } = this.config.retry!;
-    const exponentialDelay = baseDelay * Math.pow(factor, attempt);
-    const jitter = Math.random() * 0.1 * exponentialDelay;
-    return Math.min(exponentialDelay + jitter, maxDelay);
+  cancel(executionId: string, reason?: string): boolean {
+    const controller = this.controllers.get(executionId);
+
+    if (!controller) {
+      return false;
+    }
+
+    controller.abort(new AgentCancelledError(executionId, reason));
+    return true;
   }
 
   /**
-   * Estimate token count
+   * Register the abort controller for an execution
+   *
+   * The controller aborts on `cancel()`, on the caller's signal and
+   * when the execution timeout elapses.
    */
-  private estimateTokens(messages: Message[]): number {
-    return messages.reduce((sum, msg) => {
-      return sum + Math.ceil(msg.content.length / 4);
-    }, 0);
+  private track(
+    executionId: string,
+    operation: 'execution' | 'stream',
+    config: ExecutionConfig
+  ): { signal: AbortSignal; release: () => void } {
+    const controller = new AbortController();
+    const timeout = config.timeout || this.config.timeout;
+    const external = config.signal;
+
+    const onExternalAbort = () => {
+      controller.abort(external?.reason instanceof AgentError
+        ? external.reason
+        : new AgentCancelledError(executionId));
+    };
+    const timer = setTimeout(() => {
+      controller.abort(new AgentTimeoutError(operation, timeout));
+    }, timeout);
+
+    if (external?.aborted) {
+      onExternalAbort();
+    } else {
+      external?.addEventListener('abort', onExternalAbort, { once: true });
+    }
+    this.controllers.set(executionId, controller);
+
+    return {
+      signal: controller.signal,
+      release: () => {
+        clearTimeout(timer);
+        external?.removeEventListener('abort', onExternalAbort);
+        this.controllers.delete(executionId);
+      },
+    };
   }
 
   /**
-   * Generate unique ID
+   * Start the root span of an execution
+   *
+   * Continues the trace in `config.metadata.traceparent` (and
+   * `tracestate`) when the caller sends one.
    */
-  private generateId(): string {
-    return `exec_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  private startExecutionSpan(result: ExecutionResult, operation: 'execution' | 'stream', config: ExecutionConfig): void {
+    if (!this.tracer) {
+      return;
+    }
+
+    const span = this.tracer.startSpan(`agent.${operation}`, {
+      parent: parseTraceparent(config.metadata?.traceparent, config.metadata?.tracestate),
+      attributes: {
+        'agent.execution.id': result.id,
+        'gen_ai.request.model': this.config.model,
+        'enduser.id': config.userId,
+        'session.id': config.sessionId,
+        'agent.conversation.id': config.conversationId,
+      },
+    });
+    this.spans.set(result.id, span);
   }
 
   /**
-   * Sleep utility
+   * End the root span with the outcome and usage of the execution
+   *
+   * The span's `traceparent` is written to the result metadata so callers
+   * can link their own spans to the execution.
    */
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private endExecutionSpan(result: ExecutionResult): void {
+    const span = this.spans.get(result.id);
+    if (!span) {
+      return;
+    }
+
+    this.spans.delete(result.id);
+    span.setAttributes({
+      'agent.execution.status': result.status,
+      'gen_ai.response.model': result.metadata?.model as string | undefined,
+      ...usageAttributes(result.usage),
+    });
+    if (result.failure) {
+      span.recordError(result.failure);
+    }
+    span.end();
+    result.metadata = { ...result.metadata, traceparent: span.traceparent() };
   }
 
   /**
-   * Get current configuration
+   * Start a child span of an execution's root span, or of another child
    */
-  getConfig(): Readonly<RuntimeConfig> {
-    return { ...this.config };
+  private startSpan(
+    executionId: string,
+    name: string,
+    attributes: Record<string, SpanAttributeValue | undefined>,
+    parent?: Span
+  ): Span | undefined {
+    const root = this.spans.get(executionId);
+    if (!this.tracer || !root) {
+      return undefined;
+    }
+
+    return this.tracer.startSpan(name, { parent: (parent || root).context, attributes });
   }
 
   /**
-   * Get metrics
+   * Write runtime events to the logger
+   *
+   * Each execution logs through a child logger carrying its executionId,
+   * userId and sessionId. Results are summarized rather than logged with
+   * their messages.
+   */
+  private attachLogger(logger: Logger): void {
+    const executions = new Map<string, Logger>();
+
+    for (const [event, level] of Object.entries(LOGGED_EVENTS)) {
+      this.on(event, (payload: Record<string, unknown> = {}) => {
+        const { executionId, config, result, ...data } = payload;
+        let target = logger;
+
+        if (typeof executionId === 'string') {
+          const { userId, sessionId } = (config || {}) as ExecutionConfig;
+          target = executions.get(executionId) || logger.child({ executionId, userId, sessionId });
+          if (event.endsWith(':start')) {
+            executions.set(executionId, target);
+          }
+        }
+
+        if (result) {
+          const { status, duration, usage, errorCode, metadata } = result as ExecutionResult;
+          data.result = { status, duration, usage, errorCode, model: metadata?.model };
+        }
+        if (config) {
+          const { signal: _signal, ...settings } = config as ExecutionConfig;
+          data.config = settings;
+        }
+
+        target.log(level, event, data);
+
+        if (FINAL_EVENTS.includes(event) && typeof executionId === 'string') {
+          executions.delete(executionId);
+        }
+      });
+    }
+  }
+
+  /**
+   * Call the primary model, walking the fallback chain on qualifying failures
+   */
+  private async completeWithFallback(
+    executionId: string,
+    config: ExecutionConfig,
+    messages: Message[],
+    signal: AbortSignal,
+    skipped: SkippedModel[],
+    overrides?: Partial<ModelRequestOptions>
+  ): Promise<ModelResponse> {
+    const candidates = this.getModelChain();
+
+    for (let i = 0; ; i++) {
+      const candidate = candidates[i]!;
+
+      try {
+        const request = this.buildModelRequest(executionId, messages, signal, candidate, overrides);
+        this.enforceBudgets(executionId, config, request);
+        return await this.completeWithRetry(executionId, request);
+      } catch (error) {
+        this.fallBack(executionId, candidates, i, error, signal, skipped);
+      }
+    }
+  }
+
+  /**
+   * Stream from the primary model, walking the fallback chain on failures
+   * that happen before any output
+   */
+  private async *streamWithFallback(
+    executionId: string,
+    config: ExecutionConfig,
+    messages: Message[],
+    signal: AbortSignal,
+    skipped: SkippedModel[],
+    overrides?: Partial<ModelRequestOptions>
+  ): AsyncGenerator<ModelStreamDelta & { model: string }> {
+    const candidates = this.getModelChain();
+
+    for (let i = 0; ; i++) {
+      const candidate = candidates[i]!;
+      let received = false;
+
+      try {
+        const request = this.buildModelRequest(executionId, messages, signal, candidate, overrides);
+        this.enforceBudgets(executionId, config, request);
+        for await (const delta of this.streamWithRetry(executionId, request, signal)) {
+          received = true;
+          yield { ...delta, model: candidate.model };
+        }
+        return;
+      } catch (error) {
+        if (received) {
+          throw error;
+        }
+        this.fallBack(executionId, candidates, i, error, signal, skipped);
+      }
+    }
+  }
+
+  /**
+   * Primary model followed by the configured fallbacks
+   */
+  private getModelChain(): ModelFallback[] {
+    return [{ model: this.config.model }, ...(this.config.fallbacks || [])];
+  }
+
+  /**
+   * Record a skipped model, or rethrow when the failure does not qualify
+   */
+  private fallBack(
+    executionId: string,
+    candidates: ModelFallback[],
+    index: number,
+    error: unknown,
+    signal: AbortSignal,
+    skipped: SkippedModel[]
+  ): void {
+    const next = candidates[index + 1];
+    const reason = fallbackTrigger(error);
+
+    if (!next || signal.aborted || !reason || !this.config.fallbackOn?.includes(reason)) {
+      throw error;
+    }
+
+    const from = candidates[index]!.model;
+    const message = error instanceof Error ? error.message : String(error);
+    skipped.push({ model: from, reason, error: message });
+    this.metrics.recordFallback(next.model);
+    this.emit('execution:fallback', { executionId, from, to: next.model, reason, error: message });
+  }
+
+  /**
+   * Call the model provider with retry logic
+   */
+  private async completeWithRetry(executionId: string, request: ModelRequest): Promise<ModelResponse> {
+    const retryConfig = this.config.retry!;
+    const provider = this.getProvider();
+    const retry = this.retryPolicy.start({
+      signal: request.signal,
+      onRetry: event => this.emitRetry(executionId, provider, request.model, event),
+    });
+    const limiter = this.getRateLimiter(provider);
+
+    for (let attempt = 0; ; attempt++) {
+      const span = this.startAttemptSpan(executionId, provider, request, attempt);
+      let reserved: number;
+      let circuit: CircuitLease | undefined;
+
+      try {
+        // Open circuits and client-side limits fail without retrying; the
+        // circuit goes first so a refused call spends no rate budget
+        circuit = this.acquireCircuit(provider, request.model);
+        reserved = await limiter?.acquire(this.countTokens(request.model, request.messages), request.signal) ?? 0;
+      } catch (error) {
+        circuit?.breaker.release(circuit.permit);
+        endSpan(span, error);
+        throw error;
+      }
+
+      const startedAt = Date.now();
+      const call = this.startProviderSpan(executionId, provider, request, span);
+
+      try {
+        this.emit('execution:attempt', { executionId, attempt, max: retryConfig.maxRetries });
+        
+        const response = await this.hedge(executionId, request.model, request.signal, signal =>
+          provider.complete({ ...request, signal, traceparent: call?.traceparent() })
+        );
+        this.recordAttempt(request.model, startedAt);
+        this.settleCircuit(circuit);
+        this.settleRateLimit(limiter, reserved, response.usage, response.rateLimit);
+        call?.setAttributes({
+          'gen_ai.response.model': response.model,
+          'gen_ai.response.finish_reason': response.finishReason,
+          ...usageAttributes(response.usage),
+        });
+        endSpan(call);
+        endSpan(span);
+        return response;
+      } catch (error) {
+        this.recordAttempt(request.model, startedAt, error);
+        this.settleCircuit(circuit, error, request.signal);
+        this.settleRateLimit(limiter, reserved, undefined, undefined, error);
+        endSpan(call, error);
+        endSpan(span, error);
+        await retry.backoff(error);
+      }
+    }
+  }
+
+  /**
+   * Stream from the model provider with retry logic
+   *
+   * Only failures before the first delta are retried; once output has
+   * reached the caller the stream cannot be replayed.
+   */
+  private async *streamWithRetry(
+    executionId: string,
+    request: ModelRequest,
+    signal: AbortSignal
+  ): AsyncGenerator<ModelStreamDelta> {
+    const retryConfig = this.config.retry!;
+    const provider = this.getProvider();
+    const retry = this.retryPolicy.start({
+      signal,
+      onRetry: event => this.emitRetry(executionId, provider, request.model, event),
+    });
+    const limiter = this.getRateLimiter(provider);
+
+    for (let attempt = 0; ; attempt++) {
+      const span = this.startAttemptSpan(executionId, provider, request, attempt);
+      let reserved: number;
+      let circuit: CircuitLease | undefined;
+
+      try {
+        // Open circuits and client-side limits fail without retrying; the
+        // circuit goes first so a refused call spends no rate budget
+        circuit = this.acquireCircuit(provider, request.model);
+        reserved = await limiter?.acquire(this.countTokens(request.model, request.messages), signal) ?? 0;
+      } catch (error) {
+        circuit?.breaker.release(circuit.permit);
+        endSpan(span, error);
+        throw error;
+      }
+
+      let received = false;
+      let settled = false;
+      let usage: TokenUsage | undefined;
+      let rateLimit: RateLimitInfo | undefined;
+      let finishReason: FinishReason | undefined;
+      const startedAt = Date.now();
+      const call = this.startProviderSpan(executionId, provider, request, span);
+
+      try {
+        this.emit('execution:attempt', { executionId, attempt, max: retryConfig.maxRetries });
+
+        const iterator = provider.stream({ ...request, traceparent: call?.traceparent() })[Symbol.asyncIterator]();
+        try {
+          for (;;) {
+            const next = await raceAbort(iterator.next(), signal);
+            if (next.done) {
+              settled = true;
+              this.recordAttempt(request.model, startedAt);
+              this.settleCircuit(circuit);
+              this.settleRateLimit(limiter, reserved, usage, rateLimit);
+              call?.setAttributes({
+                'gen_ai.response.finish_reason': finishReason,
+                ...usageAttributes(usage),
+              });
+              return;
+            }
+            received = true;
+            usage = next.value.usage || usage;
+            rateLimit = next.value.rateLimit || rateLimit;
+            finishReason = next.value.finishReason || finishReason;
+            yield next.value;
+          }
+        } finally {
+          // Don't wait on a provider that is stuck mid-read
+          iterator.return?.()?.catch(() => undefined);
+        }
+      } catch (error) {
+        settled = true;
+        this.recordAttempt(request.model, startedAt, error);
+        this.settleCircuit(circuit, error, signal);
+        this.settleRateLimit(limiter, reserved, usage, rateLimit, error);
+        endSpan(call, error);
+        endSpan(span, error);
+        if (received) {
+          throw error;
+        }
+        await retry.backoff(error);
+      } finally {
+        // The consumer stopped reading mid-stream
+        if (!settled) {
+          circuit?.breaker.release(circuit.permit);
+        }
+        endSpan(call);
+        endSpan(span);
+      }
+    }
+  }
+
+  /**
+   * Start the span of one retry attempt, including any rate limit wait
+   */
+  private startAttemptSpan(
+    executionId: string,
+    provider: ModelProvider,
+    request: ModelRequest,
+    attempt: number
+  ): Span | undefined {
+    return this.startSpan(executionId, 'agent.attempt', {
+      'agent.attempt': attempt + 1,
+      'gen_ai.system': provider.name,
+      'gen_ai.request.model': request.model,
+    });
+  }
+
+  /**
+   * Start the span of one provider call within an attempt
+   */
+  private startProviderSpan(
+    executionId: string,
+    provider: ModelProvider,
+    request: ModelRequest,
+    attempt: Span | undefined
+  ): Span | undefined {
+    return this.startSpan(executionId, `chat ${request.model}`, {
+      'gen_ai.operation.name': 'chat',
+      'gen_ai.system': provider.name,
+      'gen_ai.request.model': request.model,
+      'gen_ai.request.max_tokens': request.options.maxTokens,
+      'gen_ai.request.temperature': request.options.temperature,
+    }, attempt);
+  }
+
+  /**
+   * Record the latency of one provider call
+   */
+  private recordAttempt(model: string, startedAt: number, error?: unknown): void {
+    if (!this.config.metrics?.enabled) {
+      return;
+    }
+
+    const errorCode = error === undefined
+      ? undefined
+      : error instanceof AgentError ? error.code : 'UNKNOWN_ERROR';
+    this.metrics.recordAttempt(model, Date.now() - startedAt, errorCode);
+  }
+
+  /**
+   * Get permission from the provider/model circuit breaker for one call
+   */
+  private acquireCircuit(provider: ModelProvider, model: string): CircuitLease | undefined {
+    const breaker = this.circuitBreakers?.get(CircuitBreakerRegistry.key(provider.name, model));
+    if (!breaker) {
+      return undefined;
+    }
+
+    const permit = breaker.tryAcquire();
+    if (!permit) {
+      throw new AgentCircuitOpenError(breaker.getOpensAt());
+    }
+
+    return { breaker, permit };
+  }
+
+  /**
+   * Record the outcome of a call on its circuit breaker
+   *
+   * Cancelled calls are released without counting as failures.
+   */
+  private settleCircuit(circuit: CircuitLease | undefined, error?: unknown, signal?: AbortSignal): void {
+    if (!circuit) {
+      return;
+    }
+
+    const { breaker, permit } = circuit;
+    if (error === undefined) {
+      breaker.recordSuccess(permit);
+    } else if (error instanceof AgentCancelledError || signal?.reason instanceof AgentCancelledError) {
+      breaker.release(permit);
+    } else {
+      breaker.recordFailure(permit);
+    }
+  }
+
+  /**
+   * Wait for a slot in the execution's bulkhead
+   *
+   * Executions share a bulkhead per provider, or per user with scope
+   * 'user'. Resolves with the function that frees the slot.
+   */
+  private async acquireBulkhead(config: ExecutionConfig, signal: AbortSignal): Promise<() => void> {
+    if (!this.config.bulkhead?.enabled) {
+      return () => undefined;
+    }
+
+    const { enabled: _enabled, scope, ...bulkheadConfig } = this.config.bulkhead;
+    const key = scope === 'user'
+      ? `user:${config.userId ?? 'anonymous'}`
+      : `provider:${this.getProvider().name}`;
+
+    let bulkhead = this.bulkheads.get(key);
+    if (!bulkhead) {
+      bulkhead = new Bulkhead(key, bulkheadConfig);
+      this.bulkheads.set(key, bulkhead);
+    }
+    return bulkhead.acquire(signal);
+  }
+
+  /**
+   * Run a provider call, hedged when hedging is enabled
+   */
+  private hedge<T>(
+    executionId: string,
+    model: string,
+    signal: AbortSignal | undefined,
+    fn: (signal: AbortSignal | undefined) => Promise<T>
+  ): Promise<T> {
+    if (!this.config.hedging?.enabled) {
+      return fn(signal);
+    }
+
+    return withHedging(fn, this.config.hedging, {
+      signal,
+      onHedge: attempt => {
+        this.hedges++;
+        this.emit('execution:hedge', { executionId, model, attempt });
+      },
+    });
+  }
+
+  /**
+   * Get the rate limiter for a provider, creating it on first use
+   */
+  private getRateLimiter(provider: ModelProvider): RateLimiter | undefined {
+    if (!this.config.rateLimit?.enabled) {
+      return undefined;
+    }
+
+    let limiter = this.rateLimiters.get(provider.name);
+    if (!limiter) {
+      limiter = new RateLimiter(this.config.rateLimit);
+      this.rateLimiters.set(provider.name, limiter);
+    }
+    return limiter;
+  }
+
+  /**
+   * Reconcile a rate limit reservation with what the provider reported
+   */
+  private settleRateLimit(
+    limiter: RateLimiter | undefined,
+    reserved: number,
+    usage?: TokenUsage,
+    rateLimit?: RateLimitInfo,
+    error?: unknown
+  ): void {
+    if (!limiter) {
+      return;
+    }
+
+    if (usage) {
+      limiter.reconcile(reserved, usage.totalTokens);
+    }
+    if (rateLimit) {
+      limiter.observe(rateLimit);
+    }
+    if (error instanceof AgentRateLimitError) {
+      limiter.penalize(error);
+    }
+  }
+
+  /**
+   * Warn about or reject a model call that would exceed a spending budget
+   *
+   * The prompt is priced for the model the request is about to call,
+   * which differs from the primary model once a fallback is in use.
+   */
+  private enforceBudgets(executionId: string, config: ExecutionConfig, request: ModelRequest): void {
+    const estimate = this.pricing.cost(request.model, {
+      promptTokens: this.countTokens(request.model, request.messages),
+      completionTokens: 0,
+    }) ?? 0;
+
+    for (const status of this.budgets.check(config, estimate)) {
+      if (status.action === 'reject') {
+        throw new AgentBudgetExceededError(status.scope, status.key, status.limit, status.spent, status.window);
+      }
+      this.emit('budget:warning', { executionId, ...status });
+    }
+  }
+
+  /**
+   * Price a model call and charge it to the applicable budgets
+   */
+  private priceUsage(config: ExecutionConfig, model: string, usage: TokenUsage): TokenUsage {
+    const cost = this.pricing.cost(model, usage);
+    if (cost === undefined) {
+      return usage;
+    }
+
+    this.budgets.record(config, cost);
+    return { ...usage, cost };
+  }
+
+  /**
+   * Emit a structured execution:retry event
+   */
+  private emitRetry(executionId: string, provider: ModelProvider, model: string, event: RetryEvent): void {
+    this.emit('execution:retry', {
+      executionId,
+      provider: provider.name,
+      model,
+      attempt: event.attempt,
+      maxRetries: this.config.retry!.maxRetries,
+      delay: event.delay,
+      retryAfter: event.retryAfter,
+      elapsed: event.elapsed,
+      error: event.error.message,
+      code: event.error instanceof AgentError ? event.error.code : undefined,
+    });
+  }
+
+  /**
+   * Core execution logic - model -> tool -> model loop
+   */
+  private async executeCore(
+    executionId: string,
+    messages: Message[],
+    config: ExecutionConfig,
+    signal: AbortSignal
+  ): Promise<ExecutionResult> {
+    const provider = this.getProvider();
+    const maxIterations = config.maxIterations || this.config.maxIterations;
+    const toolCalls: ToolCall[] = [];
+    const skipped: SkippedModel[] = [];
+    const usage: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+    const cacheable = this.cache !== undefined && config.cache !== false && this.cache.isCacheable(this.config);
+    let response: ModelResponse | undefined;
+    let parsed: unknown;
+    let iterations = 0;
+    let repairs = 0;
+    let cacheHits = 0;
+
+    // Repair turns for invalid structured output do not count as iterations
+    while (iterations - repairs < maxIterations) {
+      iterations++;
+      const call = this.modelCallContext(executionId, messages, config, iterations, false);
+      // A response from middleware never reached a provider and, like a cache hit, adds no usage
+      response = await this.middleware.beforeModelCall(call);
+
+      if (!response) {
+        const key = cacheable && this.cache!.isCacheable({ ...this.config, ...call.options })
+          ? this.cacheKeyFor(call.messages, call.options)
+          : undefined;
+        const cached = key ? await this.readCache(executionId, key) : undefined;
+
+        if (cached) {
+          // Cached responses cost nothing, so they add no usage
+          cacheHits++;
+          response = cached;
+        } else {
+          response = await this.callModel(call, () => this.completeWithFallback(
+            executionId, config, call.messages, signal, skipped, call.options
+          ));
+          addUsage(usage, this.priceUsage(config, response.model, response.usage));
+          if (key) {
+            await this.writeCache(executionId, key, response);
+          }
+        }
+      }
+
+      response = await this.middleware.afterModelCall(call, response);
+      messages.push(assistantMessage(response.content, response.toolCalls));
+
+      if (response.toolCalls.length === 0) {
+        const structured = this.checkStructuredOutput(executionId, response.content, config, repairs);
+        if ('repair' in structured) {
+          repairs++;
+          messages.push(structured.repair);
+          continue;
+        }
+        parsed = structured.parsed;
+        break;
+      }
+
+      for (const call of response.toolCalls) {
+        toolCalls.push(await this.runToolCall(executionId, call, messages, config, signal));
+      }
+    }
+
+    const result: ExecutionResult = {
+      id: executionId,
+      status: 'completed',
+      output: response?.content || '',
+      toolCalls,
+      messages,
+      usage,
+      duration: 0,
+      parsed,
+      metadata: {
+        provider: provider.name,
+        model: response?.model,
+        skippedModels: skipped,
+        finishReason: response?.finishReason,
+        iterations,
+        maxIterationsReached: response !== undefined && response.toolCalls.length > 0,
+        ...(cacheable && { cached: cacheHits === iterations, cacheHits }),
+        ...(config.responseSchema && { repairs }),
+      },
+    };
+
+    return result;
+  }
+
+  /**
+   * Start the middleware context for one model call
+   */
+  private modelCallContext(
+    executionId: string,
+    messages: Message[],
+    config: ExecutionConfig,
+    iteration: number,
+    stream: boolean
+  ): ModelCallContext {
+    const options: Partial<ModelRequestOptions> = config.responseSchema
+      ? { responseFormat: { type: 'json', schema: config.responseSchema } }
+      : {};
+
+    return { executionId, config, iteration, stream, messages: [...messages], options, state: {} };
+  }
+
+  /**
+   * Parse and validate a final answer against `config.responseSchema`
+   *
+   * Returns the parsed value, or a message asking the model to fix the
+   * listed issues while repair turns remain. Once they run out, throws
+   * AgentValidationError with the path of the first issue as `field`.
+   */
+  private checkStructuredOutput(
+    executionId: string,
+    content: string,
+    config: ExecutionConfig,
+    repairs: number
+  ): { parsed?: unknown } | { repair: Message } {
+    if (!config.responseSchema) {
+      return {};
+    }
+
+    const { value, issues } = parseJSONOutput(content, config.responseSchema);
+    if (issues.length === 0) {
+      return { parsed: value };
+    }
+
+    const details = formatSchemaIssues(issues);
+    if (repairs >= (config.repairAttempts ?? 2)) {
+      const [first] = issues;
+      throw new AgentValidationError(`Output does not match the response schema: ${details}`, first!.path, first!.value);
+    }
+
+    this.emit('execution:repair', { executionId, attempt: repairs + 1, issues });
+    return {
+      repair: {
+        role: 'user',
+        content: `Your response did not match the required JSON schema: ${details}. Reply with only the corrected JSON.`,
+        timestamp: Date.now(),
+      },
+    };
+  }
+
+  /**
+   * Make a model call, letting middleware observe or replace its error
+   */
+  private async callModel<T>(context: ModelCallContext, fn: () => Promise<T>): Promise<T> {
+    try {
+      return await fn();
+    } catch (error) {
+      await this.middleware.onError(error, context);
+      throw error;
+    }
+  }
+
+  /**
+   * Hash the messages, model, sampling options and tools of the next model call
+   */
+  private cacheKeyFor(messages: Message[], overrides: Partial<ModelRequestOptions> = {}): string {
+    const { model, temperature, maxTokens, topP, frequencyPenalty, presencePenalty, stopSequences, responseFormat } = {
+      ...this.config,
+      ...overrides,
+    };
+    const tools = this.config.tools;
+
+    return cacheKey({
+      messages,
+      options: { model, temperature, maxTokens, topP, frequencyPenalty, presencePenalty, stopSequences, responseFormat },
+      tools: tools && tools.size > 0 ? tools.getDefinitions() : undefined,
+    });
+  }
+
+  /**
+   * Look up a cached response, treating cache failures as misses
+   */
+  private async readCache(executionId: string, key: string): Promise<ModelResponse | undefined> {
+    let response: ModelResponse | undefined;
+
+    try {
+      response = await this.cache!.get(key);
+    } catch (error) {
+      this.emit('cache:error', { executionId, error });
+    }
+
+    this.metrics.recordCache(response !== undefined);
+    if (response) {
+      this.emit('cache:hit', { executionId, key });
+    }
+    return response;
+  }
+
+  /**
+   * Store a response, reporting rather than throwing cache failures
+   */
+  private async writeCache(executionId: string, key: string, response: ModelResponse): Promise<void> {
+    try {
+      await this.cache!.set(key, response);
+    } catch (error) {
+      this.emit('cache:error', { executionId, error });
+    }
+  }
+
+  /**
+   * Core streaming logic - model -> tool -> model loop over provider deltas
+   */
+  private async *streamCore(
+    result: ExecutionResult,
+    config: ExecutionConfig,
+    signal: AbortSignal
+  ): AsyncGenerator<StreamChunk> {
+    const provider = this.getProvider();
+    const messages = result.messages;
+    const maxIterations = config.maxIterations || this.config.maxIterations;
+    const skipped: SkippedModel[] = [];
+    let model = this.config.model;
+    let finishReason: FinishReason | undefined;
+    let pendingToolCalls = false;
+    let iterations = 0;
+    let repairs = 0;
+
+    // Repair turns for invalid structured output do not count as iterations
+    while (iterations - repairs < maxIterations) {
+      iterations++;
+      const context = this.modelCallContext(result.id, messages, config, iterations, true);
+      let response = await this.middleware.beforeModelCall(context);
+      const shortCircuited = response !== undefined;
+
+      if (response) {
+        // A short-circuited call is sent to the caller as a single chunk
+        if (response.content) {
+          yield { type: 'content', content: response.content };
+        }
+      } else {
+        const partials = new Map<number, Required<Omit<ToolCallDelta, 'index'>>>();
+        let content = '';
+        let usage: TokenUsage | undefined;
+        let callFinishReason: FinishReason | undefined;
+
+        try {
+          const deltas = this.streamWithFallback(result.id, config, context.messages, signal, skipped, context.options);
+          for await (const delta of deltas) {
+            model = delta.model;
+            if (delta.content) {
+              content += delta.content;
+              yield { type: 'content', content: delta.content };
+            }
+
+            for (const fragment of delta.toolCalls || []) {
+              const partial = partials.get(fragment.index) || { id: '', name: '', arguments: '' };
+              partial.id = fragment.id || partial.id;
+              partial.name = fragment.name || partial.name;
+              partial.arguments += fragment.arguments || '';
+              partials.set(fragment.index, partial);
+              yield { type: 'tool_call_delta', toolCallDelta: fragment };
+            }
+
+            callFinishReason = delta.finishReason || callFinishReason;
+            usage = delta.usage || usage;
+          }
+        } catch (error) {
+          await this.middleware.onError(error, context);
+          throw error;
+        }
+
+        const toolCalls = [...partials.entries()]
+          .sort(([a], [b]) => a - b)
+          .map(([index, partial]) => assembleToolCall(index, partial));
+
+        response = {
+          model,
+          content,
+          toolCalls,
+          finishReason: callFinishReason || finishReason || (toolCalls.length > 0 ? 'tool_calls' : 'stop'),
+          usage: usage || this.estimateUsage(model, context.messages, content),
+        };
+      }
+
+      response = await this.middleware.afterModelCall(context, response);
+      model = response.model;
+      finishReason = response.finishReason;
+      // Like cache hits, short-circuited calls never reached a provider and add no usage
+      if (!shortCircuited) {
+        addUsage(result.usage, this.priceUsage(config, model, response.usage));
+      }
+
+      messages.push(assistantMessage(response.content, response.toolCalls));
+      result.output = response.content;
+      pendingToolCalls = response.toolCalls.length > 0;
+
+      if (!pendingToolCalls) {
+        const structured = this.checkStructuredOutput(result.id, response.content, config, repairs);
+        if ('repair' in structured) {
+          repairs++;
+          messages.push(structured.repair);
+          continue;
+        }
+        result.parsed = structured.parsed;
+        break;
+      }
+
+      for (const call of response.toolCalls) {
+        const completed = await this.runToolCall(result.id, call, messages, config, signal);
+        result.toolCalls.push(completed);
+        yield { type: 'tool_call', toolCall: completed };
+      }
+    }
+
+    result.metadata = {
+      ...result.metadata,
+      provider: provider.name,
+      model,
+      skippedModels: skipped,
+      finishReason,
+      iterations,
+      maxIterationsReached: pendingToolCalls,
+      ...(config.responseSchema && { repairs }),
+    };
+  }
+
+  /**
+   * Invoke a tool call and append its result to the conversation
+   */
+  private async runToolCall(
+    executionId: string,
+    call: ToolCall,
+    messages: Message[],
+    config: ExecutionConfig,
+    signal: AbortSignal
+  ): Promise<ToolCall> {
+    const completed = await this.invokeTool(executionId, call, messages, config, signal);
+    messages.push(toolMessage(completed));
+    return completed;
+  }
+
+  /**
+   * Invoke a single tool call, recording the result or error on the call
+   *
+   * Middleware may replace the call before it runs or its result after.
+   * A call that still carries an error, such as unparseable arguments,
+   * is reported back without running the tool.
+   */
+  private async invokeTool(
+    executionId: string,
+    toolCall: ToolCall,
+    messages: Message[],
+    config: ExecutionConfig,
+    signal: AbortSignal
+  ): Promise<ToolCall> {
+    const context: ToolCallContext = { executionId, config, call: { ...toolCall }, state: {} };
+    const synthetic = await this.middleware.beforeToolCall(context);
+
+    if (synthetic) {
+      return this.middleware.afterToolCall(context, synthetic);
+    }
+
+    const call = context.call;
+    if (call.error !== undefined) {
+      return this.middleware.afterToolCall(context, { ...call });
+    }
+
+    const registry = this.config.tools;
+    const completed: ToolCall = { ...call };
+    const span = this.startSpan(executionId, `execute_tool ${call.name}`, {
+      'gen_ai.operation.name': 'execute_tool',
+      'gen_ai.tool.name': call.name,
+      'gen_ai.tool.call.id': call.id,
+    });
+
+    this.emit('tool:start', { executionId, toolCall: call });
+
+    try {
+      if (!registry) {
+        throw new AgentToolError(call.name, 'no tools are registered');
+      }
+
+      completed.result = await raceAbort(registry.invoke(call, {
+        executionId,
+        userId: config.userId,
+        sessionId: config.sessionId,
+        messages,
+        signal,
+        traceparent: span?.traceparent(),
+      }), signal);
+      this.emit('tool:complete', { executionId, toolCall: completed });
+    } catch (error) {
+      span?.recordError(error);
+      await this.middleware.onError(error, context);
+      // An aborted execution stops the loop instead of reporting to the model
+      if (signal.aborted) {
+        throw signal.reason;
+      }
+      completed.error = error instanceof Error ? error.message : String(error);
+      this.emit('tool:error', { executionId, toolCall: completed, error });
+    } finally {
+      span?.end();
+    }
+
+    return this.middleware.afterToolCall(context, completed);
+  }
+
+  /**
+   * Build a provider request from the runtime options
+   *
+   * Middleware overrides win over both the runtime and fallback options.
+   */
+  private buildModelRequest(
+    executionId: string,
+    messages: Message[],
+    signal?: AbortSignal,
+    target: ModelFallback = { model: this.config.model },
+    overrides: Partial<ModelRequestOptions> = {}
+  ): ModelRequest {
+    const tools = this.config.tools;
+    const supportsTools = this.getProvider().capabilities(target.model).toolCalling;
+    const maxTokens = overrides.maxTokens ?? target.options?.maxTokens ?? this.config.maxTokens;
+
+    return {
+      model: target.model,
+      messages: this.fitContext(executionId, messages, target.model, maxTokens),
+      tools: tools && tools.size > 0 && supportsTools ? tools.getDefinitions() : undefined,
+      signal,
+      options: {
+        temperature: this.config.temperature,
+        maxTokens: this.config.maxTokens,
+        topP: this.config.topP,
+        frequencyPenalty: this.config.frequencyPenalty,
+        presencePenalty: this.config.presencePenalty,
+        stopSequences: this.config.stopSequences,
+        ...target.options,
+        ...overrides,
+      },
+    };
+  }
+
+  /**
+   * Get the configured model provider
+   */
+  private getProvider(): ModelProvider {
+    if (!this.config.provider) {
+      throw new AgentError(
+        'No model provider configured',
+        'NO_PROVIDER',
+        false
+      );
+    }
+
+    return this.config.provider;
+  }
+
+  /**
+   * Stream execution
+   */
+  async *stream(
+    task: string,
+    config: ExecutionConfig = {}
+  ): AsyncGenerator<StreamChunk> {
+    await this.initialize();
+
+    const result = this.createResult(task);
+    const executionId = result.id;
+    const startTime = Date.now();
+    const { signal, release } = this.track(executionId, 'stream', config);
+    this.startExecutionSpan(result, 'stream', config);
+    let firstTokenAt: number | undefined;
+    let releaseSlot: (() => void) | undefined;
+
+    try {
+      releaseSlot = await this.acquireBulkhead(config, signal);
+      const turnStart = await this.beginExecution(result, task, config, 'stream');
+      task = await this.guardInput(result, config, turnStart);
+
+      for await (const chunk of this.streamCore(result, config, signal)) {
+        if (chunk.type === 'content' && firstTokenAt === undefined) {
+          firstTokenAt = Date.now();
+        }
+        yield chunk;
+      }
+
+      await this.guardOutput(result, config);
+      await this.completeExecution(result, config, turnStart);
+      result.duration = Date.now() - startTime;
+
+      yield {
+        type: 'done',
+        usage: { ...result.usage },
+        ...(config.responseSchema && { parsed: result.parsed }),
+      };
+
+      this.emit('stream:complete', { executionId, result });
+    } catch (error) {
+      this.failExecution(result, signal.aborted ? signal.reason : error, 'stream');
+
+      yield {
+        type: 'error',
+        error: result.error,
+        failure: result.failure,
+      };
+    } finally {
+      // The consumer stopped iterating before the stream finished
+      if (result.status === 'running') {
+        this.failExecution(result, new AgentCancelledError(executionId, 'Stream consumer stopped reading'), 'stream');
+      }
+
+      releaseSlot?.();
+      release();
+      result.duration = Date.now() - startTime;
+      if (firstTokenAt !== undefined) {
+        result.metadata = { ...result.metadata, timeToFirstToken: firstTokenAt - startTime };
+      }
+      this.endExecutionSpan(result);
+
+      // Record metrics
+      if (this.config.metrics?.enabled) {
+        this.metrics.recordExecution(result, this.config.model);
+      }
+
+      await this.storeExecution(result, task, config, startTime);
+    }
+  }
+
+  /**
+   * Health check
+   */
+  async health(): Promise<HealthStatus> {
+    const checks: Record<string, { status: 'pass' | 'fail' | 'warn'; message?: string }> = {};
+
+    // Check initialization
+    checks.initialized = {
+      status: this.isInitialized ? 'pass' : 'fail',
+      message: this.isInitialized ? 'Runtime initialized' : 'Runtime not initialized',
+    };
+
+    // Check every provider/model circuit breaker
+    for (const [key, breaker] of this.circuitBreakers?.entries() || []) {
+      const state = breaker.getState();
+      checks[`circuitBreaker:${key}`] = {
+        status: state === 'closed' ? 'pass' : state === 'open' ? 'fail' : 'warn',
+        message: `Circuit breaker state: ${state}`,
+      };
+    }
+
+    // Check every bulkhead in use
+    for (const [key, bulkhead] of this.bulkheads) {
+      const { active, queued, rejected, maxConcurrent } = bulkhead.getStats();
+      checks[`bulkhead:${key}`] = {
+        status: active < maxConcurrent ? 'pass' : 'warn',
+        message: `${active}/${maxConcurrent} running, ${queued} waiting, ${rejected} rejected`,
+      };
+    }
+
+    if (this.config.hedging?.enabled) {
+      checks.hedging = {
+        status: 'pass',
+        message: `Hedging after ${this.config.hedging.delay}ms, ${this.hedges} hedged calls`,
+      };
+    }
+
+    // Check job queue depth
+    if (this.queue) {
+      const { queued, running, maxDepth } = this.queue.getStats();
+      checks.queue = {
+        status: queued >= maxDepth ? 'warn' : 'pass',
+        message: `${queued} queued, ${running} running`,
+      };
+    }
+
+    // Check metrics
+    if (this.config.metrics?.enabled) {
+      checks.metrics = {
+        status: this.metrics.isHealthy() ? 'pass' : 'warn',
+        message: 'Metrics collection active',
+      };
+    }
+
+    const allPass = Object.values(checks).every(c => c.status === 'pass');
+    const anyFail = Object.values(checks).some(c => c.status === 'fail');
+
+    return {
+      status: allPass ? 'healthy' : anyFail ? 'unhealthy' : 'degraded',
+      version: '1.0.0',
+      uptime: process.uptime(),
+      checks,
+    };
+  }
+
+  /**
+   * Count prompt tokens with the model's tokenizer
+   *
+   * Per-message counts are cached for each tokenizer, so the limiter,
+   * budgets and context checks recount only new or changed messages.
+   */
+  private countTokens(model: string, messages: Message[]): number {
+    const tokenizer = this.tokenizers.forModel(model);
+    let cache = this.tokenCounts.get(tokenizer);
+
+    if (!cache) {
+      cache = new WeakMap();
+      this.tokenCounts.set(tokenizer, cache);
+    }
+    return countMessageTokens(tokenizer, messages, cache);
+  }
+
+  /**
+   * Estimate usage for providers that report none, counted for the model that answered
+   */
+  private estimateUsage(model: string, messages: Message[], content: string): TokenUsage {
+    const promptTokens = this.countTokens(model, messages);
+    const completionTokens = this.tokenizers.forModel(model).count(content);
+    return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+  }
+
+  /**
+   * Make sure the prompt plus maxTokens fits the model's context window
+   *
+   * With contextOverflow 'trim' the oldest turns after the system prompt
+   * are dropped; the latest turn is always kept. Throws when the prompt
+   * still does not fit.
+   */
+  private fitContext(executionId: string, messages: Message[], model: string, maxTokens: number): Message[] {
+    const contextWindow = this.getProvider().capabilities(model).maxContextTokens;
+    const limit = contextWindow - maxTokens;
+    let fitted = [...messages];
+    let tokens = this.countTokens(model, fitted);
+
+    if (tokens > limit && this.config.contextOverflow === 'trim') {
+      const system = messages[0]?.role === 'system' ? [messages[0]] : [];
+      // Keep the latest turn together with any tool results that follow it
+      let latest = messages.length - 1;
+      while (latest > system.length && messages[latest]!.role === 'tool') {
+        latest--;
+      }
+
+      let start = system.length;
+      while (tokens > limit && start < latest) {
+        start++;
+        // Never start on a tool result whose assistant tool call was trimmed
+        while (start < latest && messages[start]!.role === 'tool') {
+          start++;
+        }
+        fitted = [...system, ...messages.slice(start)];
+        tokens = this.countTokens(model, fitted);
+      }
+
+      if (start > system.length) {
+        this.emit('context:trimmed', { executionId, model, dropped: start - system.length, tokens });
+      }
+    }
+
+    if (tokens > limit) {
+      throw new AgentValidationError(
+        `Prompt of ${tokens} tokens plus maxTokens ${maxTokens} exceeds the ${contextWindow}-token context window of '${model}'`,
+        'messages',
+        tokens
+      );
+    }
+
+    return fitted;
+  }
+
+  /**
+   * Generate unique ID
+   */
+  private generateId(): string {
+    return `exec_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  /**
+   * Get current configuration
+   */
+  getConfig(): Readonly<RuntimeConfig> {
+    return { ...this.config };
+  }
+
+  /**
+   * Get the provider/model circuit breakers
+   */
+  getCircuitBreakers(): CircuitBreakerRegistry | undefined {
+    return this.circuitBreakers;
+  }
+
+  /**
+   * Get the rate limiter state for every provider used so far
+   */
+  getRateLimits(): Record<string, ReturnType<RateLimiter['getStats']>> {
+    return Object.fromEntries(
+      [...this.rateLimiters.entries()].map(([name, limiter]) => [name, limiter.getStats()])
+    );
+  }
+
+  /**
+   * Get the state of every bulkhead used so far
+   */
+  getBulkheads(): Record<string, ReturnType<Bulkhead['getStats']>> {
+    return Object.fromEntries(
+      [...this.bulkheads.entries()].map(([key, bulkhead]) => [key, bulkhead.getStats()])
+    );
+  }
+
+  /**
+   * Get spend against every budget that applies to a user or session
+   */
+  getBudgets(scope: BudgetScope = {}): BudgetStatus[] {
+    return this.budgets.statuses(scope);
+  }
+
+  /**
+   * Get metrics
    */
   getMetrics(): AgentMetrics {
     return this.metrics;
   }
+
+  /**
+   * Get the logger, when logging is enabled
+   */
+  getLogger(): Logger | undefined {
+    return this.logger;
+  }
+}
+
+/**
+ * Runtime events written to the logger, with their level
+ */
+const LOGGED_EVENTS: Record<string, LogLevel> = {
+  'execution:start': 'info',
+  'execution:complete': 'info',
+  'execution:error': 'error',
+  'execution:cancelled': 'warn',
+  'execution:attempt': 'debug',
+  'execution:retry': 'warn',
+  'execution:fallback': 'warn',
+  'execution:hedge': 'debug',
+  'execution:repair': 'warn',
+  'stream:start': 'info',
+  'stream:complete': 'info',
+  'stream:error': 'error',
+  'memory:load': 'debug',
+  'tool:start': 'debug',
+  'tool:complete': 'debug',
+  'tool:error': 'warn',
+  'context:trimmed': 'warn',
+  'budget:warning': 'warn',
+  'circuit:state-change': 'warn',
+  'store:error': 'error',
+  'cache:hit': 'debug',
+  'guardrail:triggered': 'warn',
+  'cache:error': 'warn',
+  'job:error': 'error',
+};
+
+/**
+ * Runtime events reported as progress of the job that started the execution
+ */
+const JOB_PROGRESS_EVENTS = [
+  'execution:start',
+  'execution:attempt',
+  'execution:retry',
+  'execution:fallback',
+  'execution:hedge',
+  'execution:repair',
+  'memory:load',
+  'tool:start',
+  'tool:complete',
+  'tool:error',
+  'context:trimmed',
+  'guardrail:triggered',
+  'execution:complete',
+  'execution:error',
+  'execution:cancelled',
+];
+
+/**
+ * Events after which an execution logs nothing more
+ */
+const FINAL_EVENTS = [
+  'execution:complete',
+  'execution:error',
+  'execution:cancelled',
+  'stream:complete',
+  'stream:error',
+];
+
+/**
+ * Record an error on a span, if any, and end it
+ */
+function endSpan(span: Span | undefined, error?: unknown): void {
+  if (!span || span.isEnded()) {
+    return;
+  }
+  if (error !== undefined) {
+    span.recordError(error);
+  }
+  span.end();
+}
+
+/**
+ * Span attributes for token usage
+ */
+function usageAttributes(usage: TokenUsage | undefined): Record<string, SpanAttributeValue | undefined> {
+  return {
+    'gen_ai.usage.input_tokens': usage?.promptTokens,
+    'gen_ai.usage.output_tokens': usage?.completionTokens,
+    'agent.usage.total_tokens': usage?.totalTokens,
+    'agent.usage.cost': usage?.cost,
+  };
+}
+
+/**
+ * Build the assistant message for a model turn
+ */
+function assistantMessage(content: string, toolCalls: ToolCall[]): Message {
+  return {
+    role: 'assistant',
+    content,
+    ...(toolCalls.length > 0 ? { toolCalls } : {}),
+    timestamp: Date.now(),
+  };
+}
+
+/**
+ * Build the tool message that reports a call's result or error to the model
+ */
+function toolMessage(call: ToolCall): Message {
+  return {
+    role: 'tool',
+    name: call.name,
+    toolCallId: call.id,
+    content: call.error !== undefined
+      ? JSON.stringify({ error: call.error })
+      : serializeToolResult(call.result),
+    timestamp: Date.now(),
+  };
+}
+
+/**
+ * Serialize a tool result for the follow-up model message
+ */
+function serializeToolResult(result: unknown): string {
+  if (typeof result === 'string') {
+    return result;
+  }
+  return JSON.stringify(result ?? null);
+}
+
+/**
+ * Classify a failure for the fallback chain
+ */
+function fallbackTrigger(error: unknown): FallbackTrigger | undefined {
+  if (error instanceof AgentCircuitOpenError) {
+    return 'circuit-open';
+  }
+  if (error instanceof AgentRateLimitError) {
+    return 'rate-limit';
+  }
+  if (error instanceof AgentModelError) {
+    if (error.statusCode === undefined) {
+      return 'network-error';
+    }
+    return error.statusCode >= 500 ? 'server-error' : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Turn streamed tool call fragments into a complete call
+ */
+function assembleToolCall(
+  index: number,
+  partial: Required<Omit<ToolCallDelta, 'index'>>
+): ToolCall {
+  return parseToolCall(partial.id || `call_${index}`, partial.name, partial.arguments);
 }
@@ -0,0 +1,195 @@
+/**
+ * JSON Schema - Minimal validator for tool arguments and structured output
+ */
+
+/**
+ * Supported subset of JSON Schema (draft-07 keywords)
+ */
+export interface JSONSchema {
+  type?: JSONSchemaType | JSONSchemaType[];
+  description?: string;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JSONSchema;
+  items?: JSONSchema;
+  enum?: unknown[];
+  const?: unknown;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minItems?: number;
+  maxItems?: number;
+  anyOf?: JSONSchema[];
+  default?: unknown;
+}
+
+export type JSONSchemaType =
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'object'
+  | 'array'
+  | 'null';
+
+/**
+ * Single validation failure, located by JSON path
+ */
+export interface SchemaIssue {
+  path: string;
+  message: string;
+  value?: unknown;
+}
+
+/**
+ * Validate a value against a schema, returning every issue found
+ */
+export function validateSchema(
+  schema: JSONSchema,
+  value: unknown,
+  path: string = '$'
+): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+
+  if (schema.anyOf) {
+    const matches = schema.anyOf.some(option => validateSchema(option, value, path).length === 0);
+    if (!matches) {
+      issues.push({ path, message: 'must match at least one allowed schema', value });
+    }
+    return issues;
+  }
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(type, value))) {
+      issues.push({ path, message: `must be ${types.join(' or ')}`, value });
+      return issues;
+    }
+  }
+
+  if (schema.const !== undefined && !deepEqual(schema.const, value)) {
+    issues.push({ path, message: `must equal ${JSON.stringify(schema.const)}`, value });
+  }
+
+  if (schema.enum && !schema.enum.some(option => deepEqual(option, value))) {
+    issues.push({
+      path,
+      message: `must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`,
+      value,
+    });
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push({ path, message: `must be >= ${schema.minimum}`, value });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push({ path, message: `must be <= ${schema.maximum}`, value });
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      issues.push({ path, message: `must be at least ${schema.minLength} characters`, value });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      issues.push({ path, message: `must be at most ${schema.maxLength} characters`, value });
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      issues.push({ path, message: `must match pattern ${schema.pattern}`, value });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issues.push({ path, message: `must have at least ${schema.minItems} items`, value });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      issues.push({ path, message: `must have at most ${schema.maxItems} items`, value });
+    }
+    if (schema.items) {
+      value.forEach((item, index) => {
+        issues.push(...validateSchema(schema.items!, item, `${path}[${index}]`));
+      });
+    }
+  }
+
+  if (isPlainObject(value)) {
+    for (const key of schema.required || []) {
+      if (!(key in value)) {
+        issues.push({ path: `${path}.${key}`, message: 'is required' });
+      }
+    }
+
+    for (const [key, child] of Object.entries(value)) {
+      const propertySchema = schema.properties?.[key];
+
+      if (propertySchema) {
+        issues.push(...validateSchema(propertySchema, child, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: `${path}.${key}`, message: 'is not an allowed property', value: child });
+      } else if (typeof schema.additionalProperties === 'object') {
+        issues.push(...validateSchema(schema.additionalProperties, child, `${path}.${key}`));
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Parse JSON model output and validate it against a schema
+ *
+ * A Markdown code fence around the JSON is ignored. Output that is not
+ * JSON at all is reported as a single issue at `$`.
+ */
+export function parseJSONOutput(
+  text: string,
+  schema: JSONSchema
+): { value?: unknown; issues: SchemaIssue[] } {
+  const json = text.trim().replace(/^```(?:json)?\s*([\s\S]*?)\s*```$/i, '$1');
+  let value: unknown;
+
+  try {
+    value = JSON.parse(json);
+  } catch (error) {
+    return { issues: [{ path: '$', message: `is not valid JSON (${(error as Error).message})` }] };
+  }
+  return { value, issues: validateSchema(schema, value) };
+}
+
+/**
+ * Format issues as a single human-readable string
+ */
+export function formatSchemaIssues(issues: SchemaIssue[]): string {
+  return issues.map(issue => `${issue.path} ${issue.message}`).join('; ');
+}
+
+function matchesType(type: JSONSchemaType, value: unknown): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'object':
+      return isPlainObject(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'null':
+      return value === null;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
@@ -0,0 +1,262 @@
+/**
+ * Execution Store - Persists finished executions for lookup and audit
+ */
+
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { ExecutionResult, ExecutionStatus } from './types.js';
+
+/**
+ * A finished execution as stored
+ *
+ * Times are milliseconds since the epoch. `failure` holds the
+ * serialized AgentError of a failed execution.
+ */
+export interface ExecutionRecord extends Omit<ExecutionResult, 'failure'> {
+  task: string;
+  userId?: string;
+  sessionId?: string;
+  conversationId?: string;
+  startedAt: number;
+  completedAt: number;
+  failure?: Record<string, unknown>;
+}
+
+/**
+ * Filters and pagination for listing executions
+ *
+ * `from` and `to` bound `startedAt` (inclusive, exclusive). Results are
+ * newest first.
+ */
+export interface ExecutionQuery {
+  userId?: string;
+  sessionId?: string;
+  status?: ExecutionStatus | ExecutionStatus[];
+  from?: Date | number;
+  to?: Date | number;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * One page of query results
+ */
+export interface ExecutionPage {
+  items: ExecutionRecord[];
+  total: number;
+  nextOffset?: number;
+}
+
+/**
+ * Storage for execution records
+ */
+export interface ExecutionStore {
+  save(record: ExecutionRecord): Promise<void>;
+  get(id: string): Promise<ExecutionRecord | undefined>;
+  query(query?: ExecutionQuery): Promise<ExecutionPage>;
+
+  /**
+   * Delete records that completed before a time, returning how many were removed
+   */
+  prune(before: Date | number): Promise<number>;
+}
+
+/**
+ * Store options
+ *
+ * Records older than `ttl` milliseconds are hidden from reads and
+ * removed by prune(); saves also remove them, at most once a minute.
+ */
+export interface ExecutionStoreConfig {
+  ttl?: number;
+}
+
+/**
+ * Default and maximum page sizes
+ */
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 500;
+
+const PRUNE_INTERVAL = 60_000;
+
+/**
+ * In-memory store - records are lost when the process exits
+ */
+export class InMemoryExecutionStore implements ExecutionStore {
+  private records: Map<string, ExecutionRecord> = new Map();
+  private prunedAt = 0;
+
+  constructor(private config: ExecutionStoreConfig = {}) {}
+
+  async save(record: ExecutionRecord): Promise<void> {
+    if (this.config.ttl !== undefined && Date.now() - this.prunedAt >= PRUNE_INTERVAL) {
+      this.prunedAt = Date.now();
+      await this.prune(Date.now() - this.config.ttl);
+    }
+    this.records.set(record.id, clone(record));
+  }
+
+  async get(id: string): Promise<ExecutionRecord | undefined> {
+    const record = this.records.get(id);
+    return record && !isExpired(record, this.config.ttl) ? clone(record) : undefined;
+  }
+
+  async query(query: ExecutionQuery = {}): Promise<ExecutionPage> {
+    const records = [...this.records.values()].filter(record => !isExpired(record, this.config.ttl));
+    return paginate(records.map(clone), query);
+  }
+
+  async prune(before: Date | number): Promise<number> {
+    let removed = 0;
+
+    for (const [id, record] of this.records) {
+      if (record.completedAt < toTime(before)) {
+        this.records.delete(id);
+        removed++;
+      }
+    }
+
+    return removed;
+  }
+}
+
+/**
+ * File store - one JSON file per execution in a directory
+ *
+ * Queries read every file, so this suits single-node deployments and
+ * modest volumes; use prune() or a TTL to bound the directory.
+ */
+export class FileExecutionStore implements ExecutionStore {
+  private prunedAt = 0;
+
+  constructor(private directory: string, private config: ExecutionStoreConfig = {}) {}
+
+  async save(record: ExecutionRecord): Promise<void> {
+    if (this.config.ttl !== undefined && Date.now() - this.prunedAt >= PRUNE_INTERVAL) {
+      this.prunedAt = Date.now();
+      await this.prune(Date.now() - this.config.ttl);
+    }
+
+    await fs.mkdir(this.directory, { recursive: true });
+    // Write then rename so readers never see a partial record
+    const path = this.pathFor(record.id);
+    await fs.writeFile(`${path}.tmp`, JSON.stringify(record), 'utf8');
+    await fs.rename(`${path}.tmp`, path);
+  }
+
+  async get(id: string): Promise<ExecutionRecord | undefined> {
+    const record = await this.read(this.pathFor(id));
+    return record && !isExpired(record, this.config.ttl) ? record : undefined;
+  }
+
+  async query(query: ExecutionQuery = {}): Promise<ExecutionPage> {
+    const records = await this.readAll();
+    return paginate(records.filter(record => !isExpired(record, this.config.ttl)), query);
+  }
+
+  async prune(before: Date | number): Promise<number> {
+    let removed = 0;
+
+    for (const record of await this.readAll()) {
+      if (record.completedAt < toTime(before)) {
+        await fs.rm(this.pathFor(record.id), { force: true });
+        removed++;
+      }
+    }
+
+    return removed;
+  }
+
+  private async readAll(): Promise<ExecutionRecord[]> {
+    let files: string[];
+
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const records = await Promise.all(
+      files.filter(file => file.endsWith('.json')).map(file => this.read(join(this.directory, file)))
+    );
+    return records.filter((record): record is ExecutionRecord => record !== undefined);
+  }
+
+  private async read(path: string): Promise<ExecutionRecord | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(path, 'utf8')) as ExecutionRecord;
+    } catch (error) {
+      // Deleted by a concurrent prune
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  private pathFor(id: string): string {
+    return join(this.directory, `${encodeURIComponent(id)}.json`);
+  }
+}
+
+/**
+ * Build the record for a finished execution
+ */
+export function toExecutionRecord(
+  result: ExecutionResult,
+  details: Pick<ExecutionRecord, 'task' | 'userId' | 'sessionId' | 'conversationId' | 'startedAt'>
+): ExecutionRecord {
+  const { failure, ...rest } = result;
+
+  return {
+    ...rest,
+    ...details,
+    completedAt: details.startedAt + result.duration,
+    failure: failure?.toJSON(),
+  };
+}
+
+/**
+ * Filter, sort newest first and slice one page
+ */
+function paginate(records: ExecutionRecord[], query: ExecutionQuery): ExecutionPage {
+  const statuses = query.status === undefined ? undefined : [query.status].flat();
+  const from = query.from === undefined ? -Infinity : toTime(query.from);
+  const to = query.to === undefined ? Infinity : toTime(query.to);
+  const limit = Math.min(Math.max(query.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const offset = Math.max(query.offset ?? 0, 0);
+
+  const matching = records
+    .filter(record =>
+      (query.userId === undefined || record.userId === query.userId) &&
+      (query.sessionId === undefined || record.sessionId === query.sessionId) &&
+      (statuses === undefined || statuses.includes(record.status)) &&
+      record.startedAt >= from &&
+      record.startedAt < to
+    )
+    .sort((a, b) => b.startedAt - a.startedAt || b.id.localeCompare(a.id));
+
+  const items = matching.slice(offset, offset + limit);
+  const next = offset + items.length;
+
+  return {
+    items,
+    total: matching.length,
+    nextOffset: next < matching.length ? next : undefined,
+  };
+}
+
+function isExpired(record: ExecutionRecord, ttl?: number): boolean {
+  return ttl !== undefined && record.completedAt < Date.now() - ttl;
+}
+
+function toTime(value: Date | number): number {
+  return value instanceof Date ? value.getTime() : value;
+}
+
+function clone(record: ExecutionRecord): ExecutionRecord {
+  return JSON.parse(JSON.stringify(record)) as ExecutionRecord;
+}
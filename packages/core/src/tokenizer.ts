@@ -0,0 +1,380 @@
+/**
+ * Tokenizer - Token counting for prompts and context window checks
+ */
+
+import { Message } from './types.js';
+import { AgentValidationError } from './errors.js';
+import { CL100K_BASE } from './encodings/cl100k_base.js';
+import { O200K_BASE } from './encodings/o200k_base.js';
+
+/**
+ * Splits text into model tokens
+ */
+export interface Tokenizer {
+  readonly name: string;
+  count(text: string): number;
+}
+
+/**
+ * Pre-tokenization pattern of the cl100k_base encoding (GPT-4, GPT-3.5)
+ */
+export const CL100K_PATTERN =
+  /'(?:[sSdDmMtT]|[lL][lL]|[vV][eE]|[rR][eE])|[^\r\n\p{L}\p{N}]?\p{L}+|\p{N}{1,3}| ?[^\s\p{L}\p{N}]+[\r\n]*|\s*[\r\n]+|\s+(?!\S)|\s+/gu;
+
+/**
+ * Pre-tokenization pattern of the o200k_base encoding (GPT-4o, o-series)
+ */
+export const O200K_PATTERN = new RegExp([
+  "[^\\r\\n\\p{L}\\p{N}]?[\\p{Lu}\\p{Lt}\\p{Lm}\\p{Lo}\\p{M}]*[\\p{Ll}\\p{Lm}\\p{Lo}\\p{M}]+(?:'[sSdDmMtT]|'[lL][lL]|'[vV][eE]|'[rR][eE])?",
+  "[^\\r\\n\\p{L}\\p{N}]?[\\p{Lu}\\p{Lt}\\p{Lm}\\p{Lo}\\p{M}]+[\\p{Ll}\\p{Lm}\\p{Lo}\\p{M}]*(?:'[sSdDmMtT]|'[lL][lL]|'[vV][eE]|'[rR][eE])?",
+  '\\p{N}{1,3}',
+  ' ?[^\\s\\p{L}\\p{N}]+[\\r\\n/]*',
+  '\\s*[\\r\\n]+',
+  '\\s+(?!\\S)',
+  '\\s+',
+].join('|'), 'gu');
+
+/**
+ * Byte-level BPE tokenizer
+ *
+ * Splits text with the encoding's pre-tokenization pattern, then merges
+ * the UTF-8 bytes of each piece by rank. The bundled encodings come from
+ * getEncoding(); other vocabularies load from a `.tiktoken` file with
+ * fromTiktoken().
+ */
+export class BpeTokenizer implements Tokenizer {
+  constructor(
+    readonly name: string,
+    private ranks: Map<string, number>,
+    private pattern: RegExp = CL100K_PATTERN
+  ) {}
+
+  /**
+   * Build a tokenizer from `.tiktoken` contents - one `<base64 bytes> <rank>` per line
+   */
+  static fromTiktoken(name: string, contents: string, pattern: RegExp = CL100K_PATTERN): BpeTokenizer {
+    const ranks = new Map<string, number>();
+
+    for (const line of contents.split('\n')) {
+      const [token, rank] = line.trim().split(/\s+/);
+      if (token && rank) {
+        ranks.set(Buffer.from(token, 'base64').toString('latin1'), Number(rank));
+      }
+    }
+
+    return new BpeTokenizer(name, ranks, pattern);
+  }
+
+  /**
+   * Build a tokenizer from base64 tokens separated by whitespace, in rank order from 0
+   */
+  static fromTokens(name: string, tokens: string, pattern: RegExp = CL100K_PATTERN): BpeTokenizer {
+    const ranks = new Map<string, number>();
+
+    for (const token of tokens.split(/\s+/)) {
+      if (token) {
+        ranks.set(Buffer.from(token, 'base64').toString('latin1'), ranks.size);
+      }
+    }
+
+    return new BpeTokenizer(name, ranks, pattern);
+  }
+
+  /**
+   * Encode text to token ranks
+   */
+  encode(text: string): number[] {
+    const tokens: number[] = [];
+
+    for (const [piece] of text.matchAll(this.pattern)) {
+      const bytes = Buffer.from(piece, 'utf8').toString('latin1');
+      const rank = this.ranks.get(bytes);
+
+      if (rank !== undefined) {
+        tokens.push(rank);
+      } else {
+        for (const merged of this.merge(bytes)) {
+          tokens.push(merged);
+        }
+      }
+    }
+
+    return tokens;
+  }
+
+  count(text: string): number {
+    return this.encode(text).length;
+  }
+
+  /**
+   * Repeatedly merge the adjacent pair with the lowest rank, leftmost first
+   *
+   * Parts form a linked list and candidate pairs wait in a min-heap keyed
+   * by rank then position, so a piece of n bytes merges in O(n log n).
+   * Entries made stale by an earlier merge are skipped when popped.
+   */
+  private merge(bytes: string): number[] {
+    const parts = [...bytes];
+    const size = parts.length;
+    const next = parts.map((_, i) => (i + 1 < size ? i + 1 : -1));
+    const prev = parts.map((_, i) => i - 1);
+    const heap: number[] = [];
+
+    const push = (left: number): void => {
+      const right = next[left]!;
+      const rank = right < 0 ? undefined : this.ranks.get(parts[left]! + parts[right]!);
+      if (rank !== undefined) {
+        heapPush(heap, rank * size + left);
+      }
+    };
+
+    for (let i = 0; i < size - 1; i++) {
+      push(i);
+    }
+
+    while (heap.length > 0) {
+      const key = heapPop(heap);
+      const rank = Math.floor(key / size);
+      const left = key - rank * size;
+      const right = next[left]!;
+
+      // A merged pair is a longer string, so a changed pair never keeps its rank
+      if (parts[left] === '' || right < 0 || this.ranks.get(parts[left]! + parts[right]!) !== rank) {
+        continue;
+      }
+
+      parts[left] += parts[right]!;
+      parts[right] = '';
+      next[left] = next[right]!;
+      if (next[left]! >= 0) {
+        prev[next[left]!] = left;
+      }
+
+      if (prev[left]! >= 0) {
+        push(prev[left]!);
+      }
+      push(left);
+    }
+
+    return parts.filter(part => part !== '').map(part => {
+      const rank = this.ranks.get(part);
+      if (rank === undefined) {
+        throw new AgentValidationError(
+          `Tokenizer '${this.name}' has no rank for byte 0x${part.charCodeAt(0).toString(16)}`,
+          'text',
+          part
+        );
+      }
+      return rank;
+    });
+  }
+}
+
+/**
+ * Approximate tokenizer - the encoding's pre-tokenization without its vocabulary
+ *
+ * Counts each pre-tokenized piece the way the full vocabulary usually
+ * would: short ASCII words and numbers are one token, punctuation runs
+ * about one token per two characters and other scripts about one token
+ * per three UTF-8 bytes. TokenizerRegistry falls back to it for models
+ * without a known encoding.
+ */
+export class ApproximateTokenizer implements Tokenizer {
+  constructor(readonly name: string, private pattern: RegExp = CL100K_PATTERN) {}
+
+  count(text: string): number {
+    let tokens = 0;
+
+    for (const [piece] of text.matchAll(this.pattern)) {
+      tokens += estimatePiece(piece);
+    }
+
+    return tokens;
+  }
+}
+
+/**
+ * Rank tables and patterns of the bundled encodings
+ */
+const BUNDLED_ENCODINGS: Record<string, [string, RegExp]> = {
+  cl100k_base: [CL100K_BASE, CL100K_PATTERN],
+  o200k_base: [O200K_BASE, O200K_PATTERN],
+};
+
+const encodings = new Map<string, BpeTokenizer>();
+
+/**
+ * Get a bundled encoding (cl100k_base or o200k_base)
+ *
+ * The rank table is decoded on first use and shared by every caller.
+ */
+export function getEncoding(encoding: string): BpeTokenizer {
+  let tokenizer = encodings.get(encoding);
+
+  if (!tokenizer) {
+    const bundled = BUNDLED_ENCODINGS[encoding];
+    if (!bundled) {
+      throw new AgentValidationError(
+        `Unknown encoding '${encoding}' (bundled: ${Object.keys(BUNDLED_ENCODINGS).join(', ')})`,
+        'encoding',
+        encoding
+      );
+    }
+    tokenizer = BpeTokenizer.fromTokens(encoding, bundled[0], bundled[1]);
+    encodings.set(encoding, tokenizer);
+  }
+
+  return tokenizer;
+}
+
+/**
+ * Model name prefixes and the encoding they use, most specific first
+ */
+const MODEL_ENCODINGS: Array<[string, string]> = [
+  ['gpt-4o', 'o200k_base'],
+  ['gpt-4.1', 'o200k_base'],
+  ['o1', 'o200k_base'],
+  ['o3', 'o200k_base'],
+  ['o4', 'o200k_base'],
+  ['gpt-4', 'cl100k_base'],
+  ['gpt-3.5', 'cl100k_base'],
+  ['text-embedding-3', 'cl100k_base'],
+];
+
+/**
+ * Tokenizer Registry - Maps models to tokenizers by encoding
+ *
+ * Encodings use their registered tokenizer, else the bundled one from
+ * getEncoding(). Models without a known encoding get an approximate
+ * count from ApproximateTokenizer.
+ */
+export class TokenizerRegistry {
+  private tokenizers: Map<string, Tokenizer> = new Map();
+  private fallback: Tokenizer = new ApproximateTokenizer('approximate', CL100K_PATTERN);
+  private models: Array<[string, string]> = [...MODEL_ENCODINGS];
+
+  /**
+   * Register the tokenizer for an encoding
+   */
+  register(encoding: string, tokenizer: Tokenizer): this {
+    this.tokenizers.set(encoding, tokenizer);
+    return this;
+  }
+
+  /**
+   * Map models starting with a prefix to an encoding
+   */
+  mapModel(prefix: string, encoding: string): this {
+    this.models.unshift([prefix, encoding]);
+    return this;
+  }
+
+  /**
+   * Get the tokenizer for a model
+   */
+  forModel(model: string): Tokenizer {
+    const encoding = this.models.find(([prefix]) => model.startsWith(prefix))?.[1];
+
+    if (encoding === undefined) {
+      return this.fallback;
+    }
+    return this.tokenizers.get(encoding)
+      ?? (encoding in BUNDLED_ENCODINGS ? getEncoding(encoding) : this.fallback);
+  }
+}
+
+/**
+ * Message counts remembered with the content they were counted for
+ */
+export type MessageTokenCache = WeakMap<Message, [content: string, tokens: number]>;
+
+/**
+ * Count the prompt tokens of a chat request
+ *
+ * Adds the chat format's per-message overhead and reply priming. With a
+ * cache, messages whose content is unchanged since they were last counted
+ * by the same tokenizer are not counted again.
+ */
+export function countMessageTokens(tokenizer: Tokenizer, messages: Message[], cache?: MessageTokenCache): number {
+  let tokens = 3;
+
+  for (const message of messages) {
+    const cached = cache?.get(message);
+    if (cached && cached[0] === message.content) {
+      tokens += cached[1];
+      continue;
+    }
+
+    const count = countMessage(tokenizer, message);
+    cache?.set(message, [message.content, count]);
+    tokens += count;
+  }
+
+  return tokens;
+}
+
+function countMessage(tokenizer: Tokenizer, message: Message): number {
+  let tokens = 3 + tokenizer.count(message.content);
+
+  if (message.name) {
+    tokens += 1 + tokenizer.count(message.name);
+  }
+  for (const call of message.toolCalls || []) {
+    tokens += 3 + tokenizer.count(call.name) + tokenizer.count(JSON.stringify(call.arguments));
+  }
+
+  return tokens;
+}
+
+function heapPush(heap: number[], value: number): void {
+  let i = heap.push(value) - 1;
+
+  while (i > 0) {
+    const parent = (i - 1) >> 1;
+    if (heap[parent]! <= value) {
+      break;
+    }
+    heap[i] = heap[parent]!;
+    i = parent;
+  }
+  heap[i] = value;
+}
+
+function heapPop(heap: number[]): number {
+  const top = heap[0]!;
+  const last = heap.pop()!;
+
+  if (heap.length > 0) {
+    let i = 0;
+    for (;;) {
+      let child = 2 * i + 1;
+      if (child >= heap.length) {
+        break;
+      }
+      if (child + 1 < heap.length && heap[child + 1]! < heap[child]!) {
+        child++;
+      }
+      if (heap[child]! >= last) {
+        break;
+      }
+      heap[i] = heap[child]!;
+      i = child;
+    }
+    heap[i] = last;
+  }
+
+  return top;
+}
+
+function estimatePiece(piece: string): number {
+  if (/[^\x00-\x7f]/.test(piece)) {
+    return Math.max(1, Math.ceil(Buffer.byteLength(piece, 'utf8') / 3));
+  }
+  if (/^\s+$/.test(piece) || /^\p{N}+$/u.test(piece)) {
+    return 1;
+  }
+  if (/\p{L}/u.test(piece)) {
+    return Math.max(1, Math.round(piece.length / 6));
+  }
+  return Math.max(1, Math.ceil(piece.trim().length / 2));
+}
@@ -0,0 +1,184 @@
+/**
+ * Tool Registry - Tool definitions, argument validation and invocation
+ */
+
+import { Message, ToolCall } from './types.js';
+import { AgentError, AgentToolError, AgentValidationError } from './errors.js';
+import { JSONSchema, validateSchema, formatSchemaIssues } from './schema.js';
+
+/**
+ * Tool definition sent to the model
+ */
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: JSONSchema;
+}
+
+/**
+ * Context passed to every tool invocation
+ *
+ * `traceparent` is set when tracing is enabled, so tools that call other
+ * services can continue the trace. `messages` is the conversation so far
+ * and must not be modified.
+ */
+export interface ToolContext {
+  executionId: string;
+  userId?: string;
+  sessionId?: string;
+  messages?: Message[];
+  signal?: AbortSignal;
+  traceparent?: string;
+}
+
+/**
+ * Executable tool
+ */
+export interface Tool<TArgs = Record<string, unknown>, TResult = unknown> extends ToolDefinition {
+  execute(args: TArgs, context: ToolContext): Promise<TResult> | TResult;
+}
+
+/**
+ * Tool Registry - Holds the tools available to an agent
+ */
+export class ToolRegistry {
+  private tools: Map<string, Tool> = new Map();
+
+  constructor(tools: Tool[] = []) {
+    for (const tool of tools) {
+      this.register(tool);
+    }
+  }
+
+  /**
+   * Register a tool
+   */
+  register<TArgs, TResult>(tool: Tool<TArgs, TResult>): this {
+    if (!/^[a-zA-Z0-9_-]{1,64}$/.test(tool.name)) {
+      throw new AgentValidationError(
+        'Tool name must be 1-64 characters of letters, digits, underscores or dashes',
+        'name',
+        tool.name
+      );
+    }
+
+    if (this.tools.has(tool.name)) {
+      throw new AgentValidationError(
+        `Tool '${tool.name}' is already registered`,
+        'name',
+        tool.name
+      );
+    }
+
+    this.tools.set(tool.name, tool as unknown as Tool);
+    return this;
+  }
+
+  /**
+   * Unregister a tool
+   */
+  unregister(name: string): boolean {
+    return this.tools.delete(name);
+  }
+
+  /**
+   * Get a tool by name
+   */
+  get(name: string): Tool | undefined {
+    return this.tools.get(name);
+  }
+
+  /**
+   * Check if a tool is registered
+   */
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  /**
+   * Number of registered tools
+   */
+  get size(): number {
+    return this.tools.size;
+  }
+
+  /**
+   * Get the definitions to advertise to the model
+   */
+  getDefinitions(): ToolDefinition[] {
+    return [...this.tools.values()].map(({ name, description, parameters }) => ({
+      name,
+      description,
+      parameters,
+    }));
+  }
+
+  /**
+   * Validate arguments against a tool's schema
+   */
+  validate(name: string, args: Record<string, unknown>): void {
+    const tool = this.tools.get(name);
+
+    if (!tool) {
+      throw new AgentToolError(name, 'tool is not registered');
+    }
+
+    const issues = validateSchema(tool.parameters, args);
+    const first = issues[0];
+
+    if (first) {
+      throw new AgentValidationError(
+        `Invalid arguments for tool '${name}': ${formatSchemaIssues(issues)}`,
+        first.path,
+        first.value
+      );
+    }
+  }
+
+  /**
+   * Validate and execute a tool call
+   *
+   * Throws AgentValidationError for bad arguments and AgentToolError
+   * for unknown tools or failures inside the tool itself.
+   */
+  async invoke(call: ToolCall, context: ToolContext): Promise<unknown> {
+    this.validate(call.name, call.arguments);
+
+    const tool = this.tools.get(call.name)!;
+
+    try {
+      return await tool.execute(call.arguments, context);
+    } catch (error) {
+      if (error instanceof AgentError) {
+        throw error;
+      }
+      throw new AgentToolError(
+        call.name,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  }
+}
+
+/**
+ * Build a tool call from the raw JSON arguments a model sent
+ *
+ * Arguments that are not a JSON object leave the call with an `error`
+ * and empty arguments; the runtime reports the error to the model
+ * instead of running the tool.
+ */
+export function parseToolCall(id: string, name: string, raw: string): ToolCall {
+  const call: ToolCall = { id, name, arguments: {} };
+
+  try {
+    const parsed: unknown = raw ? JSON.parse(raw) : {};
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      throw new Error('expected a JSON object');
+    }
+    call.arguments = parsed as Record<string, unknown>;
+  } catch (error) {
+    call.error = `Invalid tool arguments: ${error instanceof Error ? error.message : String(error)}`;
+  }
+
+  return call;
+}
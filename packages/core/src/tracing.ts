@@ -0,0 +1,304 @@
+/**
+ * Tracing - OpenTelemetry-style spans with W3C trace context
+ */
+
+import { randomBytes } from 'crypto';
+import { AgentError } from './errors.js';
+import { JsonLinesWriter } from './jsonl.js';
+
+/**
+ * Identifies a span within a trace
+ */
+export interface SpanContext {
+  traceId: string;
+  spanId: string;
+  traceFlags: number;
+  traceState?: string;
+}
+
+export type SpanAttributeValue = string | number | boolean;
+
+export type SpanAttributes = Record<string, SpanAttributeValue>;
+
+export type SpanStatus = 'unset' | 'ok' | 'error';
+
+/**
+ * Timestamped annotation on a span
+ */
+export interface SpanEvent {
+  name: string;
+  time: number;
+  attributes?: SpanAttributes;
+}
+
+/**
+ * Finished span as handed to exporters
+ *
+ * Times are milliseconds since the epoch.
+ */
+export interface SpanData {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  service?: string;
+  startTime: number;
+  endTime: number;
+  duration: number;
+  attributes: SpanAttributes;
+  status: SpanStatus;
+  statusMessage?: string;
+  events: SpanEvent[];
+}
+
+/**
+ * Receives finished spans
+ */
+export interface SpanExporter {
+  export(span: SpanData): void;
+
+  /**
+   * Wait until every exported span has been written
+   */
+  flush?(): Promise<void>;
+}
+
+/**
+ * Parse a W3C `traceparent` header
+ *
+ * Returns undefined for malformed headers, so callers start a new trace.
+ */
+export function parseTraceparent(header: unknown, traceState?: unknown): SpanContext | undefined {
+  if (typeof header !== 'string') {
+    return undefined;
+  }
+
+  const match = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/.exec(header.trim().toLowerCase());
+  if (!match || match[1] === 'ff' || /^0+$/.test(match[2]!) || /^0+$/.test(match[3]!)) {
+    return undefined;
+  }
+
+  return {
+    traceId: match[2]!,
+    spanId: match[3]!,
+    traceFlags: parseInt(match[4]!, 16),
+    traceState: typeof traceState === 'string' && traceState.length > 0 ? traceState : undefined,
+  };
+}
+
+/**
+ * Format a span context as a W3C `traceparent` header
+ */
+export function formatTraceparent(context: SpanContext): string {
+  return `00-${context.traceId}-${context.spanId}-${context.traceFlags.toString(16).padStart(2, '0')}`;
+}
+
+/**
+ * Span - One timed operation within a trace
+ */
+export class Span {
+  readonly startTime = Date.now();
+  private endTime?: number;
+  private attributes: SpanAttributes = {};
+  private events: SpanEvent[] = [];
+  private status: SpanStatus = 'unset';
+  private statusMessage?: string;
+
+  constructor(
+    readonly name: string,
+    readonly context: SpanContext,
+    readonly parentSpanId: string | undefined,
+    private onEnd: (span: Span) => void
+  ) {}
+
+  /**
+   * Set an attribute; undefined values are skipped
+   */
+  setAttribute(key: string, value: SpanAttributeValue | undefined): this {
+    if (value !== undefined) {
+      this.attributes[key] = value;
+    }
+    return this;
+  }
+
+  /**
+   * Set several attributes at once
+   */
+  setAttributes(attributes: Record<string, SpanAttributeValue | undefined>): this {
+    for (const [key, value] of Object.entries(attributes)) {
+      this.setAttribute(key, value);
+    }
+    return this;
+  }
+
+  /**
+   * Add a timestamped event
+   */
+  addEvent(name: string, attributes?: SpanAttributes): this {
+    this.events.push({ name, time: Date.now(), attributes });
+    return this;
+  }
+
+  /**
+   * Mark the span failed and record the error's code and message
+   */
+  recordError(error: unknown): this {
+    const message = error instanceof Error ? error.message : String(error);
+    const code = error instanceof AgentError ? error.code : 'UNKNOWN_ERROR';
+
+    this.status = 'error';
+    this.statusMessage = message;
+    this.setAttribute('error.code', code);
+    return this.addEvent('exception', {
+      'exception.type': error instanceof Error ? error.name : typeof error,
+      'exception.message': message,
+    });
+  }
+
+  /**
+   * Finish the span; later calls are ignored
+   */
+  end(): void {
+    if (this.endTime !== undefined) {
+      return;
+    }
+
+    this.endTime = Date.now();
+    if (this.status === 'unset') {
+      this.status = 'ok';
+    }
+    this.onEnd(this);
+  }
+
+  /**
+   * Check whether end() has been called
+   */
+  isEnded(): boolean {
+    return this.endTime !== undefined;
+  }
+
+  /**
+   * Get the `traceparent` header that makes a remote call a child of this span
+   */
+  traceparent(): string {
+    return formatTraceparent(this.context);
+  }
+
+  toJSON(): SpanData {
+    const endTime = this.endTime ?? Date.now();
+
+    return {
+      traceId: this.context.traceId,
+      spanId: this.context.spanId,
+      parentSpanId: this.parentSpanId,
+      name: this.name,
+      startTime: this.startTime,
+      endTime,
+      duration: endTime - this.startTime,
+      attributes: { ...this.attributes },
+      status: this.status,
+      statusMessage: this.statusMessage,
+      events: [...this.events],
+    };
+  }
+}
+
+/**
+ * Tracer configuration
+ */
+export interface TracerConfig {
+  serviceName?: string;
+  exporter?: SpanExporter;
+}
+
+/**
+ * Tracer - Starts spans and hands sampled ones to the exporter when they end
+ *
+ * Spans without a parent start a new, sampled trace. Child spans inherit
+ * the parent's trace id, flags and trace state, so an unsampled remote
+ * parent keeps the whole execution out of the exporter.
+ */
+export class Tracer {
+  constructor(private config: TracerConfig = {}) {}
+
+  /**
+   * Start a span, optionally as the child of a local or remote span
+   */
+  startSpan(
+    name: string,
+    options: { parent?: SpanContext; attributes?: Record<string, SpanAttributeValue | undefined> } = {}
+  ): Span {
+    const parent = options.parent;
+    const context: SpanContext = {
+      traceId: parent?.traceId ?? randomBytes(16).toString('hex'),
+      spanId: randomBytes(8).toString('hex'),
+      traceFlags: parent?.traceFlags ?? 1,
+      traceState: parent?.traceState,
+    };
+
+    const span = new Span(name, context, parent?.spanId, finished => this.export(finished));
+    return span.setAttributes(options.attributes || {});
+  }
+
+  /**
+   * Wait for the exporter to write every finished span
+   */
+  async flush(): Promise<void> {
+    await this.config.exporter?.flush?.();
+  }
+
+  private export(span: Span): void {
+    // Only sampled traces are exported
+    if (!this.config.exporter || (span.context.traceFlags & 1) === 0) {
+      return;
+    }
+
+    this.config.exporter.export({ ...span.toJSON(), service: this.config.serviceName });
+  }
+}
+
+/**
+ * In-memory exporter - Keeps finished spans for tests
+ */
+export class InMemorySpanExporter implements SpanExporter {
+  private spans: SpanData[] = [];
+
+  export(span: SpanData): void {
+    this.spans.push(span);
+  }
+
+  async flush(): Promise<void> {}
+
+  /**
+   * Get every finished span, in the order they ended
+   */
+  getFinishedSpans(): SpanData[] {
+    return [...this.spans];
+  }
+
+  /**
+   * Drop all recorded spans
+   */
+  reset(): void {
+    this.spans = [];
+  }
+}
+
+/**
+ * File exporter - Appends one JSON span per line
+ */
+export class FileSpanExporter implements SpanExporter {
+  private writer: JsonLinesWriter;
+
+  constructor(path: string) {
+    this.writer = new JsonLinesWriter(path);
+  }
+
+  export(span: SpanData): void {
+    this.writer.append(span);
+  }
+
+  flush(): Promise<void> {
+    return this.writer.flush();
+  }
+}
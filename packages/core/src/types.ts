@@ -2,6 +2,10 @@
  * Core Types for Agent Runtime
  */
 
+import { AgentError } from './errors.js';
+import type { Guardrail } from './guardrails.js';
+import type { JSONSchema } from './schema.js';
+
 /**
  * Message role in conversation
  */
@@ -15,6 +19,7 @@ export interface Message {
   content: string;
   name?: string;
   toolCallId?: string;
+  toolCalls?: ToolCall[];
   timestamp?: number;
   metadata?: Record<string, unknown>;
 }
@@ -30,15 +35,33 @@ export interface ToolCall {
   error?: string;
 }
 
+/**
+ * Partial tool call emitted while streaming
+ */
+export interface ToolCallDelta {
+  index: number;
+  id?: string;
+  name?: string;
+  arguments?: string;
+}
+
 /**
  * Stream chunk for streaming responses
+ *
+ * `tool_call_delta` chunks carry raw fragments as they arrive; a
+ * `tool_call` chunk follows with the assembled call and its result.
+ * An `error` chunk carries the message and the AgentError that ended
+ * the stream as `failure`.
  */
 export interface StreamChunk {
-  type: 'content' | 'tool_call' | 'done' | 'error';
+  type: 'content' | 'tool_call_delta' | 'tool_call' | 'done' | 'error';
   content?: string;
+  toolCallDelta?: ToolCallDelta;
   toolCall?: ToolCall;
   error?: string;
+  failure?: AgentError;
   usage?: TokenUsage;
+  parsed?: unknown;
 }
 
 /**
@@ -64,8 +87,12 @@ export type ExecutionStatus =
 
 /**
  * Execution result
+ *
+ * Failed, timed-out and cancelled executions keep the error that ended
+ * them as `failure`; errors that are not AgentErrors are wrapped.
+ * Executions with a `responseSchema` set `parsed` to the validated output.
  */
-export interface ExecutionResult {
+export interface ExecutionResult<T = unknown> {
   id: string;
   status: ExecutionStatus;
   output: string;
@@ -74,6 +101,9 @@ export interface ExecutionResult {
   usage: TokenUsage;
   duration: number;
   error?: string;
+  errorCode?: string;
+  failure?: AgentError;
+  parsed?: T;
   metadata?: Record<string, unknown>;
 }
 
@@ -95,6 +125,13 @@ export interface AgentOptions {
 
 /**
  * Execution configuration
+ *
+ * `cache: false` bypasses the response cache for this execution.
+ * `guardrails` run after the runtime's own guardrails.
+ * `responseSchema` asks for JSON output matching the schema; invalid
+ * output gets up to `repairAttempts` (default 2) turns to be corrected.
+ * `history` is placed before the task, after any conversation memory,
+ * and is not saved to memory.
  */
 export interface ExecutionConfig {
   userId?: string;
@@ -103,6 +140,12 @@ export interface ExecutionConfig {
   timeout?: number;
   maxIterations?: number;
   stream?: boolean;
+  cache?: boolean;
+  guardrails?: Guardrail[];
+  history?: Message[];
+  responseSchema?: JSONSchema;
+  repairAttempts?: number;
+  signal?: AbortSignal;
   metadata?: Record<string, unknown>;
 }
 
@@ -0,0 +1,525 @@
+/**
+ * Workflow - Declarative multi-step pipelines of agent, tool and function steps
+ */
+
+import { EventEmitter } from 'events';
+import { AgentRuntime } from './runtime.js';
+import { ToolRegistry } from './tools.js';
+import { RetryConfig, RetryPolicy, raceAbort } from './resilience.js';
+import { AgentError, AgentTimeoutError, AgentValidationError } from './errors.js';
+import { addUsage } from './pricing.js';
+import { DEFAULT_CONFIG } from './config.js';
+import { ExecutionConfig, TokenUsage } from './types.js';
+
+export type StepStatus = 'completed' | 'failed' | 'skipped';
+
+/**
+ * What steps can see: the workflow input and every step settled so far
+ *
+ * Templates such as `{{input.text}}` or `{{steps.extract.output}}` are
+ * resolved against this object.
+ */
+export interface WorkflowContext {
+  runId: string;
+  input: unknown;
+  steps: Record<string, StepRecord>;
+  signal: AbortSignal;
+}
+
+/**
+ * A dependency on another step, optionally only taken when `when` is true
+ */
+export interface WorkflowEdge {
+  step: string;
+  when?: (context: WorkflowContext) => boolean;
+}
+
+/**
+ * Options shared by every kind of step
+ *
+ * A step runs once all its dependencies have settled. With `join: 'all'`
+ * (the default) every incoming edge must be taken, meaning its step
+ * completed and its condition held; with `join: 'any'` one is enough.
+ * Otherwise the step is skipped. `retry` is merged over the workflow's
+ * retry config and `timeout` (ms) applies to each attempt.
+ */
+interface StepOptions {
+  id: string;
+  dependsOn?: Array<string | WorkflowEdge>;
+  join?: 'all' | 'any';
+  retry?: Partial<RetryConfig>;
+  timeout?: number;
+}
+
+/**
+ * Run a templated task on an agent runtime
+ *
+ * The step output is `parsed` when `config.responseSchema` is set and
+ * the text output otherwise.
+ */
+export interface AgentStep extends StepOptions {
+  type: 'agent';
+  task: string;
+  runtime?: AgentRuntime;
+  config?: Omit<ExecutionConfig, 'signal'>;
+}
+
+/**
+ * Invoke a registered tool with templated arguments
+ */
+export interface ToolStep extends StepOptions {
+  type: 'tool';
+  tool: string;
+  arguments?: Record<string, unknown>;
+}
+
+/**
+ * Run a plain function
+ */
+export interface FunctionStep extends StepOptions {
+  type: 'function';
+  run: (context: WorkflowContext) => unknown;
+}
+
+export type WorkflowStep = AgentStep | ToolStep | FunctionStep;
+
+/**
+ * Workflow definition
+ *
+ * `runtime` runs agent steps without a runtime of their own and `tools`
+ * holds the tools for tool steps. `output` names the step whose output is
+ * the run's output; by default it is the last completed step.
+ */
+export interface WorkflowConfig {
+  name?: string;
+  steps: WorkflowStep[];
+  runtime?: AgentRuntime;
+  tools?: ToolRegistry;
+  retry?: Partial<RetryConfig>;
+  output?: string;
+}
+
+/**
+ * What happened to one step
+ *
+ * `input` is the rendered task or tool arguments. `usage` covers every
+ * attempt of an agent step.
+ */
+export interface StepRecord {
+  id: string;
+  type: WorkflowStep['type'];
+  status: StepStatus;
+  input?: unknown;
+  output?: unknown;
+  attempts: number;
+  startedAt?: number;
+  duration: number;
+  usage?: TokenUsage;
+  executionId?: string;
+  error?: string;
+  errorCode?: string;
+  failure?: AgentError;
+}
+
+/**
+ * Step-by-step record of a workflow run, with steps in definition order
+ */
+export interface WorkflowRun {
+  id: string;
+  workflow?: string;
+  status: 'completed' | 'failed';
+  input: unknown;
+  output?: unknown;
+  steps: StepRecord[];
+  usage: TokenUsage;
+  startedAt: number;
+  duration: number;
+  error?: string;
+  errorCode?: string;
+  failure?: AgentError;
+}
+
+/**
+ * Steps are not retried unless they or the workflow ask for it
+ */
+const DEFAULT_STEP_RETRY: RetryConfig = { ...DEFAULT_CONFIG.retry!, maxRetries: 0 };
+
+/**
+ * Workflow - Runs a DAG of steps, in parallel wherever dependencies allow
+ *
+ * The first step to fail fails the run: no further steps start, and the
+ * ones that never ran are recorded as skipped.
+ */
+export class Workflow extends EventEmitter {
+  constructor(private config: WorkflowConfig) {
+    super();
+    this.validate();
+  }
+
+  /**
+   * Run the workflow on an input
+   */
+  async run(input: unknown = {}, options: { signal?: AbortSignal } = {}): Promise<WorkflowRun> {
+    const startedAt = Date.now();
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(options.signal!.reason);
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+    if (options.signal?.aborted) {
+      onAbort();
+    }
+
+    const context: WorkflowContext = {
+      runId: `wf_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      input,
+      steps: {},
+      signal: controller.signal,
+    };
+    const running: Map<string, Promise<void>> = new Map();
+    let failed: StepRecord | undefined;
+
+    this.emit('workflow:start', { runId: context.runId, workflow: this.config.name });
+
+    try {
+      for (;;) {
+        if (!failed && !controller.signal.aborted) {
+          this.schedule(context, running, record => {
+            failed ??= record;
+          });
+        }
+        if (running.size === 0) {
+          break;
+        }
+        await Promise.race(running.values());
+      }
+    } finally {
+      options.signal?.removeEventListener('abort', onAbort);
+    }
+
+    // Steps that never ran because the run stopped early
+    for (const step of this.config.steps) {
+      if (!context.steps[step.id]) {
+        this.settle(context, { id: step.id, type: step.type, status: 'skipped', attempts: 0, duration: 0 });
+      }
+    }
+
+    const steps = this.config.steps.map(step => context.steps[step.id]!);
+    const usage: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+    for (const step of steps) {
+      if (step.usage) {
+        addUsage(usage, step.usage);
+      }
+    }
+
+    const aborted = controller.signal.aborted && !failed;
+    const failure = failed?.failure || (aborted ? toAgentError(controller.signal.reason) : undefined);
+    const outputStep = this.config.output
+      ? context.steps[this.config.output]
+      : [...steps].reverse().find(step => step.status === 'completed');
+
+    const run: WorkflowRun = {
+      id: context.runId,
+      workflow: this.config.name,
+      status: failure ? 'failed' : 'completed',
+      input,
+      output: outputStep?.output,
+      steps,
+      usage,
+      startedAt,
+      duration: Date.now() - startedAt,
+      ...(failure && { error: failure.message, errorCode: failure.code, failure }),
+    };
+
+    this.emit(failure ? 'workflow:error' : 'workflow:complete', { runId: run.id, run });
+    return run;
+  }
+
+  /**
+   * Start every step whose dependencies have settled, skipping those
+   * whose edges were not taken, until nothing more can be decided
+   */
+  private schedule(
+    context: WorkflowContext,
+    running: Map<string, Promise<void>>,
+    onFailure: (record: StepRecord) => void
+  ): void {
+    let changed = true;
+
+    while (changed) {
+      changed = false;
+
+      for (const step of this.config.steps) {
+        if (context.steps[step.id] || running.has(step.id)) {
+          continue;
+        }
+
+        let readiness: 'run' | 'wait' | 'skip';
+        try {
+          readiness = this.readiness(step, context);
+        } catch (error) {
+          // A `when` condition that throws fails the step it guards
+          const failure = toAgentError(error);
+          const record: StepRecord = {
+            id: step.id,
+            type: step.type,
+            status: 'failed',
+            attempts: 0,
+            duration: 0,
+            error: failure.message,
+            errorCode: failure.code,
+            failure,
+          };
+          this.emit('step:error', { runId: context.runId, stepId: step.id, error });
+          this.settle(context, record);
+          onFailure(record);
+          return;
+        }
+        if (readiness === 'wait') {
+          continue;
+        }
+        if (readiness === 'skip') {
+          this.settle(context, { id: step.id, type: step.type, status: 'skipped', attempts: 0, duration: 0 });
+          changed = true;
+          continue;
+        }
+
+        running.set(step.id, this.runStep(step, context).then(record => {
+          running.delete(step.id);
+          this.settle(context, record);
+          if (record.status === 'failed') {
+            onFailure(record);
+          }
+        }));
+      }
+    }
+  }
+
+  /**
+   * Decide whether a step can run, must wait or is skipped
+   */
+  private readiness(step: WorkflowStep, context: WorkflowContext): 'run' | 'wait' | 'skip' {
+    const edges = (step.dependsOn || []).map(toEdge);
+
+    if (edges.some(edge => !context.steps[edge.step])) {
+      return 'wait';
+    }
+    if (edges.length === 0) {
+      return 'run';
+    }
+
+    const taken = edges.map(edge =>
+      context.steps[edge.step]!.status === 'completed' && (!edge.when || edge.when(context)));
+    return (step.join === 'any' ? taken.some(Boolean) : taken.every(Boolean)) ? 'run' : 'skip';
+  }
+
+  /**
+   * Run one step with its retry policy, recording the outcome
+   */
+  private async runStep(step: WorkflowStep, context: WorkflowContext): Promise<StepRecord> {
+    const record: StepRecord = { id: step.id, type: step.type, status: 'completed', attempts: 0, startedAt: Date.now(), duration: 0 };
+    const policy = new RetryPolicy({ ...DEFAULT_STEP_RETRY, ...this.config.retry, ...step.retry });
+
+    this.emit('step:start', { runId: context.runId, stepId: step.id });
+
+    try {
+      record.output = await policy.execute(() => {
+        record.attempts++;
+        return this.attempt(step, context, record);
+      }, {
+        signal: context.signal,
+        onRetry: event => this.emit('step:retry', { runId: context.runId, stepId: step.id, ...event }),
+      });
+      record.duration = Date.now() - record.startedAt!;
+      this.emit('step:complete', { runId: context.runId, stepId: step.id, record });
+    } catch (error) {
+      record.status = 'failed';
+      record.failure = toAgentError(error);
+      record.error = record.failure.message;
+      record.errorCode = record.failure.code;
+      record.duration = Date.now() - record.startedAt!;
+      this.emit('step:error', { runId: context.runId, stepId: step.id, error });
+    }
+
+    return record;
+  }
+
+  /**
+   * Make one attempt at a step, aborting it after the step timeout
+   */
+  private async attempt(step: WorkflowStep, context: WorkflowContext, record: StepRecord): Promise<unknown> {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(context.signal.reason);
+    context.signal.addEventListener('abort', onAbort, { once: true });
+    const timer = step.timeout === undefined ? undefined : setTimeout(
+      () => controller.abort(new AgentTimeoutError(`step ${step.id}`, step.timeout!)),
+      step.timeout
+    );
+
+    try {
+      return await raceAbort(this.invoke(step, { ...context, signal: controller.signal }, record), controller.signal);
+    } finally {
+      clearTimeout(timer);
+      context.signal.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /**
+   * Run the body of a step
+   */
+  private async invoke(step: WorkflowStep, context: WorkflowContext, record: StepRecord): Promise<unknown> {
+    switch (step.type) {
+      case 'agent': {
+        const task = String(renderTemplate(step.task, context));
+        record.input = task;
+
+        const result = await (step.runtime || this.config.runtime)!.execute(task, { ...step.config, signal: context.signal });
+        record.executionId = result.id;
+        record.usage ??= { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+        addUsage(record.usage, result.usage);
+
+        if (result.status !== 'completed') {
+          throw result.failure!;
+        }
+        return step.config?.responseSchema ? result.parsed : result.output;
+      }
+
+      case 'tool': {
+        const args = renderTemplate(step.arguments || {}, context) as Record<string, unknown>;
+        record.input = args;
+
+        return this.config.tools!.invoke(
+          { id: `${context.runId}_${step.id}`, name: step.tool, arguments: args },
+          { executionId: context.runId, signal: context.signal }
+        );
+      }
+
+      case 'function':
+        return step.run(context);
+    }
+  }
+
+  /**
+   * Record a settled step so later steps and templates can see it
+   */
+  private settle(context: WorkflowContext, record: StepRecord): void {
+    context.steps[record.id] = record;
+    if (record.status === 'skipped') {
+      this.emit('step:skipped', { runId: context.runId, stepId: record.id });
+    }
+  }
+
+  /**
+   * Check step ids, dependencies, runtimes and tools, and reject cycles
+   */
+  private validate(): void {
+    const steps = new Map<string, WorkflowStep>();
+
+    for (const step of this.config.steps) {
+      if (steps.has(step.id)) {
+        throw new AgentValidationError(`Step '${step.id}' is defined twice`, 'steps', step.id);
+      }
+      steps.set(step.id, step);
+    }
+
+    for (const step of this.config.steps) {
+      for (const edge of (step.dependsOn || []).map(toEdge)) {
+        if (!steps.has(edge.step)) {
+          throw new AgentValidationError(`Step '${step.id}' depends on unknown step '${edge.step}'`, 'steps', edge.step);
+        }
+      }
+      if (step.type === 'agent' && !step.runtime && !this.config.runtime) {
+        throw new AgentValidationError(`Agent step '${step.id}' has no runtime`, 'runtime', step.id);
+      }
+      if (step.type === 'tool' && !this.config.tools?.has(step.tool)) {
+        throw new AgentValidationError(`Tool step '${step.id}' uses unknown tool '${step.tool}'`, 'tools', step.tool);
+      }
+    }
+
+    if (this.config.output !== undefined && !steps.has(this.config.output)) {
+      throw new AgentValidationError(`Output step '${this.config.output}' does not exist`, 'output', this.config.output);
+    }
+
+    // Depth-first search; a step seen again while still on the path closes a cycle
+    const state = new Map<string, 'visiting' | 'done'>();
+    const visit = (id: string, path: string[]): void => {
+      if (state.get(id) === 'done') {
+        return;
+      }
+      if (state.get(id) === 'visiting') {
+        const cycle = [...path.slice(path.indexOf(id)), id].join(' -> ');
+        throw new AgentValidationError(`Workflow steps form a cycle: ${cycle}`, 'steps', id);
+      }
+
+      state.set(id, 'visiting');
+      for (const edge of (steps.get(id)!.dependsOn || []).map(toEdge)) {
+        visit(edge.step, [...path, id]);
+      }
+      state.set(id, 'done');
+    };
+
+    for (const id of steps.keys()) {
+      visit(id, []);
+    }
+  }
+}
+
+/**
+ * Resolve `{{path}}` references in strings, arrays and plain objects
+ *
+ * A string that is a single reference becomes the referenced value as is;
+ * references inside longer strings are interpolated, with non-strings
+ * JSON-encoded. Referencing a missing step or input field throws
+ * AgentValidationError.
+ */
+export function renderTemplate(template: unknown, scope: object): unknown {
+  if (typeof template === 'string') {
+    const whole = /^\{\{\s*([\w.-]+)\s*\}\}$/.exec(template);
+    if (whole) {
+      return lookup(scope, whole[1]!);
+    }
+
+    return template.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (_match, path: string) => {
+      const value = lookup(scope, path);
+      return typeof value === 'string' ? value : JSON.stringify(value) ?? '';
+    });
+  }
+
+  if (Array.isArray(template)) {
+    return template.map(item => renderTemplate(item, scope));
+  }
+
+  if (typeof template === 'object' && template !== null) {
+    return Object.fromEntries(Object.entries(template).map(([key, value]) => [key, renderTemplate(value, scope)]));
+  }
+
+  return template;
+}
+
+/**
+ * Follow a dotted path; only the last segment may be missing
+ */
+function lookup(scope: object, path: string): unknown {
+  const segments = path.split('.');
+  let current: unknown = scope;
+
+  for (const [index, segment] of segments.entries()) {
+    if (typeof current !== 'object' || current === null) {
+      throw new AgentValidationError(`Template reference '${path}' cannot be resolved`, path);
+    }
+    if (!(segment in current) && index < segments.length - 1) {
+      throw new AgentValidationError(`Template reference '${path}' cannot be resolved`, path);
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+
+  return current;
+}
+
+function toEdge(dependency: string | WorkflowEdge): WorkflowEdge {
+  return typeof dependency === 'string' ? { step: dependency } : dependency;
+}
+
+function toAgentError(error: unknown): AgentError {
+  return error instanceof AgentError
+    ? error
+    : new AgentError(error instanceof Error ? error.message : String(error), 'UNKNOWN_ERROR');
+}
@@ -0,0 +1,152 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Response Cache Tests
+ */
+
+import { mkdtempSync, readdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ResponseCache, LRUCacheBackend, FileCacheBackend, cacheKey, CacheKeyInput } from '../src/cache.js';
+import { AgentRuntime } from '../src/runtime.js';
+import { MockProvider, ModelResponse } from '../src/providers.js';
+import { ToolRegistry } from '../src/tools.js';
+
+const response: ModelResponse = {
+  model: 'gpt-4o',
+  content: 'Paris',
+  toolCalls: [],
+  finishReason: 'stop',
+  usage: { promptTokens: 10, completionTokens: 1, totalTokens: 11 },
+};
+
+const input: CacheKeyInput = {
+  messages: [{ role: 'user', content: 'Capital of France?', timestamp: 1 }],
+  options: { model: 'gpt-4o', temperature: 0, maxTokens: 100 },
+};
+
+describe('cacheKey', () => {
+  it('should ignore timestamps, metadata and key order', () => {
+    const same: CacheKeyInput = {
+      messages: [{ role: 'user', content: 'Capital of France?', timestamp: 2, metadata: { source: 'eval' } }],
+      options: { maxTokens: 100, temperature: 0, model: 'gpt-4o' },
+    };
+
+    expect(cacheKey(same)).toBe(cacheKey(input));
+    expect(cacheKey(input)).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('should change with the messages, model and sampling options', () => {
+    const key = cacheKey(input);
+
+    expect(cacheKey({ ...input, messages: [{ role: 'user', content: 'Capital of Spain?' }] })).not.toBe(key);
+    expect(cacheKey({ ...input, options: { ...input.options, model: 'gpt-4o-mini' } })).not.toBe(key);
+    expect(cacheKey({ ...input, options: { ...input.options, topP: 0.5 } })).not.toBe(key);
+  });
+});
+
+describe('ResponseCache', () => {
+  it('should evict the least recently used entry', async () => {
+    const backend = new LRUCacheBackend(2);
+    const cache = new ResponseCache({ backend });
+
+    await cache.set('a', response);
+    await cache.set('b', response);
+    await cache.get('a');
+    await cache.set('c', response);
+
+    expect(await cache.get('a')).toEqual(response);
+    expect(await cache.get('b')).toBeUndefined();
+    expect(backend.size).toBe(2);
+  });
+
+  it('should expire entries after the TTL', async () => {
+    const cache = new ResponseCache({ ttl: 10 });
+
+    await cache.set('a', response);
+    expect(await cache.get('a')).toEqual(response);
+
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(await cache.get('a')).toBeUndefined();
+  });
+
+  it('should only cache deterministic requests by default', () => {
+    expect(new ResponseCache().isCacheable({ temperature: 0 })).toBe(true);
+    expect(new ResponseCache().isCacheable({ temperature: 0.7 })).toBe(false);
+    expect(new ResponseCache({ mode: 'always' }).isCacheable({ temperature: 0.7 })).toBe(true);
+  });
+
+  it('should persist entries as files', async () => {
+    const directory = mkdtempSync(join(tmpdir(), 'agent-cache-'));
+
+    try {
+      await new ResponseCache({ backend: new FileCacheBackend(directory) }).set('abc', {
+        ...response,
+        rateLimit: { remainingRequests: 5 },
+      });
+
+      expect(readdirSync(directory)).toEqual(['abc.json']);
+      expect(await new ResponseCache({ backend: new FileCacheBackend(directory) }).get('abc')).toEqual(response);
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('AgentRuntime response cache', () => {
+  it('should serve repeated deterministic executions from the cache', async () => {
+    const provider = new MockProvider();
+    const runtime = new AgentRuntime({ provider, temperature: 0, cache: { enabled: true } });
+
+    const first = await runtime.execute('Capital of France?');
+    const second = await runtime.execute('Capital of France?');
+
+    expect(provider.requests).toHaveLength(1);
+    expect(second.output).toBe(first.output);
+    expect(first.metadata).toMatchObject({ cached: false, cacheHits: 0 });
+    expect(second.metadata).toMatchObject({ cached: true, cacheHits: 1 });
+    expect(second.usage.totalTokens).toBe(0);
+    expect(runtime.getMetrics().getMetrics().cache).toEqual({ hits: 1, misses: 1 });
+    expect(runtime.getMetrics().getPrometheusMetrics()).toContain('agent_cache_lookups_total{result="hit"} 1');
+  });
+
+  it('should replay cached tool calls without sharing state between executions', async () => {
+    const tools = new ToolRegistry().register({
+      name: 'lookup',
+      description: 'Look up an order',
+      parameters: { type: 'object', properties: {} },
+      execute: () => 'shipped',
+    });
+    const provider = new MockProvider({
+      responses: [
+        { toolCalls: [{ id: 'call_1', name: 'lookup', arguments: {} }], finishReason: 'tool_calls' },
+        { content: 'Your order shipped' },
+      ],
+    });
+    const runtime = new AgentRuntime({ provider, tools, temperature: 0, cache: { enabled: true } });
+
+    await runtime.execute('Where is my order?');
+    const replay = await runtime.execute('Where is my order?');
+
+    expect(provider.requests).toHaveLength(2);
+    expect(replay.output).toBe('Your order shipped');
+    expect(replay.toolCalls[0]).toMatchObject({ name: 'lookup', result: 'shipped' });
+    expect(replay.metadata).toMatchObject({ cached: true, cacheHits: 2 });
+  });
+
+  it('should skip non-deterministic settings and per-execution opt-outs', async () => {
+    const provider = new MockProvider();
+    const sampling = new AgentRuntime({ provider, temperature: 0.7, cache: { enabled: true } });
+    const deterministic = new AgentRuntime({ provider, temperature: 0, cache: { enabled: true } });
+
+    await sampling.execute('Hi');
+    await sampling.execute('Hi');
+    await deterministic.execute('Hi', { cache: false });
+    await deterministic.execute('Hi', { cache: false });
+
+    expect(provider.requests).toHaveLength(4);
+    expect(sampling.getMetrics().getMetrics().cache).toEqual({ hits: 0, misses: 0 });
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Agent Config Tests
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AgentConfigBuilder, DEFAULT_CONFIG, mergeConfig, validateConfig } from '../src/config.js';
+import { AgentRuntime } from '../src/runtime.js';
+import { MockProvider } from '../src/providers.js';
+import { AgentValidationError } from '../src/errors.js';
+
+describe('mergeConfig', () => {
+  it('should keep nested defaults when overriding one field', () => {
+    const config = mergeConfig(DEFAULT_CONFIG, { retry: { maxRetries: 1 } });
+
+    expect(config.retry).toEqual({ ...DEFAULT_CONFIG.retry, maxRetries: 1 });
+    expect(DEFAULT_CONFIG.retry?.maxRetries).toBe(3);
+  });
+
+  it('should replace class instances and arrays instead of merging them', () => {
+    const provider = new MockProvider();
+    const config = mergeConfig(
+      { ...DEFAULT_CONFIG, stopSequences: ['a', 'b'] },
+      { provider, stopSequences: ['c'] }
+    );
+
+    expect(config.provider).toBe(provider);
+    expect(config.stopSequences).toEqual(['c']);
+  });
+
+  it('should be used by the runtime constructor', () => {
+    const runtime = new AgentRuntime({ circuitBreaker: { enabled: false } });
+
+    expect(runtime.getConfig().circuitBreaker).toEqual({
+      ...DEFAULT_CONFIG.circuitBreaker,
+      enabled: false,
+    });
+  });
+});
+
+describe('validateConfig', () => {
+  const invalid = (overrides: Record<string, unknown>): AgentValidationError => {
+    try {
+      validateConfig(mergeConfig(DEFAULT_CONFIG, overrides));
+    } catch (error) {
+      return error as AgentValidationError;
+    }
+    throw new Error('expected validation to fail');
+  };
+
+  it('should accept the defaults', () => {
+    expect(() => validateConfig(DEFAULT_CONFIG)).not.toThrow();
+  });
+
+  it('should report the field path of nested errors', () => {
+    const error = invalid({ retry: { factor: 0.5 } });
+
+    expect(error).toBeInstanceOf(AgentValidationError);
+    expect(error.field).toBe('retry.factor');
+    expect(error.value).toBe(0.5);
+  });
+
+  it('should validate fields beyond temperature, maxTokens and maxIterations', () => {
+    expect(invalid({ topP: 1.5 }).field).toBe('topP');
+    expect(invalid({ timeout: 0 }).field).toBe('timeout');
+    expect(invalid({ stopSequences: [1] }).field).toBe('stopSequences');
+    expect(invalid({ circuitBreaker: { failureThreshold: 0 } }).field).toBe('circuitBreaker.failureThreshold');
+    expect(invalid({ metrics: { labels: { env: 1 } } }).field).toBe('metrics.labels');
+  });
+
+  it('should check retry delays against each other', () => {
+    expect(invalid({ retry: { baseDelay: 500, maxDelay: 100 } }).field).toBe('retry.maxDelay');
+  });
+
+  it('should validate fallback models and triggers', () => {
+    expect(invalid({ fallbacks: [{ options: {} }] }).field).toBe('fallbacks');
+    expect(invalid({ fallbackOn: ['server-error', 'always'] }).field).toBe('fallbackOn');
+    expect(() => validateConfig(mergeConfig(DEFAULT_CONFIG, {
+      fallbacks: [{ model: 'backup', options: { temperature: 0 } }],
+      fallbackOn: ['rate-limit'],
+    }))).not.toThrow();
+  });
+});
+
+describe('AgentConfigBuilder', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'agent-config-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  const writeConfig = (values: unknown): string => {
+    const path = join(directory, 'agent.json');
+    writeFileSync(path, JSON.stringify(values));
+    return path;
+  };
+
+  it('should layer file, env and overrides over defaults', () => {
+    const path = writeConfig({ model: 'file-model', temperature: 0.1, retry: { maxRetries: 5 } });
+
+    const builder = new AgentConfigBuilder()
+      .fromFile(path)
+      .fromEnv({ AGENT_TEMPERATURE: '0.3', AGENT_RETRY_BASE_DELAY: '250', AGENT_METRICS_ENABLED: 'false' })
+      .override({ maxTokens: 1024 });
+    const config = builder.build();
+
+    expect(config.model).toBe('file-model');
+    expect(config.temperature).toBe(0.3);
+    expect(config.maxTokens).toBe(1024);
+    expect(config.retry).toEqual({ maxRetries: 5, baseDelay: 250, maxDelay: 30000, factor: 2 });
+    expect(config.metrics?.enabled).toBe(false);
+
+    const sources = builder.getSources();
+    expect(sources.model).toBe(`file:${path}`);
+    expect(sources.temperature).toBe('env:AGENT_TEMPERATURE');
+    expect(sources['retry.baseDelay']).toBe('env:AGENT_RETRY_BASE_DELAY');
+    expect(sources.maxTokens).toBe('override');
+    expect(sources['retry.maxDelay']).toBe('default');
+  });
+
+  it('should parse list and label env variables', () => {
+    const config = new AgentConfigBuilder()
+      .fromEnv({
+        AGENT_STOP_SEQUENCES: 'END, STOP',
+        AGENT_METRICS_LABELS: 'service=api,env=prod',
+        AGENT_FALLBACKS: 'backup-a,backup-b',
+      })
+      .build();
+
+    expect(config.stopSequences).toEqual(['END', 'STOP']);
+    expect(config.fallbacks).toEqual([{ model: 'backup-a' }, { model: 'backup-b' }]);
+    expect(config.metrics?.labels).toEqual({ service: 'api', env: 'prod' });
+  });
+
+  it('should reject malformed env values', () => {
+    expect(() => new AgentConfigBuilder().fromEnv({ AGENT_MAX_TOKENS: 'lots' }))
+      .toThrow(AgentValidationError);
+  });
+
+  it('should read logging settings and reject invalid redaction patterns', () => {
+    const config = new AgentConfigBuilder()
+      .fromEnv({ AGENT_LOGGING_ENABLED: 'true', AGENT_LOGGING_REDACT_PATTERNS: 'acct-\\d+,ref-[a-z]+' })
+      .build();
+
+    expect(config.logging).toEqual({ enabled: true, level: 'info', redact: { patterns: ['acct-\\d+', 'ref-[a-z]+'] } });
+    expect(() => new AgentConfigBuilder().fromEnv({ AGENT_LOGGING_REDACT_PATTERNS: '(' }).build())
+      .toThrow(/logging.redact.patterns/);
+  });
+
+  it('should reject unknown fields and invalid JSON in files', () => {
+    expect(() => new AgentConfigBuilder().fromFile(writeConfig({ temprature: 1 })))
+      .toThrow(/Unknown config field 'temprature'/);
+
+    const broken = join(directory, 'broken.json');
+    writeFileSync(broken, '{');
+    expect(() => new AgentConfigBuilder().fromFile(broken)).toThrow(AgentValidationError);
+  });
+
+  it('should skip missing optional files', () => {
+    const config = new AgentConfigBuilder()
+      .fromFile(join(directory, 'missing.json'), { optional: true })
+      .build();
+
+    expect(config).toEqual(DEFAULT_CONFIG);
+  });
+
+  it('should validate the merged result on build', () => {
+    const builder = new AgentConfigBuilder().override({ maxIterations: 0 });
+
+    expect(() => builder.build()).toThrow(AgentValidationError);
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Guardrail Tests
+ */
+
+import {
+  BannedContentGuardrail,
+  PiiGuardrail,
+  ClassifierGuardrail,
+  runGuardrails,
+  Guardrail,
+  GuardrailContext,
+  GuardrailTrigger,
+} from '../src/guardrails.js';
+import { AgentRuntime } from '../src/runtime.js';
+import { MockProvider } from '../src/providers.js';
+import { AgentMemory } from '../src/memory.js';
+import { AgentGuardrailError } from '../src/errors.js';
+
+const input: GuardrailContext = { stage: 'input', executionId: 'exec_1', config: {} };
+
+describe('BannedContentGuardrail', () => {
+  it('should block whole-word matches case-insensitively', () => {
+    const guardrail = new BannedContentGuardrail(['launch codes', 'c++']);
+
+    expect(guardrail.check('Share the Launch Codes')).toEqual({ action: 'block', reason: 'Contains 1 banned term' });
+    expect(guardrail.check('relaunch codesign')).toEqual({ action: 'allow' });
+  });
+
+  it('should mask matches in redact mode', () => {
+    const guardrail = new BannedContentGuardrail(['secret'], { action: 'redact' });
+
+    expect(guardrail.check('secret plans, SECRET base')).toEqual({
+      action: 'redact',
+      text: '[REDACTED] plans, [REDACTED] base',
+      reason: 'Contains 2 banned terms',
+    });
+  });
+});
+
+describe('PiiGuardrail', () => {
+  it('should redact every built-in PII type', () => {
+    const guardrail = new PiiGuardrail({ action: 'redact' });
+    const decision = guardrail.check(
+      'Mail jane@example.com or call (555) 123-4567 from 10.0.0.1; card 4111 1111 1111 1111, SSN 123-45-6789'
+    );
+
+    expect(decision).toEqual({
+      action: 'redact',
+      text: 'Mail [REDACTED_EMAIL] or call [REDACTED_PHONE] from [REDACTED_IP_ADDRESS]; card [REDACTED_CREDIT_CARD], SSN [REDACTED_SSN]',
+      reason: 'Contains PII: email, creditCard, ssn, phone, ipAddress',
+    });
+  });
+
+  it('should use only the selected detectors and custom patterns', () => {
+    const guardrail = new PiiGuardrail({ detectors: ['ssn'], patterns: { employeeId: /EMP-\d{5}/ } });
+
+    expect(guardrail.check('jane@example.com')).toEqual({ action: 'allow' });
+    expect(guardrail.check('badge EMP-12345')).toEqual({ action: 'block', reason: 'Contains PII: employeeId' });
+  });
+});
+
+describe('runGuardrails', () => {
+  it('should pass rewritten text along and skip other stages', async () => {
+    const upper: Guardrail = {
+      name: 'upper',
+      stages: ['input'],
+      check: text => ({ action: 'rewrite', text: text.toUpperCase(), reason: 'Normalized' }),
+    };
+    const outputOnly = new ClassifierGuardrail('never', () => true, { stages: ['output'] });
+    const triggers: GuardrailTrigger[] = [];
+
+    const text = await runGuardrails([upper, outputOnly, new PiiGuardrail({ action: 'redact' })], 'hi bob@example.com', input,
+      trigger => triggers.push(trigger));
+
+    expect(text).toBe('HI [REDACTED_EMAIL]');
+    expect(triggers.map(trigger => [trigger.guardrail, trigger.action])).toEqual([['upper', 'rewrite'], ['pii', 'redact']]);
+  });
+
+  it('should stop at the first block with the classifier reason', async () => {
+    const moderation = new ClassifierGuardrail('moderation', async text => ({
+      flagged: text.includes('attack'),
+      reason: 'Violence',
+    }));
+
+    await expect(runGuardrails([moderation], 'plan the attack', input)).rejects.toMatchObject({
+      code: 'AGENT_GUARDRAIL_BLOCKED',
+      guardrail: 'moderation',
+      stage: 'input',
+      message: "Blocked by guardrail 'moderation' on input: Violence",
+    });
+  });
+});
+
+describe('AgentRuntime guardrails', () => {
+  it('should redact the task before it reaches the model and memory', async () => {
+    const provider = new MockProvider({ responses: [{ content: 'Noted' }] });
+    const memory = new AgentMemory();
+    const runtime = new AgentRuntime({ provider, memory, guardrails: [new PiiGuardrail({ action: 'redact' })] });
+    const events: unknown[] = [];
+    runtime.on('guardrail:triggered', event => events.push(event));
+
+    const result = await runtime.execute('My SSN is 123-45-6789', { conversationId: 'c1' });
+
+    expect(provider.requests[0]!.messages.at(-1)?.content).toBe('My SSN is [REDACTED_SSN]');
+    expect((await memory.load('c1'))[0]?.content).toBe('My SSN is [REDACTED_SSN]');
+    expect(events).toEqual([{
+      executionId: result.id,
+      guardrail: 'pii',
+      stage: 'input',
+      action: 'redact',
+      reason: 'Contains PII: ssn',
+    }]);
+    expect(result.metadata?.guardrails).toHaveLength(1);
+  });
+
+  it('should fail blocked inputs without calling the model', async () => {
+    const provider = new MockProvider();
+    const runtime = new AgentRuntime({ provider, guardrails: [new BannedContentGuardrail(['exploit'])] });
+
+    const result = await runtime.execute('Write an exploit');
+
+    expect(result).toMatchObject({ status: 'failed', errorCode: 'AGENT_GUARDRAIL_BLOCKED' });
+    expect(result.failure).toBeInstanceOf(AgentGuardrailError);
+    expect(provider.requests).toHaveLength(0);
+  });
+
+  it('should check the output with per-execution guardrails', async () => {
+    const runtime = new AgentRuntime({
+      provider: new MockProvider({ responses: [{ content: 'Reach me at ops@example.com' }, { content: 'classified' }] }),
+    });
+
+    const redacted = await runtime.execute('Contact?', { guardrails: [new PiiGuardrail({ action: 'redact', stages: ['output'] })] });
+    const blocked = await runtime.execute('Status?', { guardrails: [new ClassifierGuardrail('leak', text => text === 'classified')] });
+
+    expect(redacted.output).toBe('Reach me at [REDACTED_EMAIL]');
+    expect(redacted.messages.at(-1)?.content).toBe('Reach me at [REDACTED_EMAIL]');
+    expect(blocked).toMatchObject({ status: 'failed', errorCode: 'AGENT_GUARDRAIL_BLOCKED' });
+  });
+
+  it('should end a stream with an error when the output is blocked', async () => {
+    const runtime = new AgentRuntime({
+      provider: new MockProvider({ responses: [{ content: 'forbidden words' }] }),
+      guardrails: [new BannedContentGuardrail(['forbidden'], { stages: ['output'] })],
+    });
+    const chunks = [];
+
+    for await (const chunk of runtime.stream('Say it')) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks.at(-1)).toMatchObject({ type: 'error', failure: expect.any(AgentGuardrailError) });
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Agent Memory Tests
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AgentMemory, FileMemoryBackend, InMemoryBackend, MemoryBackend } from '../src/memory.js';
+import { AgentRuntime } from '../src/runtime.js';
+import { MockProvider } from '../src/providers.js';
+import { AgentMemoryError } from '../src/errors.js';
+import { Message } from '../src/types.js';
+
+const turn = (content: string): Message[] => [
+  { role: 'user', content },
+  { role: 'assistant', content: `re: ${content}` },
+];
+
+describe('AgentMemory', () => {
+  it('should append and load history per conversation', async () => {
+    const memory = new AgentMemory();
+
+    await memory.append('a', turn('one'));
+    await memory.append('b', turn('other'));
+    await memory.append('a', turn('two'));
+
+    const history = await memory.load('a');
+    expect(history.map(m => m.content)).toEqual(['one', 're: one', 'two', 're: two']);
+  });
+
+  it('should keep the last N messages', async () => {
+    const memory = new AgentMemory({ window: { type: 'messages', maxMessages: 3 } });
+
+    await memory.append('a', [...turn('one'), ...turn('two')]);
+
+    const history = await memory.load('a');
+    expect(history.map(m => m.content)).toEqual(['re: one', 'two', 're: two']);
+  });
+
+  it('should keep messages within a token budget', async () => {
+    const memory = new AgentMemory({ window: { type: 'tokens', maxTokens: 5 } });
+
+    await memory.append('a', [
+      { role: 'user', content: 'x'.repeat(40) },
+      { role: 'assistant', content: 'y'.repeat(8) },
+      { role: 'user', content: 'z'.repeat(8) },
+    ]);
+
+    const history = await memory.load('a');
+    expect(history.map(m => m.content.length)).toEqual([8, 8]);
+  });
+
+  it('should not start a window on an orphaned tool result', async () => {
+    const memory = new AgentMemory({ window: { type: 'messages', maxMessages: 2 } });
+
+    await memory.append('a', [
+      { role: 'assistant', content: '', toolCalls: [{ id: 'c1', name: 't', arguments: {} }] },
+      { role: 'tool', content: '{}', toolCallId: 'c1' },
+      { role: 'assistant', content: 'done' },
+    ]);
+
+    const history = await memory.load('a');
+    expect(history.map(m => m.role)).toEqual(['assistant']);
+  });
+
+  it('should wrap backend failures in AgentMemoryError', async () => {
+    const failing: MemoryBackend = {
+      load: () => Promise.reject(new Error('disk gone')),
+      append: () => Promise.reject(new Error('disk full')),
+      clear: () => Promise.resolve(),
+    };
+    const memory = new AgentMemory({ backend: failing });
+
+    await expect(memory.load('a')).rejects.toThrow(AgentMemoryError);
+    await expect(memory.append('a', turn('x'))).rejects.toThrow('disk full');
+  });
+});
+
+describe('FileMemoryBackend', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'agent-memory-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should persist conversations as JSONL', async () => {
+    const backend = new FileMemoryBackend(directory);
+
+    await backend.append('user/42', turn('hello'));
+    await backend.append('user/42', turn('again'));
+
+    const reloaded = new FileMemoryBackend(directory);
+    expect((await reloaded.load('user/42')).map(m => m.content))
+      .toEqual(['hello', 're: hello', 'again', 're: again']);
+
+    await reloaded.clear('user/42');
+    expect(await reloaded.load('user/42')).toEqual([]);
+  });
+
+  it('should surface corrupt files as AgentMemoryError', async () => {
+    writeFileSync(join(directory, 'broken.jsonl'), '{not json}\n');
+    const memory = new AgentMemory({ backend: new FileMemoryBackend(directory) });
+
+    await expect(memory.load('broken')).rejects.toThrow(AgentMemoryError);
+  });
+});
+
+describe('AgentRuntime conversations', () => {
+  it('should load prior turns and append the new one', async () => {
+    const backend = new InMemoryBackend();
+    const provider = new MockProvider();
+    const runtime = new AgentRuntime({
+      provider,
+      memory: new AgentMemory({ backend }),
+      metrics: { enabled: false },
+      circuitBreaker: { enabled: false },
+    });
+
+    await runtime.execute('first', { conversationId: 'conv-1' });
+    const second = await runtime.execute('second', { conversationId: 'conv-1' });
+
+    expect(provider.requests[1]?.messages.map(m => m.content)).toEqual([
+      'You are a helpful AI assistant.',
+      'first',
+      'Processed: first',
+      'second',
+    ]);
+    expect(second.messages).toHaveLength(5);
+    expect(await backend.load('conv-1')).toHaveLength(4);
+  });
+
+  it('should fail the execution when history cannot be loaded', async () => {
+    const runtime = new AgentRuntime({
+      provider: new MockProvider(),
+      memory: new AgentMemory({
+        backend: {
+          load: () => Promise.reject(new Error('unavailable')),
+          append: () => Promise.resolve(),
+          clear: () => Promise.resolve(),
+        },
+      }),
+      metrics: { enabled: false },
+      circuitBreaker: { enabled: false },
+    });
+
+    const result = await runtime.execute('hi', { conversationId: 'conv-1' });
+
+    expect(result.status).toBe('failed');
+    expect(result.error).toContain('unavailable');
+  });
+});
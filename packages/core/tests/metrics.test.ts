@@ -0,0 +1,150 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Metrics Tests
+ */
+
+import { AgentMetrics, Histogram, MetricCollector } from '../src/metrics.js';
+import { AgentRuntime } from '../src/runtime.js';
+import { MockProvider } from '../src/providers.js';
+import { AgentModelError } from '../src/errors.js';
+import { ExecutionResult } from '../src/types.js';
+
+function result(overrides: Partial<ExecutionResult> = {}): ExecutionResult {
+  return {
+    id: 'exec_1',
+    status: 'completed',
+    output: '',
+    toolCalls: [],
+    messages: [],
+    usage: { promptTokens: 100, completionTokens: 50, totalTokens: 150 },
+    duration: 300,
+    metadata: { model: 'gpt-4o' },
+    ...overrides,
+  };
+}
+
+describe('Histogram', () => {
+  it('should keep cumulative bucket counts per label set', () => {
+    const histogram = new Histogram([1, 0.5]);
+
+    histogram.observe(0.25, { model: 'a' });
+    histogram.observe(0.75, { model: 'a' });
+    histogram.observe(3, { model: 'b' });
+
+    expect(histogram.samples('h').filter(s => s.labels.model === 'a')).toEqual([
+      { name: 'h_bucket', labels: { model: 'a', le: '0.5' }, value: 1 },
+      { name: 'h_bucket', labels: { model: 'a', le: '1' }, value: 2 },
+      { name: 'h_bucket', labels: { model: 'a', le: '+Inf' }, value: 2 },
+      { name: 'h_sum', labels: { model: 'a' }, value: 1 },
+      { name: 'h_count', labels: { model: 'a' }, value: 2 },
+    ]);
+  });
+});
+
+describe('AgentMetrics', () => {
+  it('should export execution histograms with model, status and error code labels', () => {
+    const metrics = new AgentMetrics(undefined, { duration: [0.5, 1] });
+
+    metrics.recordExecution(result());
+    metrics.recordExecution(result({ status: 'failed', errorCode: 'AGENT_MODEL_ERROR', metadata: undefined }), 'gpt-4o');
+
+    const text = metrics.getPrometheusMetrics();
+    expect(text).toContain('# TYPE agent_execution_duration_seconds histogram');
+    expect(text).toContain(
+      'agent_execution_duration_seconds_bucket{model="gpt-4o",status="completed",error_code="",le="0.5"} 1'
+    );
+    expect(text).toContain(
+      'agent_execution_duration_seconds_count{model="gpt-4o",status="failed",error_code="AGENT_MODEL_ERROR"} 1'
+    );
+    expect(text).toContain('agent_tokens_per_request_sum{model="gpt-4o",status="completed",error_code=""} 150');
+  });
+
+  it('should record time to first token and provider attempt latency', () => {
+    const metrics = new AgentMetrics();
+
+    metrics.recordExecution(result({ metadata: { model: 'm', timeToFirstToken: 120 } }));
+    metrics.recordAttempt('m', 80, 'AGENT_RATE_LIMIT');
+
+    const text = metrics.getPrometheusMetrics();
+    expect(text).toContain('agent_time_to_first_token_seconds_sum{model="m",status="completed",error_code=""} 0.12');
+    expect(text).toContain(
+      'agent_provider_attempt_duration_seconds_count{model="m",status="error",error_code="AGENT_RATE_LIMIT"} 1'
+    );
+  });
+
+  it('should escape label values', () => {
+    const metrics = new AgentMetrics({ service: 'a "quoted" \\ path\nnext' });
+
+    expect(metrics.getPrometheusMetrics()).toContain('service="a \\"quoted\\" \\\\ path\\nnext"');
+  });
+
+  it('should name counters for each exposition format', () => {
+    const metrics = new AgentMetrics();
+    metrics.recordExecution(result());
+
+    const prometheus = metrics.getPrometheusMetrics();
+    const openMetrics = metrics.getPrometheusMetrics('openmetrics');
+
+    expect(prometheus).toContain('# TYPE agent_executions_total counter');
+    expect(prometheus).not.toContain('# EOF');
+    expect(openMetrics).toContain('# TYPE agent_executions counter');
+    expect(openMetrics).toContain('agent_executions_total{status="total"} 1');
+    expect(openMetrics).toContain('le="1.0"');
+    expect(openMetrics.endsWith('# EOF')).toBe(true);
+  });
+});
+
+describe('MetricCollector', () => {
+  it('should write each family once with an agent label', () => {
+    const collector = new MetricCollector();
+    const first = new AgentMetrics();
+    const second = new AgentMetrics();
+    first.recordExecution(result());
+    second.recordExecution(result());
+    collector.register('first', first);
+    collector.register('second', second);
+
+    const text = collector.getAllPrometheusMetrics();
+
+    expect(text.match(/# TYPE agent_executions_total counter/g)).toHaveLength(1);
+    expect(text.match(/# HELP agent_execution_duration_seconds /g)).toHaveLength(1);
+    expect(text).toContain('agent_executions_total{agent="first",status="total"} 1');
+    expect(text).toContain('agent_executions_total{agent="second",status="total"} 1');
+    expect(text).not.toContain('# Agent:');
+  });
+});
+
+describe('AgentRuntime metrics', () => {
+  it('should label failed executions with the configured model and error code', async () => {
+    const runtime = new AgentRuntime({
+      provider: new MockProvider({ handler: () => Promise.reject(new AgentModelError('bad', 'mock', 400)) }),
+      model: 'gpt-4o',
+      metrics: { enabled: true, buckets: { attemptLatency: [1] } },
+    });
+
+    const failed = await runtime.execute('Hi');
+
+    expect(failed.errorCode).toBe('AGENT_MODEL_ERROR');
+    const text = runtime.getMetrics().getPrometheusMetrics();
+    expect(text).toContain(
+      'agent_execution_duration_seconds_count{model="gpt-4o",status="failed",error_code="AGENT_MODEL_ERROR"} 1'
+    );
+    expect(text).toContain(
+      'agent_provider_attempt_duration_seconds_bucket{model="gpt-4o",status="error",error_code="AGENT_MODEL_ERROR",le="1"} 1'
+    );
+  });
+
+  it('should record time to first token for streams', async () => {
+    const runtime = new AgentRuntime({ provider: new MockProvider(), model: 'gpt-4o' });
+
+    for await (const _chunk of runtime.stream('Hi')) {
+      // drain
+    }
+
+    expect(runtime.getMetrics().getPrometheusMetrics())
+      .toContain('agent_time_to_first_token_seconds_count{model="gpt-4o",status="completed",error_code=""} 1');
+  });
+});
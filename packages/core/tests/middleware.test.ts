@@ -0,0 +1,263 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Middleware Tests
+ */
+
+import { MiddlewareChain, Middleware, ModelCallContext } from '../src/middleware.js';
+import { AgentRuntime } from '../src/runtime.js';
+import { MockProvider, ModelProvider, ModelResponse, ModelStreamDelta } from '../src/providers.js';
+import { ToolRegistry, parseToolCall } from '../src/tools.js';
+import { AgentModelError } from '../src/errors.js';
+import { StreamChunk } from '../src/types.js';
+
+const response: ModelResponse = {
+  model: 'gpt-4o',
+  content: 'Hello',
+  toolCalls: [],
+  finishReason: 'stop',
+  usage: { promptTokens: 1, completionTokens: 1, totalTokens: 2 },
+};
+
+const context: ModelCallContext = {
+  executionId: 'exec_1',
+  config: {},
+  iteration: 1,
+  stream: false,
+  messages: [],
+  options: {},
+  state: {},
+};
+
+function lookupTools(): ToolRegistry {
+  return new ToolRegistry().register({
+    name: 'lookup',
+    description: 'Look up an order',
+    parameters: { type: 'object', properties: { id: { type: 'string' } } },
+    execute: (args: { id: string }) => `order ${args.id} shipped`,
+  });
+}
+
+describe('MiddlewareChain', () => {
+  it('should run before hooks in order and after hooks in reverse', async () => {
+    const order: string[] = [];
+    const tracer = (name: string): Middleware => ({
+      name,
+      beforeModelCall: () => { order.push(`before ${name}`); },
+      afterModelCall: () => { order.push(`after ${name}`); },
+    });
+    const chain = new MiddlewareChain().use(tracer('a')).use(tracer('b'));
+
+    await chain.beforeModelCall(context);
+    await chain.afterModelCall(context, response);
+
+    expect(order).toEqual(['before a', 'before b', 'after b', 'after a']);
+    expect(chain.size).toBe(2);
+  });
+
+  it('should stop at the first before hook that returns a response', async () => {
+    const skipped = jest.fn();
+    const chain = new MiddlewareChain()
+      .use({ beforeModelCall: () => response })
+      .use({ beforeModelCall: skipped });
+
+    expect(await chain.beforeModelCall(context)).toBe(response);
+    expect(skipped).not.toHaveBeenCalled();
+  });
+
+  it('should pass each replacement to the next after hook', async () => {
+    const chain = new MiddlewareChain()
+      .use({ afterModelCall: (_context, current) => ({ ...current, content: `${current.content}!` }) })
+      .use({ afterModelCall: (_context, current) => ({ ...current, content: current.content.toUpperCase() }) });
+
+    expect((await chain.afterModelCall(context, response)).content).toBe('HELLO!');
+  });
+});
+
+describe('AgentRuntime middleware', () => {
+  it('should let middleware change the messages and options of a call', async () => {
+    const provider = new MockProvider();
+    const runtime = new AgentRuntime({ provider, temperature: 0.7 }).use({
+      beforeModelCall: call => {
+        call.messages.unshift({ role: 'system', content: 'Be brief' });
+        call.options.temperature = 0;
+      },
+    });
+
+    const result = await runtime.execute('Hi');
+
+    expect(provider.requests[0]!.messages[0]).toMatchObject({ role: 'system', content: 'Be brief' });
+    expect(provider.requests[0]!.options.temperature).toBe(0);
+    expect(result.messages.some(message => message.content === 'Be brief')).toBe(false);
+  });
+
+  it('should short-circuit model calls in execute and stream', async () => {
+    const provider = new MockProvider();
+    const runtime = new AgentRuntime({ provider }).use({
+      beforeModelCall: () => ({ ...response, content: 'From middleware' }),
+    });
+    const chunks = [];
+
+    const result = await runtime.execute('Hi');
+    for await (const chunk of runtime.stream('Hi')) {
+      chunks.push(chunk);
+    }
+
+    expect(result.output).toBe('From middleware');
+    expect(chunks[0]).toEqual({ type: 'content', content: 'From middleware' });
+    expect(chunks.at(-1)).toMatchObject({ type: 'done', usage: { totalTokens: 0 } });
+    expect(provider.requests).toHaveLength(0);
+  });
+
+  it('should not price or charge short-circuited calls to budgets', async () => {
+    const runtime = new AgentRuntime({
+      provider: new MockProvider(),
+      model: 'priced',
+      pricing: { priced: { prompt: 1_000_000, completion: 1_000_000 } },
+      budgets: [{ scope: 'runtime', window: 'daily', limit: 1 }],
+    }).use({ beforeModelCall: () => response });
+
+    const result = await runtime.execute('Hi');
+    for await (const _chunk of runtime.stream('Hi')) {
+      // Drain the stream
+    }
+
+    expect(result.usage).toEqual({ promptTokens: 0, completionTokens: 0, totalTokens: 0 });
+    expect(runtime.getBudgets()[0]?.spent).toBe(0);
+  });
+
+  it('should time calls through shared state and replace responses', async () => {
+    const durations: number[] = [];
+    const runtime = new AgentRuntime({ provider: new MockProvider({ responses: [{ content: 'secret' }] }) }).use({
+      beforeModelCall: call => { call.state.start = Date.now(); },
+      afterModelCall: (call, current) => {
+        durations.push(Date.now() - (call.state.start as number));
+        return { ...current, content: current.content.replace('secret', '[hidden]') };
+      },
+    });
+
+    const result = await runtime.execute('Tell me');
+
+    expect(durations).toHaveLength(1);
+    expect(durations[0]).toBeGreaterThanOrEqual(0);
+    expect(result.output).toBe('[hidden]');
+  });
+
+  it('should rewrite tool arguments and results, and stub tool calls', async () => {
+    const provider = new MockProvider({
+      responses: [
+        {
+          toolCalls: [
+            { id: 'call_1', name: 'lookup', arguments: { id: '1' } },
+            { id: 'call_2', name: 'refund', arguments: {} },
+          ],
+        },
+        { content: 'Done' },
+      ],
+    });
+    const runtime = new AgentRuntime({ provider, tools: lookupTools() }).use({
+      beforeToolCall: call => {
+        if (call.call.name === 'refund') {
+          return { ...call.call, result: 'refunds are disabled' };
+        }
+        call.call.arguments = { id: '42' };
+        return undefined;
+      },
+      afterToolCall: (_call, completed) => ({ ...completed, result: `[${String(completed.result)}]` }),
+    });
+
+    const result = await runtime.execute('Where is my order?');
+
+    expect(result.toolCalls.map(call => call.result)).toEqual(['[order 42 shipped]', '[refunds are disabled]']);
+    expect(provider.requests[1]!.messages.filter(message => message.role === 'tool').map(message => message.content))
+      .toEqual(['[order 42 shipped]', '[refunds are disabled]']);
+  });
+
+  it('should report model and tool errors to onError', async () => {
+    const errors: Array<[string, boolean]> = [];
+    const tools = new ToolRegistry().register({
+      name: 'broken',
+      description: 'Always fails',
+      parameters: { type: 'object', properties: {} },
+      execute: () => { throw new Error('boom'); },
+    });
+    const provider = new MockProvider({
+      responses: [{ toolCalls: [{ id: 'call_1', name: 'broken', arguments: {} }] }],
+      handler: () => { throw new AgentModelError('Provider down'); },
+    });
+    const runtime = new AgentRuntime({ provider, tools, retry: { maxRetries: 0 } }).use({
+      onError: (error, call) => { errors.push([(error as Error).message, 'iteration' in call]); },
+    });
+
+    const result = await runtime.execute('Try it');
+
+    expect(result.status).toBe('failed');
+    expect(errors).toEqual([["Tool 'broken' failed: boom", false], ['Provider down', true]]);
+  });
+
+  it('should run tool middleware for streams', async () => {
+    const provider = new MockProvider({
+      responses: [
+        { toolCalls: [{ id: 'call_1', name: 'lookup', arguments: { id: '1' } }] },
+        { content: 'Shipped' },
+      ],
+    });
+    const runtime = new AgentRuntime({ provider, tools: lookupTools() }).use({
+      afterToolCall: (_call, completed) => ({ ...completed, result: 'redacted' }),
+    });
+    const chunks = [];
+
+    for await (const chunk of runtime.stream('Where is order 1?')) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks.find(chunk => chunk.type === 'tool_call')).toMatchObject({ toolCall: { result: 'redacted' } });
+  });
+
+  it('should pass calls with unparseable arguments through tool middleware in execute and stream', async () => {
+    const execute = jest.fn();
+    const tools = new ToolRegistry().register({
+      name: 'lookup',
+      description: 'Look up an order',
+      parameters: { type: 'object', properties: { id: { type: 'string' } } },
+      execute,
+    });
+    let turn = 0;
+    const provider: ModelProvider = {
+      name: 'truncating',
+      capabilities: () => ({ toolCalling: true, streaming: true, maxContextTokens: 8192 }),
+      complete: async () => turn++ % 2 === 0
+        ? { ...response, toolCalls: [parseToolCall('call_1', 'lookup', '{"id":')], finishReason: 'tool_calls' }
+        : response,
+      async *stream(): AsyncGenerator<ModelStreamDelta> {
+        if (turn++ % 2 === 0) {
+          yield { toolCalls: [{ index: 0, id: 'call_1', name: 'lookup', arguments: '{"id":' }] };
+        } else {
+          yield { content: 'Hello' };
+        }
+      },
+    };
+    const seen: string[] = [];
+    const runtime = new AgentRuntime({ provider, tools }).use({
+      beforeToolCall: call => {
+        seen.push(`before: ${call.call.error}`);
+        return undefined;
+      },
+      afterToolCall: (_call, completed) => ({ ...completed, result: 'checked' }),
+    });
+
+    const result = await runtime.execute('Where is my order?');
+    const chunks: StreamChunk[] = [];
+    for await (const chunk of runtime.stream('Where is my order?')) {
+      chunks.push(chunk);
+    }
+
+    expect(execute).not.toHaveBeenCalled();
+    expect(seen).toHaveLength(2);
+    expect(seen.every(entry => entry.startsWith('before: Invalid tool arguments: '))).toBe(true);
+    expect(result.toolCalls[0]).toMatchObject({ result: 'checked', error: expect.stringMatching(/^Invalid tool arguments/) });
+    expect(chunks.find(chunk => chunk.type === 'tool_call')?.toolCall).toMatchObject({ result: 'checked' });
+  });
+});
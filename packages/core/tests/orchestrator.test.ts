@@ -0,0 +1,197 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Agent Orchestrator Tests
+ */
+
+import { AgentOrchestrator, AgentDefinition, Handoff } from '../src/orchestrator.js';
+import { MockProvider, ModelResponse } from '../src/providers.js';
+import { ToolRegistry } from '../src/tools.js';
+import { AgentError, AgentValidationError } from '../src/errors.js';
+
+/**
+ * Provider whose responses are scripted per agent, by system prompt
+ */
+function scriptedProvider(scripts: Record<string, Array<Partial<ModelResponse>>>): MockProvider {
+  return new MockProvider({
+    handler: request => scripts[request.messages[0]!.content]?.shift() ?? { content: 'Done' },
+  });
+}
+
+function handoff(agent: string, message: string): Partial<ModelResponse> {
+  return { toolCalls: [{ id: `call_${agent}`, name: `transfer_to_${agent}`, arguments: { message } }] };
+}
+
+const billing: AgentDefinition = {
+  name: 'billing',
+  description: 'Handles refunds and invoices',
+  systemPrompt: 'You are billing.',
+};
+
+describe('AgentOrchestrator', () => {
+  it('should hand off with shared history and attribute every message', async () => {
+    const provider = scriptedProvider({
+      'You are triage.': [handoff('billing', 'Refund order 42')],
+      'You are billing.': [{ content: 'Refund issued' }],
+    });
+    const orchestrator = new AgentOrchestrator({
+      defaults: { provider },
+      agents: [{ name: 'triage', systemPrompt: 'You are triage.', handoffs: ['billing'] }, billing],
+    });
+    const handoffs: unknown[] = [];
+    orchestrator.on('agent:handoff', event => handoffs.push(event));
+
+    const result = await orchestrator.execute('I want my money back');
+
+    expect(result).toMatchObject({ status: 'completed', output: 'Refund issued' });
+    expect(result.metadata).toMatchObject({
+      agent: 'billing',
+      agents: ['triage', 'billing'],
+      handoffs: [{ from: 'triage', to: 'billing', message: 'Refund order 42' }],
+    });
+    expect(result.messages.map(message => [message.role, message.metadata?.agent])).toEqual([
+      ['user', 'triage'],
+      ['assistant', 'triage'],
+      ['tool', 'triage'],
+      ['assistant', 'triage'],
+      ['user', 'billing'],
+      ['assistant', 'billing'],
+    ]);
+    expect(provider.requests).toHaveLength(2);
+    expect(provider.requests[1]!.messages.map(message => message.content)).toEqual([
+      'You are billing.',
+      'I want my money back',
+      '',
+      'Handing off to billing',
+      'Handing off to billing.',
+      'Refund order 42',
+    ]);
+    expect(handoffs).toEqual([{ executionId: result.id, from: 'triage', to: 'billing', message: 'Refund order 42' }]);
+  });
+
+  it('should start isolated handoffs from the handoff message alone', async () => {
+    const provider = scriptedProvider({ 'You are triage.': [handoff('billing', 'Refund order 42')] });
+    const orchestrator = new AgentOrchestrator({
+      defaults: { provider },
+      agents: [
+        { name: 'triage', systemPrompt: 'You are triage.', handoffs: [{ agent: 'billing', history: 'isolated' }] },
+        billing,
+      ],
+    });
+
+    await orchestrator.execute('I want my money back');
+
+    expect(provider.requests[1]!.messages.map(message => message.content)).toEqual(['You are billing.', 'Refund order 42']);
+  });
+
+  it('should call sub-agents as tools and split usage per agent', async () => {
+    const provider = scriptedProvider({
+      'You are triage.': [
+        { toolCalls: [{ id: 'call_1', name: 'ask_research', arguments: { task: 'Find the refund policy' } }] },
+        { content: 'Refunds take 5 days' },
+      ],
+      'You are research.': [{ content: 'Policy: 5 business days', usage: { promptTokens: 7, completionTokens: 3, totalTokens: 10 } }],
+    });
+    const orchestrator = new AgentOrchestrator({
+      defaults: { provider },
+      agents: [
+        { name: 'triage', systemPrompt: 'You are triage.', subAgents: ['research'] },
+        { name: 'research', systemPrompt: 'You are research.' },
+      ],
+    });
+
+    const result = await orchestrator.execute('How long do refunds take?');
+    const usage = result.metadata?.usageByAgent as Record<string, { totalTokens: number }>;
+
+    expect(result.output).toBe('Refunds take 5 days');
+    expect(result.toolCalls[0]).toMatchObject({ name: 'ask_research', result: 'Policy: 5 business days' });
+    expect(result.messages.find(message => message.role === 'tool')?.metadata?.agent).toBe('research');
+    expect(provider.requests[1]!.messages.map(message => message.content)).toEqual([
+      'You are research.',
+      'Find the refund policy',
+    ]);
+    expect(usage.research?.totalTokens).toBe(10);
+    expect(result.usage.totalTokens).toBe(usage.triage!.totalTokens + 10);
+  });
+
+  it('should give each agent its own tools, options and metrics labels', async () => {
+    const provider = scriptedProvider({});
+    const tools = new ToolRegistry().register({
+      name: 'refund',
+      description: 'Issue a refund',
+      parameters: { type: 'object', properties: {} },
+      execute: () => 'ok',
+    });
+    const orchestrator = new AgentOrchestrator({
+      defaults: { provider, temperature: 0.2 },
+      agents: [
+        { name: 'triage', handoffs: ['billing'] },
+        { ...billing, tools, options: { model: 'gpt-4o', maxTokens: 256 } },
+      ],
+    });
+
+    await orchestrator.execute('Hi', { agent: 'billing' });
+
+    expect(provider.requests[0]).toMatchObject({ model: 'gpt-4o', options: { temperature: 0.2, maxTokens: 256 } });
+    expect(provider.requests[0]!.tools?.map(tool => tool.name)).toEqual(['refund']);
+    expect(orchestrator.getAgent('triage').getMetrics()).not.toBe(orchestrator.getAgent('billing').getMetrics());
+    expect(orchestrator.getAgent('billing').getMetrics().getPrometheusMetrics()).toContain('agent="billing"');
+    expect(orchestrator.getAgentNames()).toEqual(['triage', 'billing']);
+  });
+
+  it('should stop following handoffs at maxHandoffs', async () => {
+    const provider = new MockProvider({
+      handler: request => handoff(request.messages[0]!.content === 'ping' ? 'pong' : 'ping', 'Your turn'),
+    });
+    const orchestrator = new AgentOrchestrator({
+      defaults: { provider },
+      maxHandoffs: 2,
+      agents: [
+        { name: 'ping', systemPrompt: 'ping', handoffs: ['pong'] },
+        { name: 'pong', systemPrompt: 'pong', handoffs: ['ping'] },
+      ],
+    });
+
+    const result = await orchestrator.execute('Go');
+
+    expect((result.metadata?.handoffs as Handoff[]).map(made => made.to)).toEqual(['pong', 'ping']);
+    expect(result.metadata).toMatchObject({ agents: ['ping', 'pong', 'ping'], maxHandoffsReached: true });
+    expect(result.metadata?.model).toBe('gpt-4-turbo-preview');
+    expect(result).toMatchObject({ status: 'failed', output: '', errorCode: 'MAX_HANDOFFS_EXCEEDED' });
+    expect(result.failure).toBeInstanceOf(AgentError);
+    expect(result.error).toContain("'ping' asked to hand off to 'pong'");
+  });
+
+  it('should forget finished executions even when one throws', async () => {
+    const provider = new MockProvider({
+      handler: request => request.messages[0]!.content === 'You are triage.'
+        ? handoff('billing', 'Refund order 42')
+        : Promise.reject(new Error('Provider down')),
+    });
+    const orchestrator = new AgentOrchestrator({
+      defaults: { provider, retry: { maxRetries: 0 } },
+      agents: [{ name: 'triage', systemPrompt: 'You are triage.', handoffs: ['billing'] }, billing],
+    });
+    const active: number[] = [];
+    orchestrator.getAgent('billing').on('execution:error', () => {
+      active.push(orchestrator.getActiveExecutions());
+      throw new Error('listener failed');
+    });
+
+    await expect(orchestrator.execute('I want my money back')).rejects.toThrow('listener failed');
+
+    expect(active).toEqual([1]);
+    expect(orchestrator.getActiveExecutions()).toBe(0);
+  });
+
+  it('should reject unknown agents', async () => {
+    const provider = new MockProvider();
+
+    expect(() => new AgentOrchestrator({ defaults: { provider }, agents: [{ name: 'triage', handoffs: ['billing'] }] }))
+      .toThrow(AgentValidationError);
+    await expect(new AgentOrchestrator({ defaults: { provider }, agents: [billing] }).execute('Hi', { agent: 'sales' }))
+      .rejects.toThrow("Unknown agent 'sales'");
+  });
+});
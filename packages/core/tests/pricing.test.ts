@@ -0,0 +1,66 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Pricing and Budget Tests
+ */
+
+import { BudgetTracker, PricingRegistry } from '../src/pricing.js';
+
+describe('PricingRegistry', () => {
+  it('should price prompt and completion tokens per million', () => {
+    const pricing = new PricingRegistry({ custom: { prompt: 1, completion: 2 } });
+
+    expect(pricing.cost('custom', { promptTokens: 1_000_000, completionTokens: 500_000 })).toBe(2);
+    expect(pricing.cost('gpt-4o', { promptTokens: 1000, completionTokens: 1000 })).toBeCloseTo(0.0125);
+  });
+
+  it('should let overrides replace built-in rates', () => {
+    const pricing = new PricingRegistry({ 'gpt-4o': { prompt: 0, completion: 0 } });
+
+    expect(pricing.cost('gpt-4o', { promptTokens: 1000, completionTokens: 1000 })).toBe(0);
+  });
+
+  it('should match dated snapshots to the longest known model name', () => {
+    const pricing = new PricingRegistry();
+
+    expect(pricing.get('gpt-4o-mini-2024-07-18')).toEqual({ prompt: 0.15, completion: 0.6 });
+    expect(pricing.get('gpt-4o-2024-08-06')).toEqual({ prompt: 2.5, completion: 10 });
+  });
+
+  it('should return undefined for unknown models', () => {
+    expect(new PricingRegistry().cost('local-llama', { promptTokens: 10, completionTokens: 10 }))
+      .toBeUndefined();
+  });
+});
+
+describe('BudgetTracker', () => {
+  it('should track spend per user and ignore executions without one', () => {
+    const tracker = new BudgetTracker([{ scope: 'user', window: 'daily', limit: 1 }]);
+
+    tracker.record({ userId: 'alice' }, 0.75);
+    tracker.record({}, 5);
+
+    expect(tracker.check({ userId: 'alice' }, 0.5)).toEqual([
+      { scope: 'user', key: 'alice', window: 'daily', limit: 1, spent: 0.75, action: 'reject' },
+    ]);
+    expect(tracker.check({ userId: 'bob' }, 0.5)).toEqual([]);
+    expect(tracker.check({}, 100)).toEqual([]);
+  });
+
+  it('should start a new window each UTC day or month', () => {
+    const tracker = new BudgetTracker([
+      { scope: 'runtime', window: 'daily', limit: 1 },
+      { scope: 'runtime', window: 'monthly', limit: 10, action: 'warn' },
+    ]);
+
+    tracker.record({}, 0.9, new Date('2026-03-01T23:00:00Z'));
+
+    const nextDay = tracker.statuses({}, new Date('2026-03-02T01:00:00Z'));
+    expect(nextDay.map(status => status.spent)).toEqual([0, 0.9]);
+
+    const nextMonth = tracker.statuses({}, new Date('2026-04-01T00:00:00Z'));
+    expect(nextMonth.map(status => status.spent)).toEqual([0, 0]);
+  });
+});
@@ -0,0 +1,248 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Model Provider Tests
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { OpenAICompatibleProvider, MockProvider, ModelRequest } from '../src/providers.js';
+import { AgentModelError, AgentRateLimitError } from '../src/errors.js';
+
+type Handler = (body: Record<string, unknown>, res: ServerResponse) => void;
+
+describe('OpenAICompatibleProvider', () => {
+  let server: Server;
+  let handler: Handler;
+  let provider: OpenAICompatibleProvider;
+
+  const request: ModelRequest = {
+    model: 'local-model',
+    messages: [{ role: 'user', content: 'Hello' }],
+    options: { temperature: 0, maxTokens: 64 },
+  };
+
+  beforeAll(async () => {
+    server = createServer((req: IncomingMessage, res: ServerResponse) => {
+      let raw = '';
+      req.on('data', chunk => { raw += chunk; });
+      req.on('end', () => handler(JSON.parse(raw), res));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+    const { port } = server.address() as AddressInfo;
+    provider = new OpenAICompatibleProvider({
+      baseUrl: `http://127.0.0.1:${port}/v1`,
+      apiKey: 'test-key',
+      name: 'local',
+      capabilities: { 'local-model': { maxContextTokens: 8192 } },
+    });
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const json = (res: ServerResponse, status: number, body: unknown, headers = {}) => {
+    res.writeHead(status, { 'content-type': 'application/json', ...headers });
+    res.end(JSON.stringify(body));
+  };
+
+  it('should map a chat completion response', async () => {
+    let received: Record<string, unknown> = {};
+    handler = (body, res) => {
+      received = body;
+      res.setHeader('x-ratelimit-remaining-requests', '59');
+      res.setHeader('x-ratelimit-remaining-tokens', '1000');
+      res.setHeader('x-ratelimit-reset-tokens', '6m0s');
+      json(res, 200, {
+        model: 'local-model',
+        choices: [{
+          message: {
+            content: null,
+            tool_calls: [{
+              id: 'call_1',
+              type: 'function',
+              function: { name: 'lookup', arguments: '{"q":"x"}' },
+            }],
+          },
+          finish_reason: 'tool_calls',
+        }],
+        usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 },
+      });
+    };
+
+    const response = await provider.complete(request);
+
+    expect(received.max_tokens).toBe(64);
+    expect(received.stream).toBe(false);
+    expect(response.finishReason).toBe('tool_calls');
+    expect(response.toolCalls).toEqual([{ id: 'call_1', name: 'lookup', arguments: { q: 'x' } }]);
+    expect(response.usage).toEqual({ promptTokens: 12, completionTokens: 3, totalTokens: 15 });
+    expect(response.rateLimit?.remainingRequests).toBe(59);
+    expect(response.rateLimit?.remainingTokens).toBe(1000);
+    expect(response.rateLimit!.resetTokensAt!.getTime() - Date.now()).toBeGreaterThan(355000);
+  });
+
+  it('should flag tool calls whose arguments are not a JSON object', async () => {
+    handler = (_body, res) => json(res, 200, {
+      choices: [{
+        message: {
+          tool_calls: [
+            { id: 'call_1', type: 'function', function: { name: 'lookup', arguments: '{"q":' } },
+            { id: 'call_2', type: 'function', function: { name: 'lookup', arguments: 'null' } },
+          ],
+        },
+        finish_reason: 'tool_calls',
+      }],
+    });
+
+    const response = await provider.complete(request);
+
+    expect(response.toolCalls).toEqual([
+      { id: 'call_1', name: 'lookup', arguments: {}, error: expect.stringMatching(/^Invalid tool arguments: /) },
+      { id: 'call_2', name: 'lookup', arguments: {}, error: 'Invalid tool arguments: expected a JSON object' },
+    ]);
+  });
+
+  it('should map response formats onto response_format', async () => {
+    const bodies: Array<Record<string, unknown>> = [];
+    handler = (body, res) => {
+      bodies.push(body);
+      json(res, 200, { choices: [{ message: { content: '{}' }, finish_reason: 'stop' }] });
+    };
+    const schema = { type: 'object' as const, properties: { answer: { type: 'string' as const } } };
+
+    await provider.complete({ ...request, options: { ...request.options, responseFormat: { type: 'json' } } });
+    await provider.complete({ ...request, options: { ...request.options, responseFormat: { type: 'json', schema } } });
+    await provider.complete(request);
+
+    expect(bodies.map(body => body.response_format)).toEqual([
+      { type: 'json_object' },
+      { type: 'json_schema', json_schema: { name: 'response', schema } },
+      undefined,
+    ]);
+  });
+
+  it('should stream deltas from server-sent events', async () => {
+    handler = (_body, res) => {
+      res.writeHead(200, { 'content-type': 'text/event-stream' });
+      const events = [
+        { choices: [{ delta: { content: 'Hel' } }] },
+        { choices: [{ delta: { content: 'lo' } }] },
+        { choices: [{ delta: {}, finish_reason: 'stop' }] },
+        { choices: [], usage: { prompt_tokens: 5, completion_tokens: 2, total_tokens: 7 } },
+      ];
+      for (const event of events) {
+        res.write(`data: ${JSON.stringify(event)}\n\n`);
+      }
+      res.end('data: [DONE]\n\n');
+    };
+
+    const deltas = [];
+    for await (const delta of provider.stream(request)) {
+      deltas.push(delta);
+    }
+
+    expect(deltas.map(d => d.content).filter(Boolean).join('')).toBe('Hello');
+    expect(deltas.some(d => d.finishReason === 'stop')).toBe(true);
+    expect(deltas[deltas.length - 1]?.usage?.totalTokens).toBe(7);
+  });
+
+  it('should map 429 responses to AgentRateLimitError', async () => {
+    handler = (_body, res) => json(res, 429, { error: { message: 'slow down' } }, {
+      'retry-after': '7',
+      'x-ratelimit-limit': '100',
+      'x-ratelimit-remaining': '0',
+    });
+
+    const error = await provider.complete(request).catch(e => e);
+
+    expect(error).toBeInstanceOf(AgentRateLimitError);
+    expect(error.retryAfter).toBe(7);
+    expect(error.retryable).toBe(true);
+  });
+
+  it('should map 5xx responses to retryable AgentModelError', async () => {
+    handler = (_body, res) => json(res, 503, { error: { message: 'overloaded' } });
+
+    const error = await provider.complete(request).catch(e => e);
+
+    expect(error).toBeInstanceOf(AgentModelError);
+    expect(error.message).toBe('overloaded');
+    expect(error.statusCode).toBe(503);
+    expect(error.provider).toBe('local');
+    expect(error.retryable).toBe(true);
+  });
+
+  it('should map 4xx responses to non-retryable AgentModelError', async () => {
+    handler = (_body, res) => json(res, 400, { error: 'bad request' });
+
+    const error = await provider.complete(request).catch(e => e);
+
+    expect(error).toBeInstanceOf(AgentModelError);
+    expect(error.retryable).toBe(false);
+  });
+
+  it('should map malformed bodies and stream events to AgentModelError', async () => {
+    handler = (_body, res) => {
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.end('{"choices": [');
+    };
+    const error = await provider.complete(request).catch(e => e);
+
+    handler = (_body, res) => {
+      res.writeHead(200, { 'content-type': 'text/event-stream' });
+      res.end('data: {"choices":\n\n');
+    };
+    const streamError = await (async () => {
+      for await (const _delta of provider.stream(request)) {
+        // Drain the stream
+      }
+    })().catch(e => e);
+
+    expect(error).toBeInstanceOf(AgentModelError);
+    expect(error).toMatchObject({ provider: 'local', statusCode: 200 });
+    expect(error.message).toContain('Malformed response from local');
+    expect(streamError).toBeInstanceOf(AgentModelError);
+    expect(streamError.statusCode).toBe(200);
+  });
+
+  it('should read a final stream event that has no trailing newline', async () => {
+    handler = (_body, res) => {
+      res.writeHead(200, { 'content-type': 'text/event-stream' });
+      res.write(`data: ${JSON.stringify({ choices: [{ delta: { content: 'Hi' } }] })}\n\n`);
+      res.end(`data: ${JSON.stringify({ choices: [], usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 } })}`);
+    };
+
+    const deltas = [];
+    for await (const delta of provider.stream(request)) {
+      deltas.push(delta);
+    }
+
+    expect(deltas.map(d => d.content).filter(Boolean)).toEqual(['Hi']);
+    expect(deltas[deltas.length - 1]?.usage?.totalTokens).toBe(2);
+  });
+
+  it('should merge per-model capabilities over defaults', () => {
+    expect(provider.capabilities('local-model').maxContextTokens).toBe(8192);
+    expect(provider.capabilities('local-model').toolCalling).toBe(true);
+  });
+});
+
+describe('MockProvider', () => {
+  it('should return scripted responses before echoing', async () => {
+    const provider = new MockProvider({ responses: [{ content: 'first' }] });
+    const request: ModelRequest = {
+      model: 'mock',
+      messages: [{ role: 'user', content: 'ping' }],
+      options: { temperature: 0, maxTokens: 10 },
+    };
+
+    expect((await provider.complete(request)).content).toBe('first');
+    expect((await provider.complete(request)).content).toBe('Processed: ping');
+    expect(provider.requests).toHaveLength(2);
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Job Queue Tests
+ */
+
+import { JobQueue, InMemoryJobStore, Job } from '../src/queue.js';
+import { AgentRuntime } from '../src/runtime.js';
+import { MockProvider } from '../src/providers.js';
+import { ToolRegistry } from '../src/tools.js';
+import { AgentQueueFullError, AgentValidationError } from '../src/errors.js';
+import { ExecutionResult } from '../src/types.js';
+
+function resultFor(job: Job, status: ExecutionResult['status'] = 'completed'): ExecutionResult {
+  return {
+    id: `exec_${job.id}`,
+    status,
+    output: `done: ${job.task}`,
+    toolCalls: [],
+    messages: [],
+    usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+    duration: 0,
+  };
+}
+
+/**
+ * Runner that holds every job until the test releases it
+ */
+function manualRunner() {
+  const started: string[] = [];
+  const waiting = new Map<string, () => void>();
+
+  const runner = (job: Job, signal: AbortSignal) => new Promise<ExecutionResult>((resolve, reject) => {
+    started.push(job.task);
+    waiting.set(job.task, () => resolve(resultFor(job)));
+    signal.addEventListener('abort', () => reject(signal.reason));
+  });
+
+  const release = async (task: string) => {
+    waiting.get(task)!();
+    await new Promise(resolve => setImmediate(resolve));
+  };
+
+  return { runner, started, release };
+}
+
+describe('JobQueue', () => {
+  it('should limit concurrency and run higher priorities first', async () => {
+    const { runner, started, release } = manualRunner();
+    const queue = new JobQueue(runner, { concurrency: 1 });
+
+    await queue.submit('first');
+    await queue.submit('low', {}, 'low');
+    await queue.submit('normal');
+    await queue.submit('high', {}, 'high');
+    expect(started).toEqual(['first']);
+    expect(queue.getStats()).toMatchObject({ queued: 3, running: 1 });
+
+    await release('first');
+    await release('high');
+    await release('normal');
+    expect(started).toEqual(['first', 'high', 'normal', 'low']);
+  });
+
+  it('should rotate between users within a priority', async () => {
+    const { runner, started, release } = manualRunner();
+    const queue = new JobQueue(runner, { concurrency: 1 });
+
+    await queue.submit('a1', { userId: 'a' });
+    await queue.submit('a2', { userId: 'a' });
+    await queue.submit('a3', { userId: 'a' });
+    await queue.submit('b1', { userId: 'b' });
+
+    await release('a1');
+    await release('b1');
+    await release('a2');
+    expect(started).toEqual(['a1', 'b1', 'a2', 'a3']);
+  });
+
+  it('should reject submissions beyond maxDepth', async () => {
+    const { runner } = manualRunner();
+    const queue = new JobQueue(runner, { concurrency: 1, maxDepth: 1 });
+
+    await queue.submit('running');
+    await queue.submit('queued');
+
+    await expect(queue.submit('rejected')).rejects.toThrow(AgentQueueFullError);
+  });
+
+  it('should report status and resolve waiters when a job finishes', async () => {
+    const { runner, release } = manualRunner();
+    const store = new InMemoryJobStore();
+    const queue = new JobQueue(runner, { store });
+
+    const job = await queue.submit('report');
+    expect((await queue.get(job.id))?.status).toBe('running');
+
+    const done = queue.wait(job.id);
+    await release('report');
+
+    expect(await done).toMatchObject({ id: job.id, status: 'completed', executionId: `exec_${job.id}` });
+    expect((await store.get(job.id))?.result?.output).toBe('done: report');
+    expect((await queue.wait(job.id)).status).toBe('completed');
+    await expect(queue.wait('missing')).rejects.toThrow(AgentValidationError);
+  });
+
+  it('should cancel queued and running jobs', async () => {
+    const { runner, started } = manualRunner();
+    const queue = new JobQueue(runner, { concurrency: 1 });
+
+    const running = await queue.submit('running');
+    const queued = await queue.submit('queued');
+
+    expect(await queue.cancel(queued.id)).toBe(true);
+    expect((await queue.get(queued.id))?.status).toBe('cancelled');
+
+    expect(await queue.cancel(running.id, 'stop')).toBe(true);
+    expect((await queue.wait(running.id)).status).toBe('cancelled');
+    expect(await queue.cancel(running.id)).toBe(false);
+    expect(started).toEqual(['running']);
+  });
+
+  it('should recover unfinished jobs from the store', async () => {
+    const store = new InMemoryJobStore();
+    const base = { config: {}, priority: 'normal' as const, submittedAt: Date.now() };
+    await store.save({ ...base, id: 'job_a', task: 'interrupted', status: 'running', startedAt: Date.now() });
+    await store.save({ ...base, id: 'job_b', task: 'waiting', status: 'queued' });
+    await store.save({ ...base, id: 'job_c', task: 'done', status: 'completed' });
+
+    const queue = new JobQueue(async job => resultFor(job), { store });
+
+    expect(await queue.recover()).toBe(2);
+    expect((await queue.wait('job_a')).status).toBe('completed');
+    expect((await queue.wait('job_b')).status).toBe('completed');
+  });
+});
+
+describe('AgentRuntime jobs', () => {
+  it('should run submitted tasks in the background with progress events', async () => {
+    const tools = new ToolRegistry().register({
+      name: 'lookup',
+      description: 'Look up an order',
+      parameters: { type: 'object', properties: {} },
+      execute: () => 'shipped',
+    });
+    const provider = new MockProvider({
+      responses: [
+        { toolCalls: [{ id: 'call_1', name: 'lookup', arguments: {} }], finishReason: 'tool_calls' },
+        { content: 'Your order shipped' },
+      ],
+    });
+    const runtime = new AgentRuntime({ provider, tools, queue: { enabled: true } });
+
+    const jobId = await runtime.submit('Where is my order?', { userId: 'u1' }, { priority: 'high' });
+    const events: string[] = [];
+    runtime.subscribeJob(jobId, (type, event) => events.push(event.event || type));
+
+    const job = await runtime.waitForJob(jobId);
+
+    expect(job).toMatchObject({ status: 'completed', priority: 'high', config: { userId: 'u1' } });
+    expect(job.result?.output).toBe('Your order shipped');
+    expect(events).toEqual(expect.arrayContaining(['tool:start', 'tool:complete', 'execution:complete', 'job:complete']));
+    expect((await runtime.getJob(jobId))?.executionId).toBe(job.result?.id);
+  });
+
+  it('should report queue depth in health and metrics', async () => {
+    const provider = new MockProvider({ handler: () => new Promise(() => {}) });
+    const runtime = new AgentRuntime({ provider, queue: { enabled: true, concurrency: 1, maxDepth: 1 } });
+
+    const running = await runtime.submit('one');
+    const queued = await runtime.submit('two');
+
+    expect((await runtime.health()).checks.queue).toEqual({ status: 'warn', message: '1 queued, 1 running' });
+    expect(runtime.getMetrics().getMetrics().jobs).toEqual({ queued: 1, running: 1 });
+    expect(runtime.getMetrics().getPrometheusMetrics()).toContain('agent_jobs{state="queued"} 1');
+
+    await runtime.cancelJob(queued);
+    await runtime.cancelJob(running);
+    expect((await runtime.waitForJob(running)).status).toBe('cancelled');
+    expect(runtime.getMetrics().getMetrics().jobs).toEqual({ queued: 0, running: 0 });
+  });
+
+  it('should require the queue to be enabled', async () => {
+    const runtime = new AgentRuntime({ provider: new MockProvider() });
+
+    await expect(runtime.submit('Hi')).rejects.toThrow(AgentValidationError);
+  });
+});
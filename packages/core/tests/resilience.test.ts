@@ -6,7 +6,22 @@
  * Circuit Breaker Tests
  */
 
-import { CircuitBreaker, withRetry } from '../src/resilience.js';
+import {
+  Bulkhead,
+  CircuitBreaker,
+  CircuitBreakerRegistry,
+  RateLimiter,
+  RetryEvent,
+  RetryPolicy,
+  withHedging,
+  withRetry,
+} from '../src/resilience.js';
+import {
+  AgentBulkheadFullError,
+  AgentCancelledError,
+  AgentRateLimitError,
+  AgentValidationError,
+} from '../src/errors.js';
 
 describe('CircuitBreaker', () => {
   let circuitBreaker: CircuitBreaker;
@@ -127,6 +142,275 @@ describe('CircuitBreaker', () => {
   });
 });
 
+describe('CircuitBreaker sliding window', () => {
+  let circuitBreaker: CircuitBreaker;
+
+  beforeEach(() => {
+    circuitBreaker = new CircuitBreaker({
+      failureThreshold: 1,
+      successThreshold: 1,
+      timeout: 50,
+      mode: 'sliding-window',
+      windowMs: 60000,
+      failureRateThreshold: 0.5,
+      minimumRequests: 4,
+    });
+  });
+
+  it('should not open below the minimum request volume', () => {
+    circuitBreaker.recordFailure();
+    circuitBreaker.recordFailure();
+    circuitBreaker.recordFailure();
+
+    expect(circuitBreaker.getState()).toBe('closed');
+  });
+
+  it('should open once the failure rate is reached', () => {
+    circuitBreaker.recordSuccess();
+    circuitBreaker.recordFailure();
+    circuitBreaker.recordSuccess();
+    expect(circuitBreaker.getStats().failureRate).toBeCloseTo(1 / 3);
+
+    circuitBreaker.recordFailure();
+    expect(circuitBreaker.getState()).toBe('open');
+  });
+
+  it('should tolerate failures interleaved with successes below the rate', () => {
+    for (let i = 0; i < 10; i++) {
+      circuitBreaker.recordSuccess();
+      circuitBreaker.recordSuccess();
+      circuitBreaker.recordFailure();
+    }
+
+    expect(circuitBreaker.getState()).toBe('closed');
+  });
+});
+
+describe('CircuitBreaker half-open probes', () => {
+  it('should limit concurrent probes', async () => {
+    const circuitBreaker = new CircuitBreaker({
+      failureThreshold: 1,
+      successThreshold: 1,
+      timeout: 20,
+      halfOpenMaxProbes: 1,
+    });
+
+    circuitBreaker.recordFailure();
+    expect(circuitBreaker.tryAcquire()).toBeUndefined();
+    expect(circuitBreaker.getOpensAt()).toBeInstanceOf(Date);
+
+    await new Promise(resolve => setTimeout(resolve, 30));
+
+    const probe = circuitBreaker.tryAcquire();
+    expect(probe).toEqual({ probe: true });
+    expect(circuitBreaker.tryAcquire()).toBeUndefined();
+
+    circuitBreaker.release(probe);
+    const retry = circuitBreaker.tryAcquire();
+    expect(retry).toEqual({ probe: true });
+
+    circuitBreaker.recordSuccess(retry);
+    expect(circuitBreaker.getState()).toBe('closed');
+  });
+
+  it('should not free a probe slot for calls started while closed', async () => {
+    const circuitBreaker = new CircuitBreaker({
+      failureThreshold: 1,
+      successThreshold: 2,
+      timeout: 20,
+      halfOpenMaxProbes: 1,
+    });
+
+    const early = circuitBreaker.tryAcquire();
+    expect(early).toEqual({ probe: false });
+    circuitBreaker.recordFailure(circuitBreaker.tryAcquire());
+
+    await new Promise(resolve => setTimeout(resolve, 30));
+
+    expect(circuitBreaker.tryAcquire()).toEqual({ probe: true });
+    circuitBreaker.recordSuccess(early);
+
+    expect(circuitBreaker.getState()).toBe('half-open');
+    expect(circuitBreaker.tryAcquire()).toBeUndefined();
+  });
+
+  it('should emit state changes', () => {
+    const circuitBreaker = new CircuitBreaker({ failureThreshold: 1, successThreshold: 1, timeout: 1000 });
+    const listener = jest.fn();
+    circuitBreaker.on('state-change', listener);
+
+    circuitBreaker.recordFailure();
+    circuitBreaker.reset();
+
+    expect(listener.mock.calls).toEqual([
+      [{ from: 'closed', to: 'open' }],
+      [{ from: 'open', to: 'closed' }],
+    ]);
+  });
+});
+
+describe('CircuitBreakerRegistry', () => {
+  it('should keep independent breakers per key', () => {
+    const registry = new CircuitBreakerRegistry({ failureThreshold: 1, successThreshold: 1, timeout: 1000 });
+    const listener = jest.fn();
+    registry.on('state-change', listener);
+
+    registry.get(CircuitBreakerRegistry.key('openai', 'gpt-4o')).recordFailure();
+
+    expect(registry.getStates()).toEqual({ 'openai:gpt-4o': 'open' });
+    expect(registry.get('openai:gpt-4o-mini').getState()).toBe('closed');
+    expect(listener).toHaveBeenCalledWith({ key: 'openai:gpt-4o', from: 'closed', to: 'open' });
+
+    registry.reset();
+    expect(registry.get('openai:gpt-4o').getState()).toBe('closed');
+  });
+});
+
+describe('RateLimiter', () => {
+  it('should fail fast when the request budget is exhausted', async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 2, onLimit: 'fail' });
+
+    await limiter.acquire(0);
+    await limiter.acquire(0);
+    const error = await limiter.acquire(0).catch(e => e);
+
+    expect(error).toBeInstanceOf(AgentRateLimitError);
+    expect(error.limit).toBe(2);
+    expect(error.retryAfter).toBeGreaterThan(0);
+  });
+
+  it('should queue until enough tokens refill', async () => {
+    const limiter = new RateLimiter({ tokensPerMinute: 600, onLimit: 'queue' });
+
+    await limiter.acquire(600);
+    const started = Date.now();
+    await limiter.acquire(3);
+
+    // 600 tokens/minute refills 10 tokens per second
+    expect(Date.now() - started).toBeGreaterThanOrEqual(250);
+  });
+
+  it('should give up once maxWait would be exceeded', async () => {
+    const limiter = new RateLimiter({ tokensPerMinute: 60, maxWait: 100 });
+
+    await limiter.acquire(60);
+    await expect(limiter.acquire(30)).rejects.toThrow(AgentRateLimitError);
+  });
+
+  it('should reconcile estimates against actual usage', async () => {
+    const limiter = new RateLimiter({ tokensPerMinute: 1000 });
+
+    const reserved = await limiter.acquire(100);
+    limiter.reconcile(reserved, 400);
+
+    expect(limiter.getStats().availableTokens).toBeLessThanOrEqual(601);
+    expect(limiter.getStats().availableTokens).toBeGreaterThanOrEqual(600);
+  });
+
+  it('should adopt remaining budgets reported by the provider', async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 100, tokensPerMinute: 10000, onLimit: 'fail' });
+
+    limiter.observe({ remainingTokens: 50 });
+    expect(limiter.getStats().availableTokens).toBeLessThanOrEqual(51);
+
+    limiter.observe({ remainingRequests: 0, resetRequestsAt: new Date(Date.now() + 5000) });
+    expect(limiter.getStats().blockedUntil).toBeInstanceOf(Date);
+    await expect(limiter.acquire(1)).rejects.toThrow('Client-side rate limit exceeded');
+  });
+
+  it('should pause after a provider rate limit error', async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 100, onLimit: 'fail' });
+
+    limiter.penalize(new AgentRateLimitError('Rate limit exceeded', 2));
+
+    await expect(limiter.acquire(0)).rejects.toThrow(AgentRateLimitError);
+  });
+});
+
+describe('Bulkhead', () => {
+  it('should queue calls beyond maxConcurrent and reject beyond maxQueue', async () => {
+    const bulkhead = new Bulkhead('provider:mock', { maxConcurrent: 1, maxQueue: 1 });
+
+    const release = await bulkhead.acquire();
+    const waiting = bulkhead.acquire();
+    const error = await bulkhead.acquire().catch(e => e);
+
+    expect(error).toBeInstanceOf(AgentBulkheadFullError);
+    expect(error.retryable).toBe(true);
+    expect(bulkhead.getStats()).toEqual({ active: 1, queued: 1, rejected: 1, maxConcurrent: 1, maxQueue: 1 });
+
+    release();
+    release();
+    (await waiting)();
+    expect(bulkhead.getStats()).toMatchObject({ active: 0, queued: 0 });
+  });
+
+  it('should give up waiting after maxWait or on abort', async () => {
+    const bulkhead = new Bulkhead('user:u1', { maxConcurrent: 1, maxQueue: 5, maxWait: 20 });
+    const controller = new AbortController();
+
+    await bulkhead.acquire();
+    await expect(bulkhead.acquire()).rejects.toThrow(AgentBulkheadFullError);
+
+    const aborted = bulkhead.acquire(controller.signal);
+    controller.abort(new Error('stopped'));
+    await expect(aborted).rejects.toThrow('stopped');
+    expect(bulkhead.getStats().queued).toBe(0);
+  });
+
+  it('should free the slot when the function fails', async () => {
+    const bulkhead = new Bulkhead('provider:mock', { maxConcurrent: 1 });
+
+    await expect(bulkhead.execute(() => Promise.reject(new Error('down')))).rejects.toThrow('down');
+    await expect(bulkhead.execute(async () => 'ok')).resolves.toBe('ok');
+  });
+});
+
+describe('withHedging', () => {
+  const delay = (ms: number, value: string, signal: AbortSignal) => new Promise<string>((resolve, reject) => {
+    const timer = setTimeout(() => resolve(value), ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    });
+  });
+
+  it('should not hedge a call that finishes within the delay', async () => {
+    const onHedge = jest.fn();
+
+    await expect(withHedging(signal => delay(5, 'fast', signal), { delay: 50 }, { onHedge })).resolves.toBe('fast');
+    expect(onHedge).not.toHaveBeenCalled();
+  });
+
+  it('should take the faster attempt and cancel the other', async () => {
+    const reasons: unknown[] = [];
+    const result = await withHedging((signal, attempt) => {
+      signal.addEventListener('abort', () => reasons.push(signal.reason));
+      return delay(attempt === 0 ? 500 : 5, `attempt ${attempt}`, signal);
+    }, { delay: 20 });
+
+    expect(result).toBe('attempt 1');
+    expect(reasons).toEqual([expect.any(AgentCancelledError)]);
+  });
+
+  it('should wait for the hedge when the first attempt fails', async () => {
+    const result = await withHedging((signal, attempt) => attempt === 0
+      ? delay(40, '', signal).then(() => Promise.reject(new Error('slow failure')))
+      : delay(60, 'hedge', signal), { delay: 20 });
+
+    expect(result).toBe('hedge');
+  });
+
+  it('should fail with the first error once every attempt failed', async () => {
+    const run = withHedging((_signal, attempt) => Promise.reject(new Error(`failed ${attempt}`)), {
+      delay: 10,
+      maxAttempts: 3,
+    });
+
+    await expect(run).rejects.toThrow('failed 0');
+  });
+});
+
 describe('withRetry', () => {
   it('should return successful result on first try', async () => {
     const fn = jest.fn().mockResolvedValue('success');
@@ -237,3 +521,113 @@ describe('withRetry', () => {
     });
   });
 });
+
+describe('RetryPolicy', () => {
+  const config = { maxRetries: 3, baseDelay: 10, maxDelay: 100, factor: 2 };
+
+  const collectDelays = async (policy: RetryPolicy, fn: () => Promise<unknown>) => {
+    const events: RetryEvent[] = [];
+    await policy.execute(fn, { onRetry: event => events.push(event) }).catch(() => undefined);
+    return events;
+  };
+
+  it('should not retry non-retryable agent errors', async () => {
+    const fn = jest.fn().mockRejectedValue(new AgentValidationError('bad', 'field', 1));
+
+    await expect(withRetry(fn, config)).rejects.toThrow('bad');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should consult a custom shouldRetry predicate', async () => {
+    const shouldRetry = jest.fn((_error: Error, attempt: number) => attempt < 2);
+    const fn = jest.fn().mockRejectedValue(new Error('nope'));
+
+    await expect(withRetry(fn, { ...config, shouldRetry })).rejects.toThrow('nope');
+
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(shouldRetry).toHaveBeenNthCalledWith(1, expect.any(Error), 1);
+    expect(shouldRetry).toHaveBeenNthCalledWith(2, expect.any(Error), 2);
+  });
+
+  it('should wait for the server-provided retryAfter', async () => {
+    const fn = jest.fn()
+      .mockRejectedValueOnce(new AgentRateLimitError('slow down', 0.05))
+      .mockResolvedValue('ok');
+    const events: RetryEvent[] = [];
+
+    const started = Date.now();
+    const result = await new RetryPolicy(config).execute(fn, { onRetry: event => events.push(event) });
+
+    expect(result).toBe('ok');
+    expect(events[0]).toMatchObject({ attempt: 1, delay: 50, retryAfter: 0.05 });
+    expect(Date.now() - started).toBeGreaterThanOrEqual(45);
+  });
+
+  it('should stop once the retry budget would be exceeded', async () => {
+    const fn = jest.fn().mockRejectedValue(new Error('down'));
+
+    const events = await collectDelays(new RetryPolicy({ ...config, maxRetries: 10, budget: 35 }), fn);
+
+    // Waits of ~10 and ~20 fit in 35ms, the next ~40 does not
+    expect(events).toHaveLength(2);
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it('should stop once the deadline would be passed', async () => {
+    const fn = jest.fn().mockRejectedValue(new AgentRateLimitError('slow down', 1));
+
+    const events = await collectDelays(new RetryPolicy({ ...config, deadline: 500 }), fn);
+
+    expect(events).toHaveLength(0);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fall back to the backoff delay for an unparseable Retry-After', async () => {
+    const fn = jest.fn().mockRejectedValue(AgentRateLimitError.fromHeaders({ 'retry-after': 'later' }));
+
+    const events = await collectDelays(new RetryPolicy({ ...config, maxRetries: 10, budget: 35 }), fn);
+
+    expect(events).toHaveLength(2);
+    expect(events.every(event => Number.isFinite(event.delay) && event.retryAfter === undefined)).toBe(true);
+  });
+
+  it('should keep jittered delays within their bounds', async () => {
+    const failing = () => Promise.reject(new Error('down'));
+    const base = { maxRetries: 4, baseDelay: 4, maxDelay: 16, factor: 2 };
+
+    const full = await collectDelays(new RetryPolicy({ ...base, strategy: 'full-jitter' }), failing);
+    const equal = await collectDelays(new RetryPolicy({ ...base, strategy: 'equal-jitter' }), failing);
+    const decorrelated = await collectDelays(
+      new RetryPolicy({ ...base, strategy: 'decorrelated-jitter' }),
+      failing
+    );
+
+    full.forEach(({ attempt, delay }) => {
+      expect(delay).toBeGreaterThanOrEqual(0);
+      expect(delay).toBeLessThanOrEqual(Math.min(4 * 2 ** (attempt - 1), 16));
+    });
+    equal.forEach(({ attempt, delay }) => {
+      const ceiling = Math.min(4 * 2 ** (attempt - 1), 16);
+      expect(delay).toBeGreaterThanOrEqual(ceiling / 2);
+      expect(delay).toBeLessThanOrEqual(ceiling);
+    });
+    decorrelated.forEach(({ delay }) => {
+      expect(delay).toBeGreaterThanOrEqual(4);
+      expect(delay).toBeLessThanOrEqual(16);
+    });
+    expect([full, equal, decorrelated].map(events => events.length)).toEqual([4, 4, 4]);
+  });
+
+  it('should abort a pending retry wait', async () => {
+    const controller = new AbortController();
+    const fn = jest.fn().mockRejectedValue(new Error('down'));
+
+    const run = new RetryPolicy({ ...config, baseDelay: 10000, maxDelay: 10000 }).execute(fn, {
+      signal: controller.signal,
+      onRetry: () => controller.abort(new Error('stopped')),
+    });
+
+    await expect(run).rejects.toThrow('stopped');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
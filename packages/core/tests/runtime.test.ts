@@ -7,13 +7,28 @@
  */
 
 import { AgentRuntime } from '../src/runtime.js';
-import { AgentError, AgentTimeoutError, AgentRateLimitError } from '../src/errors.js';
+import { MockProvider, ModelProvider, ModelRequest, ModelStreamDelta } from '../src/providers.js';
+import { ToolRegistry, parseToolCall } from '../src/tools.js';
+import { AgentMemory } from '../src/memory.js';
+import {
+  AgentError,
+  AgentTimeoutError,
+  AgentRateLimitError,
+  AgentModelError,
+  AgentCircuitOpenError,
+  AgentValidationError,
+} from '../src/errors.js';
+import { StreamChunk } from '../src/types.js';
+import { InMemorySpanExporter } from '../src/tracing.js';
+import { TokenizerRegistry } from '../src/tokenizer.js';
+import { JSONSchema } from '../src/schema.js';
 
 describe('AgentRuntime', () => {
   let runtime: AgentRuntime;
 
   beforeEach(() => {
     runtime = new AgentRuntime({
+      provider: new MockProvider(),
       model: 'gpt-4-turbo-preview',
       temperature: 0.7,
       maxTokens: 4096,
@@ -86,10 +101,62 @@ describe('AgentRuntime', () => {
     it('should include messages in result', async () => {
       const result = await runtime.execute('Hello');
       
-      expect(result.messages).toHaveLength(2);
+      expect(result.messages).toHaveLength(3);
       expect(result.messages[0]?.role).toBe('system');
       expect(result.messages[1]?.role).toBe('user');
       expect(result.messages[1]?.content).toBe('Hello');
+      expect(result.messages[2]?.role).toBe('assistant');
+    });
+
+    it('should return the provider response', async () => {
+      const provider = new MockProvider({
+        responses: [{ content: 'Hi there', model: 'gpt-4o' }],
+      });
+      const providerRuntime = new AgentRuntime({
+        provider,
+        metrics: { enabled: false },
+        circuitBreaker: { enabled: false },
+      });
+
+      const result = await providerRuntime.execute('Hello');
+
+      expect(result.output).toBe('Hi there');
+      expect(result.metadata?.model).toBe('gpt-4o');
+      expect(provider.requests[0]?.options.temperature).toBe(0.7);
+    });
+
+    it('should report unparseable tool arguments to the model without running the tool', async () => {
+      const execute = jest.fn();
+      const tools = new ToolRegistry().register({
+        name: 'lookup',
+        description: 'Look up an order',
+        parameters: { type: 'object', properties: { id: { type: 'string' } } },
+        execute,
+      });
+      const provider = new MockProvider({
+        responses: [{ toolCalls: [parseToolCall('call_1', 'lookup', '{"id":')] }, { content: 'Sorry' }],
+      });
+      const toolRuntime = new AgentRuntime({ provider, tools });
+
+      const result = await toolRuntime.execute('Where is my order?');
+
+      expect(execute).not.toHaveBeenCalled();
+      expect(result.toolCalls[0]).toMatchObject({ arguments: {}, error: expect.stringMatching(/^Invalid tool arguments: /) });
+      expect(JSON.parse(provider.requests[1]!.messages.at(-1)!.content)).toEqual({ error: result.toolCalls[0]!.error });
+    });
+
+    it('should fail when no provider is configured', async () => {
+      const bareRuntime = new AgentRuntime({
+        metrics: { enabled: false },
+        circuitBreaker: { enabled: false },
+      });
+
+      const result = await bareRuntime.execute('Hello');
+
+      expect(result.status).toBe('failed');
+      expect(result.error).toContain('No model provider configured');
+      expect(result.failure).toBeInstanceOf(AgentError);
+      expect(result.failure?.code).toBe('NO_PROVIDER');
     });
 
     it('should emit execution events', async () => {
@@ -119,6 +186,7 @@ describe('AgentRuntime', () => {
   describe('timeout handling', () => {
     it('should timeout on long execution', async () => {
       const shortTimeoutRuntime = new AgentRuntime({
+        provider: new MockProvider(),
         timeout: 100, // 100ms timeout
         metrics: { enabled: false },
         circuitBreaker: { enabled: false },
@@ -133,6 +201,695 @@ describe('AgentRuntime', () => {
     });
   });
 
+  describe('circuit breakers', () => {
+    it('should keep a separate breaker per provider and model', async () => {
+      const provider = new MockProvider({
+        handler: request => request.model === 'broken'
+          ? Promise.reject(new AgentModelError('down', 'mock', 500))
+          : { content: 'ok' },
+      });
+      const breakerRuntime = new AgentRuntime({
+        provider,
+        model: 'broken',
+        retry: { maxRetries: 0 },
+        circuitBreaker: { failureThreshold: 2, timeout: 60000 },
+      });
+      const healthyRuntime = new AgentRuntime({ provider, model: 'healthy' });
+      const changes = jest.fn();
+      breakerRuntime.on('circuit:state-change', changes);
+
+      await breakerRuntime.execute('1');
+      await breakerRuntime.execute('2');
+      const rejected = await breakerRuntime.execute('3');
+
+      expect(rejected.error).toBe('Circuit breaker is open');
+      expect(provider.requests).toHaveLength(2);
+      expect(changes).toHaveBeenCalledWith({ key: 'mock:broken', from: 'closed', to: 'open' });
+      expect((await healthyRuntime.execute('4')).status).toBe('completed');
+    });
+
+    it('should report opensAt on open-circuit rejections', async () => {
+      const provider = new MockProvider({ handler: () => Promise.reject(new AgentModelError('down', 'mock', 500)) });
+      const breakerRuntime = new AgentRuntime({
+        provider,
+        retry: { maxRetries: 0 },
+        circuitBreaker: { failureThreshold: 1, timeout: 60000 },
+      });
+      const errors: unknown[] = [];
+      breakerRuntime.on('execution:error', ({ error }) => errors.push(error));
+
+      await breakerRuntime.execute('1');
+      await breakerRuntime.execute('2');
+
+      expect(errors[1]).toBeInstanceOf(AgentCircuitOpenError);
+      expect((errors[1] as AgentCircuitOpenError).opensAt?.getTime()).toBeGreaterThan(Date.now());
+    });
+  });
+
+  describe('retries', () => {
+    it('should emit structured retry events honouring retryAfter', async () => {
+      let calls = 0;
+      const provider = new MockProvider({
+        handler: async () => {
+          if (calls++ === 0) {
+            throw new AgentRateLimitError('Rate limit exceeded', 0.01);
+          }
+          return { content: 'ok' };
+        },
+      });
+      const retryRuntime = new AgentRuntime({ provider, retry: { maxRetries: 2, baseDelay: 5000 } });
+      const events: Array<Record<string, unknown>> = [];
+      retryRuntime.on('execution:retry', event => events.push(event));
+
+      const result = await retryRuntime.execute('Hi');
+
+      expect(result.output).toBe('ok');
+      expect(events).toEqual([expect.objectContaining({
+        executionId: result.id,
+        provider: 'mock',
+        attempt: 1,
+        maxRetries: 2,
+        delay: 10,
+        retryAfter: 0.01,
+        error: 'Rate limit exceeded',
+        code: 'AGENT_RATE_LIMIT',
+      })]);
+    });
+  });
+
+  describe('model fallbacks', () => {
+    const failingFor = (models: string[], error: () => Error) => new MockProvider({
+      handler: request => models.includes(request.model)
+        ? Promise.reject(error())
+        : { content: `answered by ${request.model}` },
+    });
+
+    it('should fall back on server errors and record skipped models', async () => {
+      const provider = failingFor(['primary'], () => new AgentModelError('overloaded', 'mock', 503));
+      const fallbackRuntime = new AgentRuntime({
+        provider,
+        model: 'primary',
+        fallbacks: [{ model: 'backup', options: { temperature: 0 } }],
+        retry: { maxRetries: 0 },
+      });
+      const fallbackEvents: unknown[] = [];
+      fallbackRuntime.on('execution:fallback', event => fallbackEvents.push(event));
+
+      const result = await fallbackRuntime.execute('Hi');
+
+      expect(result.output).toBe('answered by backup');
+      expect(result.metadata?.model).toBe('backup');
+      expect(result.metadata?.skippedModels).toEqual([
+        { model: 'primary', reason: 'server-error', error: 'overloaded' },
+      ]);
+      expect(provider.requests[1]?.options.temperature).toBe(0);
+      expect(fallbackEvents).toEqual([expect.objectContaining({ from: 'primary', to: 'backup' })]);
+      expect(fallbackRuntime.getMetrics().getMetrics().fallbacks).toEqual({ backup: 1 });
+      expect(fallbackRuntime.getMetrics().getPrometheusMetrics())
+        .toContain('agent_model_fallbacks_total{model="backup"} 1');
+    });
+
+    it('should skip models whose circuit is open', async () => {
+      const provider = failingFor(['primary'], () => new AgentModelError('overloaded', 'mock', 503));
+      const fallbackRuntime = new AgentRuntime({
+        provider,
+        model: 'primary',
+        fallbacks: [{ model: 'backup' }],
+        retry: { maxRetries: 0 },
+        circuitBreaker: { failureThreshold: 1 },
+      });
+
+      await fallbackRuntime.execute('first');
+      const result = await fallbackRuntime.execute('second');
+
+      expect(result.metadata?.skippedModels).toEqual([
+        { model: 'primary', reason: 'circuit-open', error: 'Circuit breaker is open' },
+      ]);
+      expect(provider.requests.map(request => request.model)).toEqual(['primary', 'backup', 'backup']);
+    });
+
+    it('should only fall back on the configured triggers', async () => {
+      const provider = failingFor(['primary'], () => new AgentModelError('overloaded', 'mock', 503));
+      const fallbackRuntime = new AgentRuntime({
+        provider,
+        model: 'primary',
+        fallbacks: [{ model: 'backup' }],
+        fallbackOn: ['rate-limit'],
+        retry: { maxRetries: 0 },
+      });
+
+      const result = await fallbackRuntime.execute('Hi');
+
+      expect(result.status).toBe('failed');
+      expect(result.error).toBe('overloaded');
+      expect(provider.requests).toHaveLength(1);
+    });
+
+    it('should not fall back on client errors', async () => {
+      const provider = failingFor(['primary'], () => new AgentModelError('bad request', 'mock', 400));
+      const fallbackRuntime = new AgentRuntime({ provider, model: 'primary', fallbacks: [{ model: 'backup' }] });
+
+      expect((await fallbackRuntime.execute('Hi')).status).toBe('failed');
+      expect(provider.requests).toHaveLength(1);
+    });
+
+    it('should fall back when a stream fails before any output', async () => {
+      const provider = failingFor(['primary'], () => new AgentModelError('overloaded', 'mock', 503));
+      const fallbackRuntime = new AgentRuntime({
+        provider,
+        model: 'primary',
+        fallbacks: [{ model: 'backup' }],
+        retry: { maxRetries: 0 },
+      });
+
+      let content = '';
+      for await (const chunk of fallbackRuntime.stream('Hi')) {
+        content += chunk.content || '';
+      }
+
+      expect(content).toBe('answered by backup');
+      expect(fallbackRuntime.getMetrics().getMetrics().fallbacks).toEqual({ backup: 1 });
+    });
+  });
+
+  describe('pricing and budgets', () => {
+    it('should fill in the cost of executions and streams', async () => {
+      const provider = new MockProvider({
+        handler: () => ({ content: 'ok', usage: { promptTokens: 1000, completionTokens: 500, totalTokens: 1500 } }),
+      });
+      const pricedRuntime = new AgentRuntime({
+        provider,
+        model: 'priced',
+        pricing: { priced: { prompt: 2, completion: 4 } },
+      });
+
+      const result = await pricedRuntime.execute('Hi');
+
+      expect(result.usage.cost).toBeCloseTo(0.004);
+      expect(pricedRuntime.getMetrics().getMetrics().totalCost).toBeCloseTo(0.004);
+
+      const chunks: StreamChunk[] = [];
+      for await (const chunk of pricedRuntime.stream('Hi')) {
+        chunks.push(chunk);
+      }
+      expect(chunks[chunks.length - 1]?.usage?.cost).toBeCloseTo(0.004);
+    });
+
+    it('should reject calls over budget before reaching the provider', async () => {
+      const provider = new MockProvider({
+        handler: () => ({ content: 'ok', usage: { promptTokens: 1_000_000, completionTokens: 0, totalTokens: 1_000_000 } }),
+      });
+      const budgetRuntime = new AgentRuntime({
+        provider,
+        model: 'priced',
+        pricing: { priced: { prompt: 1, completion: 1 } },
+        budgets: [{ scope: 'user', window: 'daily', limit: 1.5 }],
+      });
+
+      expect((await budgetRuntime.execute('Hi', { userId: 'alice' })).status).toBe('completed');
+      expect((await budgetRuntime.execute('Hi', { userId: 'alice' })).status).toBe('completed');
+      const rejected = await budgetRuntime.execute('Hi', { userId: 'alice' });
+
+      expect(rejected.status).toBe('failed');
+      expect(rejected.error).toContain("Budget exceeded for user 'alice'");
+      expect(provider.requests).toHaveLength(2);
+      expect((await budgetRuntime.execute('Hi', { userId: 'bob' })).status).toBe('completed');
+      expect(budgetRuntime.getBudgets({ userId: 'alice' })[0]?.spent).toBe(2);
+    });
+
+    it('should only warn for warn budgets', async () => {
+      const provider = new MockProvider({
+        handler: () => ({ content: 'ok', usage: { promptTokens: 1_000_000, completionTokens: 0, totalTokens: 1_000_000 } }),
+      });
+      const budgetRuntime = new AgentRuntime({
+        provider,
+        model: 'priced',
+        pricing: { priced: { prompt: 1, completion: 1 } },
+        budgets: [{ scope: 'runtime', window: 'monthly', limit: 0.5, action: 'warn' }],
+      });
+      const warnings: unknown[] = [];
+      budgetRuntime.on('budget:warning', warning => warnings.push(warning));
+
+      await budgetRuntime.execute('Hi');
+      const result = await budgetRuntime.execute('Hi');
+
+      expect(result.status).toBe('completed');
+      expect(warnings).toEqual([expect.objectContaining({ scope: 'runtime', spent: 1, limit: 0.5 })]);
+    });
+
+    it('should check budgets against the fallback model being called', async () => {
+      const provider = new MockProvider({
+        handler: request => request.model === 'primary'
+          ? Promise.reject(new AgentModelError('overloaded', 'mock', 503))
+          : { content: 'answered by backup' },
+      });
+      const budgetRuntime = new AgentRuntime({
+        provider,
+        model: 'primary',
+        fallbacks: [{ model: 'backup' }],
+        retry: { maxRetries: 0 },
+        pricing: { primary: { prompt: 0, completion: 0 }, backup: { prompt: 1_000_000, completion: 0 } },
+        budgets: [{ scope: 'runtime', window: 'daily', limit: 0.5 }],
+      });
+
+      const result = await budgetRuntime.execute('Hi');
+      const chunks: StreamChunk[] = [];
+      for await (const chunk of budgetRuntime.stream('Hi')) {
+        chunks.push(chunk);
+      }
+
+      expect(result).toMatchObject({ status: 'failed', errorCode: 'AGENT_BUDGET_EXCEEDED' });
+      expect(chunks[chunks.length - 1]).toMatchObject({ type: 'error', error: expect.stringContaining('Budget exceeded') });
+      expect(provider.requests.map(request => request.model)).toEqual(['primary', 'primary']);
+    });
+
+    it('should estimate unreported stream usage with the model that answered', async () => {
+      const provider: ModelProvider = {
+        name: 'unmetered',
+        capabilities: () => ({ toolCalling: false, streaming: true, maxContextTokens: 8192 }),
+        complete: () => Promise.reject(new Error('not used')),
+        async *stream(request): AsyncGenerator<ModelStreamDelta> {
+          if (request.model === 'primary') {
+            throw new AgentModelError('overloaded', 'unmetered', 503);
+          }
+          yield { content: 'ok' };
+        },
+      };
+      const tokenizers = new TokenizerRegistry()
+        .register('wide', { name: 'wide', count: () => 100 })
+        .mapModel('backup', 'wide');
+      const fallbackRuntime = new AgentRuntime({
+        provider,
+        tokenizers,
+        model: 'primary',
+        fallbacks: [{ model: 'backup' }],
+        retry: { maxRetries: 0 },
+      });
+
+      const chunks: StreamChunk[] = [];
+      for await (const chunk of fallbackRuntime.stream('Hi')) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks[chunks.length - 1]?.usage?.promptTokens).toBeGreaterThanOrEqual(200);
+      expect(chunks[chunks.length - 1]?.usage?.completionTokens).toBe(100);
+    });
+  });
+
+  describe('context window', () => {
+    const smallWindow = (maxContextTokens: number) => new MockProvider({
+      capabilities: { toolCalling: true, streaming: true, maxContextTokens },
+    });
+
+    it('should reject prompts that do not fit with maxTokens', async () => {
+      const provider = smallWindow(200);
+      const contextRuntime = new AgentRuntime({ provider, maxTokens: 150 });
+
+      const result = await contextRuntime.execute('word '.repeat(100));
+
+      expect(result.status).toBe('failed');
+      expect(result.error).toMatch(/exceeds the 200-token context window of 'gpt-4-turbo-preview'/);
+      expect(provider.requests).toHaveLength(0);
+    });
+
+    it('should count each message once and skip estimates for reported usage', async () => {
+      const count = jest.fn((text: string) => text.length);
+      const countingRuntime = new AgentRuntime({
+        provider: new MockProvider({ responses: [{ content: 'streamed answer' }] }),
+        tokenizers: new TokenizerRegistry().register('cl100k_base', { name: 'chars', count }),
+        rateLimit: { enabled: true, tokensPerMinute: 1_000_000 },
+        budgets: [{ scope: 'runtime', window: 'daily', limit: 100 }],
+      });
+
+      const chunks: StreamChunk[] = [];
+      for await (const chunk of countingRuntime.stream('Hello there')) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks[chunks.length - 1]?.type).toBe('done');
+      expect(count.mock.calls.filter(([text]) => text === 'Hello there')).toHaveLength(1);
+      expect(count).not.toHaveBeenCalledWith('streamed answer');
+    });
+
+    it('should trim the oldest turns when configured to', async () => {
+      const provider = smallWindow(120);
+      const memory = new AgentMemory();
+      const contextRuntime = new AgentRuntime({ provider, memory, maxTokens: 50, contextOverflow: 'trim' });
+      const trimmed: unknown[] = [];
+      contextRuntime.on('context:trimmed', event => trimmed.push(event));
+
+      await memory.append('c', [
+        { role: 'user', content: 'old '.repeat(80) },
+        { role: 'assistant', content: 'reply' },
+      ]);
+      const result = await contextRuntime.execute('latest question', { conversationId: 'c' });
+
+      expect(result.status).toBe('completed');
+      expect(provider.requests[0]?.messages.map(m => m.content)).toEqual([
+        'You are a helpful AI assistant.',
+        'reply',
+        'latest question',
+      ]);
+      expect(result.messages).toHaveLength(5);
+      expect(trimmed).toEqual([expect.objectContaining({ dropped: 1 })]);
+    });
+  });
+
+  describe('rate limiting', () => {
+    it('should fail fast without calling the provider once the budget is spent', async () => {
+      const provider = new MockProvider();
+      const limitedRuntime = new AgentRuntime({
+        provider,
+        rateLimit: { enabled: true, requestsPerMinute: 1, onLimit: 'fail' },
+      });
+
+      expect((await limitedRuntime.execute('1')).status).toBe('completed');
+      const limited = await limitedRuntime.execute('2');
+
+      expect(limited.status).toBe('failed');
+      expect(limited.error).toBe('Client-side rate limit exceeded');
+      expect(provider.requests).toHaveLength(1);
+      expect(limitedRuntime.getRateLimits().mock?.availableRequests).toBe(0);
+    });
+
+    it('should not spend the rate budget on calls refused by an open circuit', async () => {
+      const provider = new MockProvider({ handler: () => Promise.reject(new AgentModelError('overloaded', 'mock', 503)) });
+      const guardedRuntime = new AgentRuntime({
+        provider,
+        retry: { maxRetries: 0 },
+        circuitBreaker: { enabled: true, failureThreshold: 1, successThreshold: 1, timeout: 60000 },
+        rateLimit: { enabled: true, requestsPerMinute: 3, onLimit: 'fail' },
+      });
+
+      await guardedRuntime.execute('1');
+      const refused = await guardedRuntime.execute('2');
+
+      expect(refused.errorCode).toBe('AGENT_CIRCUIT_OPEN');
+      expect(provider.requests).toHaveLength(1);
+      expect(guardedRuntime.getRateLimits().mock?.availableRequests).toBe(2);
+    });
+  });
+
+  describe('bulkheads and hedging', () => {
+    it('should reject executions once a user bulkhead is full', async () => {
+      let finish: () => void = () => undefined;
+      const provider = new MockProvider({
+        handler: () => new Promise(resolve => {
+          finish = () => resolve({ content: 'done' });
+        }),
+      });
+      const isolated = new AgentRuntime({
+        provider,
+        bulkhead: { enabled: true, scope: 'user', maxConcurrent: 1, maxQueue: 0 },
+      });
+
+      const first = isolated.execute('1', { userId: 'u1' });
+      await new Promise(resolve => setImmediate(resolve));
+      const rejected = await isolated.execute('2', { userId: 'u1' });
+
+      expect(rejected).toMatchObject({ status: 'failed', errorCode: 'AGENT_BULKHEAD_FULL' });
+      expect((await isolated.health()).checks['bulkhead:user:u1']).toEqual({
+        status: 'warn',
+        message: '1/1 running, 0 waiting, 1 rejected',
+      });
+
+      finish();
+      expect((await first).status).toBe('completed');
+      expect(isolated.getBulkheads()['user:u1']).toMatchObject({ active: 0, rejected: 1 });
+    });
+
+    it('should hedge slow provider calls', async () => {
+      let calls = 0;
+      const provider = new MockProvider({
+        handler: request => new Promise((resolve, reject) => {
+          const call = calls++;
+          const timer = setTimeout(() => resolve({ content: `call ${call}` }), call === 0 ? 1000 : 5);
+          request.signal?.addEventListener('abort', () => {
+            clearTimeout(timer);
+            reject(request.signal?.reason);
+          });
+        }),
+      });
+      const hedged = new AgentRuntime({ provider, hedging: { enabled: true, delay: 20 } });
+      const hedges: unknown[] = [];
+      hedged.on('execution:hedge', event => hedges.push(event));
+
+      const result = await hedged.execute('Hi');
+
+      expect(result.output).toBe('call 1');
+      expect(hedges).toEqual([{ executionId: result.id, model: 'gpt-4-turbo-preview', attempt: 1 }]);
+      expect((await hedged.health()).checks.hedging?.message).toBe('Hedging after 20ms, 1 hedged calls');
+    });
+  });
+
+  describe('structured output', () => {
+    const schema: JSONSchema = {
+      type: 'object',
+      required: ['city', 'population'],
+      properties: { city: { type: 'string' }, population: { type: 'integer', minimum: 0 } },
+    };
+
+    it('should request JSON and return the parsed output', async () => {
+      const provider = new MockProvider({ responses: [{ content: '```json\n{"city":"Paris","population":2100000}\n```' }] });
+      const structured = new AgentRuntime({ provider });
+
+      const result = await structured.execute<{ city: string; population: number }>('Largest city in France?', {
+        responseSchema: schema,
+      });
+
+      expect(provider.requests[0]!.options.responseFormat).toEqual({ type: 'json', schema });
+      expect(result.parsed?.city).toBe('Paris');
+      expect(result.metadata).toMatchObject({ repairs: 0 });
+    });
+
+    it('should feed validation errors back for a repair turn', async () => {
+      const provider = new MockProvider({
+        responses: [
+          { content: '{"city":"Paris","population":"2.1M"}' },
+          { content: '{"city":"Paris","population":2100000}' },
+        ],
+      });
+      const structured = new AgentRuntime({ provider });
+      const repairs: unknown[] = [];
+      structured.on('execution:repair', event => repairs.push(event));
+
+      const result = await structured.execute('Largest city in France?', { responseSchema: schema, maxIterations: 1 });
+
+      expect(result.status).toBe('completed');
+      expect(result.parsed).toEqual({ city: 'Paris', population: 2100000 });
+      expect(provider.requests[1]!.messages.at(-1)?.content).toBe(
+        'Your response did not match the required JSON schema: $.population must be integer. Reply with only the corrected JSON.'
+      );
+      expect(repairs).toHaveLength(1);
+      expect(result.metadata).toMatchObject({ iterations: 2, repairs: 1 });
+    });
+
+    it('should fail with the failing path once repairs run out', async () => {
+      const provider = new MockProvider({ handler: () => ({ content: '{"city":"Paris"}' }) });
+      const structured = new AgentRuntime({ provider });
+
+      const result = await structured.execute('Largest city in France?', { responseSchema: schema, repairAttempts: 1 });
+
+      expect(provider.requests).toHaveLength(2);
+      expect(result).toMatchObject({ status: 'failed', errorCode: 'AGENT_VALIDATION_ERROR' });
+      expect(result.failure).toBeInstanceOf(AgentValidationError);
+      expect((result.failure as AgentValidationError).field).toBe('$.population');
+    });
+
+    it('should repair streamed output and report the parsed value', async () => {
+      const provider = new MockProvider({ responses: [{ content: 'Paris, about 2.1M' }, { content: '{"city":"Paris","population":2100000}' }] });
+      const structured = new AgentRuntime({ provider });
+      const chunks: StreamChunk[] = [];
+
+      for await (const chunk of structured.stream('Largest city in France?', { responseSchema: schema })) {
+        chunks.push(chunk);
+      }
+
+      expect(provider.requests[1]!.messages.at(-1)?.content).toMatch(/^Your response did not match the required JSON schema: \$ is not valid JSON/);
+      expect(chunks.at(-1)).toMatchObject({ type: 'done', parsed: { city: 'Paris', population: 2100000 } });
+    });
+  });
+
+  describe('cancellation', () => {
+    const hangingProvider = (seen: AbortSignal[]): ModelProvider => ({
+      name: 'hanging',
+      capabilities: () => ({ toolCalling: false, streaming: true, maxContextTokens: 8192 }),
+      complete: request => new Promise((_, reject) => {
+        seen.push(request.signal!);
+        request.signal!.addEventListener('abort', () => reject(request.signal!.reason));
+      }),
+      async *stream(request): AsyncGenerator<ModelStreamDelta> {
+        yield { content: 'first' };
+        await new Promise((_, reject) => {
+          request.signal!.addEventListener('abort', () => reject(request.signal!.reason));
+        });
+      },
+    });
+
+    it('should cancel an execution by id and abort the provider request', async () => {
+      const signals: AbortSignal[] = [];
+      const cancelRuntime = new AgentRuntime({ provider: hangingProvider(signals) });
+      const cancelled = jest.fn();
+      cancelRuntime.on('execution:cancelled', cancelled);
+      cancelRuntime.on('execution:start', ({ executionId }) => {
+        setTimeout(() => cancelRuntime.cancel(executionId), 10);
+      });
+
+      const result = await cancelRuntime.execute('Hang');
+
+      expect(result.status).toBe('cancelled');
+      expect(signals[0]?.aborted).toBe(true);
+      expect(cancelled).toHaveBeenCalledWith(expect.objectContaining({ executionId: result.id }));
+      expect(cancelRuntime.getMetrics().getMetrics().cancellations).toBe(1);
+      expect(cancelRuntime.getMetrics().getMetrics().failures).toBe(0);
+      expect(cancelRuntime.cancel(result.id)).toBe(false);
+    });
+
+    it('should honour a caller AbortSignal', async () => {
+      const controller = new AbortController();
+      const cancelRuntime = new AgentRuntime({ provider: hangingProvider([]) });
+      setTimeout(() => controller.abort(), 10);
+
+      const result = await cancelRuntime.execute('Hang', { signal: controller.signal });
+
+      expect(result.status).toBe('cancelled');
+    });
+
+    it('should abort pending retry sleeps', async () => {
+      const provider = new MockProvider({ handler: () => Promise.reject(new AgentModelError('down', 'mock', 500)) });
+      const cancelRuntime = new AgentRuntime({
+        provider,
+        retry: { maxRetries: 3, baseDelay: 10000, maxDelay: 10000 },
+      });
+      const controller = new AbortController();
+      cancelRuntime.on('execution:retry', () => controller.abort());
+
+      const started = Date.now();
+      const result = await cancelRuntime.execute('Retry', { signal: controller.signal });
+
+      expect(result.status).toBe('cancelled');
+      expect(Date.now() - started).toBeLessThan(1000);
+      expect(provider.requests).toHaveLength(1);
+    });
+
+    it('should abort the provider request on timeout', async () => {
+      const signals: AbortSignal[] = [];
+      const timeoutRuntime = new AgentRuntime({ provider: hangingProvider(signals), timeout: 20 });
+
+      const result = await timeoutRuntime.execute('Hang');
+
+      expect(result.status).toBe('timeout');
+      expect(result.failure).toBeInstanceOf(AgentTimeoutError);
+      expect(signals[0]?.reason).toBeInstanceOf(AgentTimeoutError);
+    });
+
+    it('should cancel a stream', async () => {
+      const cancelRuntime = new AgentRuntime({ provider: hangingProvider([]) });
+      const controller = new AbortController();
+
+      const chunks: StreamChunk[] = [];
+      for await (const chunk of cancelRuntime.stream('Hang', { signal: controller.signal })) {
+        chunks.push(chunk);
+        controller.abort();
+      }
+
+      expect(chunks.map(c => c.type)).toEqual(['content', 'error']);
+      expect(cancelRuntime.getMetrics().getMetrics().cancellations).toBe(1);
+    });
+  });
+
+  describe('tracing', () => {
+    const traceId = '4bf92f3577b34da6a3ce929d0e0e4736';
+
+    it('should record execution, attempt, provider and tool spans', async () => {
+      let calls = 0;
+      const requests: ModelRequest[] = [];
+      const provider = new MockProvider({
+        handler: async request => {
+          requests.push(request);
+          calls++;
+          if (calls === 1) {
+            throw new AgentModelError('overloaded', 'mock', 503);
+          }
+          if (calls === 2) {
+            return { toolCalls: [{ id: 'call_1', name: 'add', arguments: { a: 2, b: 3 } }], finishReason: 'tool_calls' };
+          }
+          return { content: '5', usage: { promptTokens: 20, completionTokens: 1, totalTokens: 21 } };
+        },
+      });
+      const tools = new ToolRegistry().register({
+        name: 'add',
+        description: 'Add two numbers',
+        parameters: { type: 'object', properties: { a: { type: 'number' }, b: { type: 'number' } } },
+        execute: ({ a, b }: { a: number; b: number }) => a + b,
+      });
+      const exporter = new InMemorySpanExporter();
+      const tracedRuntime = new AgentRuntime({
+        provider,
+        tools,
+        retry: { maxRetries: 1, baseDelay: 1, maxDelay: 1 },
+        tracing: { enabled: true, exporter },
+      });
+
+      const result = await tracedRuntime.execute('2 + 3?', {
+        userId: 'user-1',
+        metadata: { traceparent: `00-${traceId}-00f067aa0ba902b7-01` },
+      });
+      const spans = exporter.getFinishedSpans();
+      const root = spans.find(span => span.name === 'agent.execution')!;
+      const attempts = spans.filter(span => span.name === 'agent.attempt');
+      const providerCalls = spans.filter(span => span.name === 'chat gpt-4-turbo-preview');
+      const tool = spans.find(span => span.name === 'execute_tool add')!;
+
+      expect(result.status).toBe('completed');
+      expect(spans.every(span => span.traceId === traceId)).toBe(true);
+      expect(root.parentSpanId).toBe('00f067aa0ba902b7');
+      expect(root.attributes).toMatchObject({
+        'agent.execution.id': result.id,
+        'agent.execution.status': 'completed',
+        'enduser.id': 'user-1',
+        'gen_ai.usage.output_tokens': result.usage.completionTokens,
+      });
+      expect(attempts.map(span => span.parentSpanId)).toEqual([root.spanId, root.spanId, root.spanId]);
+      expect(attempts[0]).toMatchObject({ status: 'error', attributes: { 'agent.attempt': 1, 'error.code': 'AGENT_MODEL_ERROR' } });
+      expect(attempts[1]).toMatchObject({ status: 'ok', attributes: { 'agent.attempt': 2 } });
+      expect(providerCalls.map(span => span.parentSpanId)).toEqual(attempts.map(span => span.spanId));
+      expect(providerCalls[2]?.attributes['gen_ai.usage.input_tokens']).toBe(20);
+      expect(tool).toMatchObject({ parentSpanId: root.spanId, attributes: { 'gen_ai.tool.call.id': 'call_1' } });
+      expect(requests[1]?.traceparent).toBe(`00-${traceId}-${providerCalls[1]!.spanId}-01`);
+      expect(result.metadata?.traceparent).toBe(`00-${traceId}-${root.spanId}-01`);
+    });
+
+    it('should record failures on the root span of a stream', async () => {
+      const exporter = new InMemorySpanExporter();
+      const tracedRuntime = new AgentRuntime({ retry: { maxRetries: 0 }, tracing: { enabled: true, exporter } });
+
+      for await (const _chunk of tracedRuntime.stream('Hi')) {
+        // drain
+      }
+
+      const [root] = exporter.getFinishedSpans();
+      expect(root).toMatchObject({
+        name: 'agent.stream',
+        parentSpanId: undefined,
+        status: 'error',
+        attributes: { 'agent.execution.status': 'failed', 'error.code': 'NO_PROVIDER' },
+      });
+    });
+
+    it('should not export spans of an unsampled trace', async () => {
+      const exporter = new InMemorySpanExporter();
+      const tracedRuntime = new AgentRuntime({ provider: new MockProvider(), tracing: { enabled: true, exporter } });
+
+      const result = await tracedRuntime.execute('Hi', {
+        metadata: { traceparent: `00-${traceId}-00f067aa0ba902b7-00` },
+      });
+
+      expect(exporter.getFinishedSpans()).toHaveLength(0);
+      expect(result.metadata?.traceparent).toMatch(new RegExp(`^00-${traceId}-[0-9a-f]{16}-00$`));
+    });
+  });
+
   describe('health check', () => {
     it('should return healthy status after initialization', async () => {
       await runtime.initialize();
@@ -154,6 +911,7 @@ describe('AgentRuntime', () => {
   describe('metrics', () => {
     it('should collect execution metrics', async () => {
       const metricsRuntime = new AgentRuntime({
+        provider: new MockProvider(),
         metrics: { enabled: true },
         circuitBreaker: { enabled: false },
       });
@@ -171,6 +929,7 @@ describe('AgentRuntime', () => {
 
     it('should generate Prometheus format metrics', async () => {
       const metricsRuntime = new AgentRuntime({
+        provider: new MockProvider(),
         metrics: { enabled: true, labels: { service: 'test' } },
         circuitBreaker: { enabled: false },
       });
@@ -199,6 +958,116 @@ describe('AgentRuntime', () => {
       
       expect(chunks.length).toBeGreaterThan(0);
     });
+
+    it('should stream provider output and finish with its usage', async () => {
+      const provider = new MockProvider({
+        responses: [{
+          content: 'Hello streaming world',
+          usage: { promptTokens: 9, completionTokens: 3, totalTokens: 12 },
+        }],
+      });
+      const streamRuntime = new AgentRuntime({ provider, circuitBreaker: { enabled: false } });
+
+      const chunks: StreamChunk[] = [];
+      for await (const chunk of streamRuntime.stream('Hi')) {
+        chunks.push(chunk);
+      }
+
+      const text = chunks.filter(c => c.type === 'content').map(c => c.content).join('');
+      expect(text).toBe('Hello streaming world');
+      expect(chunks[chunks.length - 1]).toEqual({
+        type: 'done',
+        usage: { promptTokens: 9, completionTokens: 3, totalTokens: 12, cost: expect.closeTo(0.00018, 10) },
+      });
+      expect(streamRuntime.getMetrics().getMetrics().totalTokens).toBe(12);
+    });
+
+    it('should assemble partial tool call chunks', async () => {
+      let turn = 0;
+      const provider: ModelProvider = {
+        name: 'fragments',
+        capabilities: () => ({ toolCalling: true, streaming: true, maxContextTokens: 8192 }),
+        complete: () => Promise.reject(new Error('not used')),
+        async *stream(): AsyncGenerator<ModelStreamDelta> {
+          if (turn++ === 0) {
+            yield { toolCalls: [{ index: 0, id: 'call_1', name: 'add', arguments: '{"a":' }] };
+            yield { toolCalls: [{ index: 0, arguments: '2,"b":3}' }] };
+            yield { finishReason: 'tool_calls', usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 } };
+          } else {
+            yield { content: '5' };
+            yield { finishReason: 'stop', usage: { promptTokens: 20, completionTokens: 1, totalTokens: 21 } };
+          }
+        },
+      };
+      const tools = new ToolRegistry().register({
+        name: 'add',
+        description: 'Add two numbers',
+        parameters: { type: 'object', properties: { a: { type: 'number' }, b: { type: 'number' } } },
+        execute: ({ a, b }: { a: number; b: number }) => a + b,
+      });
+      const streamRuntime = new AgentRuntime({ provider, tools, metrics: { enabled: false } });
+
+      const chunks: StreamChunk[] = [];
+      for await (const chunk of streamRuntime.stream('2 + 3?')) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks.filter(c => c.type === 'tool_call_delta')).toHaveLength(2);
+      expect(chunks.find(c => c.type === 'tool_call')?.toolCall).toEqual({
+        id: 'call_1',
+        name: 'add',
+        arguments: { a: 2, b: 3 },
+        result: 5,
+      });
+      expect(chunks[chunks.length - 1]?.usage).toEqual({
+        promptTokens: 30,
+        completionTokens: 6,
+        totalTokens: 36,
+        cost: expect.closeTo(0.00048, 10),
+      });
+    });
+
+    it('should retry, count failures and emit an error chunk', async () => {
+      const provider = new MockProvider({ handler: () => Promise.reject(new AgentModelError('down', 'mock', 503)) });
+      const streamRuntime = new AgentRuntime({
+        provider,
+        retry: { maxRetries: 2, baseDelay: 1, maxDelay: 5 },
+        circuitBreaker: { failureThreshold: 3 },
+      });
+
+      const chunks: StreamChunk[] = [];
+      for await (const chunk of streamRuntime.stream('Hi')) {
+        chunks.push(chunk);
+      }
+
+      expect(provider.requests).toHaveLength(3);
+      expect(chunks).toEqual([{ type: 'error', error: 'down', failure: expect.any(AgentModelError) }]);
+      expect(streamRuntime.getMetrics().getMetrics().failures).toBe(1);
+      expect((await streamRuntime.health()).checks['circuitBreaker:mock:gpt-4-turbo-preview']?.status).toBe('fail');
+    });
+
+    it('should time out slow streams', async () => {
+      const provider: ModelProvider = {
+        name: 'slow',
+        capabilities: () => ({ toolCalling: false, streaming: true, maxContextTokens: 8192 }),
+        complete: () => Promise.reject(new Error('not used')),
+        async *stream(): AsyncGenerator<ModelStreamDelta> {
+          yield { content: 'partial' };
+          await new Promise(resolve => setTimeout(resolve, 500));
+          yield { content: ' never' };
+        },
+      };
+      const streamRuntime = new AgentRuntime({ provider, timeout: 50, circuitBreaker: { enabled: false } });
+
+      const chunks: StreamChunk[] = [];
+      for await (const chunk of streamRuntime.stream('Hi')) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks[0]).toEqual({ type: 'content', content: 'partial' });
+      expect(chunks[1]?.type).toBe('error');
+      expect(streamRuntime.getMetrics().getMetrics().timeouts).toBe(1);
+    });
   });
 });
 
@@ -224,6 +1093,7 @@ describe('AgentError', () => {
     expect(json.message).toBe('Test');
     expect(json.code).toBe('CODE');
     expect(json.metadata).toEqual({ key: 'value' });
+    expect(json).not.toHaveProperty('stack');
   });
 });
 
@@ -261,4 +1131,20 @@ describe('AgentRateLimitError', () => {
     expect(error.limit).toBe(1000);
     expect(error.remaining).toBe(0);
   });
+
+  it('should read an HTTP-date Retry-After as seconds from now', () => {
+    const date = new Date(Date.now() + 30000).toUTCString();
+
+    const error = AgentRateLimitError.fromHeaders({ 'retry-after': date });
+
+    expect(error.retryAfter).toBeGreaterThanOrEqual(29);
+    expect(error.retryAfter).toBeLessThanOrEqual(30);
+  });
+
+  it('should drop unusable Retry-After values', () => {
+    expect(AgentRateLimitError.fromHeaders({ 'retry-after': 'soon' }).retryAfter).toBeUndefined();
+    expect(AgentRateLimitError.fromHeaders({ 'retry-after': 'Wed, 21 Oct 2015 07:28:00 GMT' }).retryAfter).toBeUndefined();
+    expect(new AgentRateLimitError('Rate limited', NaN).retryAfter).toBeUndefined();
+    expect(new AgentRateLimitError('Rate limited', -5).retryAfter).toBeUndefined();
+  });
 });
@@ -0,0 +1,194 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Execution Store Tests
+ */
+
+import { mkdtempSync, readdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  ExecutionRecord,
+  ExecutionStore,
+  InMemoryExecutionStore,
+  FileExecutionStore,
+  toExecutionRecord,
+} from '../src/store.js';
+import { AgentRuntime } from '../src/runtime.js';
+import { MockProvider } from '../src/providers.js';
+import { ToolRegistry } from '../src/tools.js';
+import { AgentModelError } from '../src/errors.js';
+
+function record(id: string, overrides: Partial<ExecutionRecord> = {}): ExecutionRecord {
+  const startedAt = overrides.startedAt ?? Date.now();
+
+  return {
+    id,
+    status: 'completed',
+    output: `output ${id}`,
+    messages: [],
+    toolCalls: [],
+    usage: { promptTokens: 1, completionTokens: 1, totalTokens: 2 },
+    duration: 10,
+    task: `task ${id}`,
+    startedAt,
+    completedAt: startedAt + 10,
+    ...overrides,
+  };
+}
+
+const directories: string[] = [];
+
+function tempDirectory(): string {
+  const directory = mkdtempSync(join(tmpdir(), 'agent-store-'));
+  directories.push(directory);
+  return directory;
+}
+
+afterAll(() => {
+  for (const directory of directories) {
+    rmSync(directory, { recursive: true, force: true });
+  }
+});
+
+describe.each([
+  ['InMemoryExecutionStore', () => new InMemoryExecutionStore()],
+  ['FileExecutionStore', () => new FileExecutionStore(tempDirectory())],
+])('%s', (_name, create: () => ExecutionStore) => {
+  let store: ExecutionStore;
+  const now = Date.now();
+
+  beforeEach(async () => {
+    store = create();
+    await store.save(record('a', { userId: 'u1', sessionId: 's1', startedAt: now - 3000 }));
+    await store.save(record('b', { userId: 'u1', sessionId: 's2', status: 'failed', startedAt: now - 2000 }));
+    await store.save(record('c', { userId: 'u2', sessionId: 's1', status: 'cancelled', startedAt: now - 1000 }));
+  });
+
+  it('should get a saved record by id', async () => {
+    expect(await store.get('b')).toMatchObject({ id: 'b', status: 'failed', task: 'task b' });
+    expect(await store.get('missing')).toBeUndefined();
+  });
+
+  it('should filter by user, session, status and time range', async () => {
+    const ids = async (query: Parameters<ExecutionStore['query']>[0]) =>
+      (await store.query(query)).items.map(item => item.id);
+
+    expect(await ids({})).toEqual(['c', 'b', 'a']);
+    expect(await ids({ userId: 'u1' })).toEqual(['b', 'a']);
+    expect(await ids({ sessionId: 's1' })).toEqual(['c', 'a']);
+    expect(await ids({ status: ['failed', 'cancelled'] })).toEqual(['c', 'b']);
+    expect(await ids({ from: now - 2000, to: new Date(now - 1000) })).toEqual(['b']);
+  });
+
+  it('should paginate newest first', async () => {
+    const first = await store.query({ limit: 2 });
+    const second = await store.query({ limit: 2, offset: first.nextOffset });
+
+    expect(first).toMatchObject({ total: 3, nextOffset: 2 });
+    expect(first.items.map(item => item.id)).toEqual(['c', 'b']);
+    expect(second.items.map(item => item.id)).toEqual(['a']);
+    expect(second.nextOffset).toBeUndefined();
+  });
+
+  it('should prune records completed before a time', async () => {
+    expect(await store.prune(now - 1500)).toBe(2);
+    expect((await store.query()).items.map(item => item.id)).toEqual(['c']);
+  });
+});
+
+describe('ExecutionStore TTL', () => {
+  it('should hide expired records and remove them on save', async () => {
+    const store = new InMemoryExecutionStore({ ttl: 1000 });
+    const old = Date.now() - 5000;
+
+    await store.save(record('old', { startedAt: old }));
+    expect(await store.get('old')).toBeUndefined();
+    expect((await store.query()).total).toBe(0);
+
+    await store.save(record('new'));
+    expect(await store.prune(0)).toBe(0);
+    expect((await store.query()).items.map(item => item.id)).toEqual(['new']);
+  });
+
+  it('should write one file per execution and delete pruned files', async () => {
+    const directory = tempDirectory();
+    const store = new FileExecutionStore(directory);
+
+    await store.save(record('exec/1', { startedAt: 0 }));
+    await store.save(record('exec_2'));
+    expect(readdirSync(directory).sort()).toEqual(['exec%2F1.json', 'exec_2.json']);
+
+    await store.prune(Date.now() - 1000);
+    expect(readdirSync(directory)).toEqual(['exec_2.json']);
+  });
+});
+
+describe('toExecutionRecord', () => {
+  it('should add execution details and serialize the failure', () => {
+    const failure = new AgentModelError('bad request', 'mock', 400);
+    const stored = toExecutionRecord(
+      { ...record('x'), status: 'failed', failure },
+      { task: 'Hi', userId: 'u1', startedAt: 1000 }
+    );
+
+    expect(stored).toMatchObject({ task: 'Hi', userId: 'u1', startedAt: 1000, completedAt: 1010 });
+    expect(stored.failure).toEqual(failure.toJSON());
+  });
+});
+
+describe('AgentRuntime execution store', () => {
+  it('should save executions and streams for getExecution()', async () => {
+    const tools = new ToolRegistry().register({
+      name: 'lookup',
+      description: 'Look up an order',
+      parameters: { type: 'object', properties: {} },
+      execute: () => 'shipped',
+    });
+    const provider = new MockProvider({
+      responses: [
+        { toolCalls: [{ id: 'call_1', name: 'lookup', arguments: {} }], finishReason: 'tool_calls' },
+        { content: 'Your order shipped' },
+        { content: 'Streamed' },
+      ],
+    });
+    const store = new InMemoryExecutionStore();
+    const runtime = new AgentRuntime({ provider, tools, store });
+
+    const result = await runtime.execute('Where is my order?', { userId: 'u1', sessionId: 's1' });
+    const saved = await runtime.getExecution(result.id);
+
+    expect(saved).toMatchObject({
+      id: result.id,
+      status: 'completed',
+      task: 'Where is my order?',
+      userId: 'u1',
+      sessionId: 's1',
+      output: 'Your order shipped',
+      usage: result.usage,
+    });
+    expect(saved!.toolCalls).toHaveLength(1);
+    expect(saved!.messages).toHaveLength(result.messages.length);
+
+    for await (const _chunk of runtime.stream('Stream please', { userId: 'u1' })) {
+      // drain
+    }
+    expect((await store.query({ userId: 'u1' })).total).toBe(2);
+    expect(await new AgentRuntime({ provider }).getExecution(result.id)).toBeUndefined();
+  });
+
+  it('should report store failures without failing the execution', async () => {
+    const store = new InMemoryExecutionStore();
+    store.save = () => Promise.reject(new Error('disk full'));
+    const runtime = new AgentRuntime({ provider: new MockProvider({ responses: [{ content: 'Hi' }] }), store });
+    const errors: unknown[] = [];
+    runtime.on('store:error', event => errors.push(event));
+
+    const result = await runtime.execute('Hello');
+
+    expect(result.status).toBe('completed');
+    expect(errors).toEqual([{ executionId: result.id, error: expect.objectContaining({ message: 'disk full' }) }]);
+  });
+});
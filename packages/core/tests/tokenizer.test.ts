@@ -0,0 +1,131 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tokenizer Tests
+ */
+
+import {
+  ApproximateTokenizer,
+  BpeTokenizer,
+  TokenizerRegistry,
+  countMessageTokens,
+  getEncoding,
+} from '../src/tokenizer.js';
+
+/**
+ * Tiny byte-level vocabulary: every single byte plus a few merges
+ */
+function tinyTiktoken(merges: string[]): string {
+  const lines: string[] = [];
+  for (let byte = 0; byte < 256; byte++) {
+    lines.push(`${Buffer.from([byte]).toString('base64')} ${byte}`);
+  }
+  merges.forEach((token, index) => {
+    lines.push(`${Buffer.from(token, 'utf8').toString('base64')} ${256 + index}`);
+  });
+  return lines.join('\n');
+}
+
+describe('BpeTokenizer', () => {
+  const tokenizer = BpeTokenizer.fromTiktoken('tiny', tinyTiktoken(['he', 'll', 'hell', 'hello', ' w']));
+
+  it('should merge pieces by rank', () => {
+    expect(tokenizer.encode('hello')).toEqual([259]);
+    expect(tokenizer.encode('help')).toEqual([256, 'l'.charCodeAt(0), 'p'.charCodeAt(0)]);
+  });
+
+  it('should split on the pre-tokenization pattern first', () => {
+    // "hello" and " world" are separate pieces, so "o w" never merges
+    expect(tokenizer.encode('hello world')).toEqual([259, 260, ...Buffer.from('orld')]);
+    expect(tokenizer.count('hello world')).toBe(6);
+  });
+
+  it('should fall back to bytes for other scripts', () => {
+    expect(tokenizer.count('日本')).toBe(Buffer.byteLength('日本'));
+  });
+});
+
+describe('getEncoding', () => {
+  it('should encode with the bundled cl100k_base ranks', () => {
+    const cl100k = getEncoding('cl100k_base');
+
+    expect(cl100k.encode('hello world')).toEqual([15339, 1917]);
+    expect(cl100k.encode('The quick brown fox jumps over the lazy dog'))
+      .toEqual([791, 4062, 14198, 39935, 35308, 927, 279, 16053, 5679]);
+    expect(cl100k.count('東京は日本の首都です')).toBe(10);
+    expect(cl100k.count('if (a[i] !== b[j]) { return -1; }')).toBe(15);
+  });
+
+  it('should encode with the bundled o200k_base ranks', () => {
+    const o200k = getEncoding('o200k_base');
+
+    expect(o200k.encode('hello world')).toEqual([24912, 2375]);
+    expect(o200k.count('The quick brown fox jumps over the lazy dog')).toBe(9);
+    expect(o200k.count('東京は日本の首都です')).toBe(7);
+  });
+
+  it('should merge long pieces without rescanning every pair', () => {
+    const letters = Array.from({ length: 20_000 }, (_, i) => 'abcdefghijklmnopqrstuvwxyz'[(i * 7919) % 26]).join('');
+
+    expect(getEncoding('o200k_base').count(letters)).toBe(11538);
+  });
+
+  it('should decode each rank table once and reject unknown encodings', () => {
+    expect(getEncoding('cl100k_base')).toBe(getEncoding('cl100k_base'));
+    expect(() => getEncoding('p50k_base')).toThrow("Unknown encoding 'p50k_base'");
+  });
+});
+
+describe('ApproximateTokenizer', () => {
+  const tokenizer = new ApproximateTokenizer('cl100k_base');
+
+  it('should count short English words as one token each', () => {
+    expect(tokenizer.count('The quick brown fox jumps over the lazy dog')).toBe(9);
+  });
+
+  it('should count non-Latin text well above four characters a token', () => {
+    const text = '東京は日本の首都です';
+    expect(tokenizer.count(text)).toBeGreaterThanOrEqual(text.length);
+  });
+
+  it('should count punctuation-heavy code more densely than prose', () => {
+    const code = 'if (a[i] !== b[j]) { return -1; }';
+    expect(tokenizer.count(code)).toBeGreaterThan(Math.ceil(code.length / 4));
+  });
+});
+
+describe('TokenizerRegistry', () => {
+  it('should map model families to the bundled encodings', () => {
+    const registry = new TokenizerRegistry();
+
+    expect(registry.forModel('gpt-4o-mini')).toBe(getEncoding('o200k_base'));
+    expect(registry.forModel('gpt-4-turbo-preview')).toBe(getEncoding('cl100k_base'));
+  });
+
+  it('should approximate models without a known encoding', () => {
+    const registry = new TokenizerRegistry().mapModel('llama', 'llama3');
+
+    expect(registry.forModel('unknown-model')).toBeInstanceOf(ApproximateTokenizer);
+    expect(registry.forModel('llama-3-70b').name).toBe('approximate');
+  });
+
+  it('should use registered tokenizers and custom mappings', () => {
+    const custom = { name: 'custom', count: (text: string) => text.length };
+    const registry = new TokenizerRegistry().register('custom', custom).mapModel('llama', 'custom');
+
+    expect(registry.forModel('llama-3-70b')).toBe(custom);
+  });
+});
+
+describe('countMessageTokens', () => {
+  it('should add per-message overhead and tool call arguments', () => {
+    const tokenizer = { name: 'chars', count: (text: string) => text.length };
+
+    expect(countMessageTokens(tokenizer, [
+      { role: 'user', content: 'abcd' },
+      { role: 'assistant', content: '', toolCalls: [{ id: '1', name: 'f', arguments: { a: 1 } }] },
+    ])).toBe(3 + (3 + 4) + (3 + 0 + 3 + 1 + '{"a":1}'.length));
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tool Registry Tests
+ */
+
+import { ToolRegistry, Tool } from '../src/tools.js';
+import { AgentRuntime } from '../src/runtime.js';
+import { MockProvider } from '../src/providers.js';
+import { AgentToolError, AgentValidationError } from '../src/errors.js';
+
+const weatherTool: Tool<{ city: string; days?: number }> = {
+  name: 'get_weather',
+  description: 'Get the weather forecast for a city',
+  parameters: {
+    type: 'object',
+    properties: {
+      city: { type: 'string', minLength: 1 },
+      days: { type: 'integer', minimum: 1, maximum: 7 },
+    },
+    required: ['city'],
+    additionalProperties: false,
+  },
+  execute: ({ city, days = 1 }) => ({ city, days, forecast: 'sunny' }),
+};
+
+describe('ToolRegistry', () => {
+  let registry: ToolRegistry;
+
+  beforeEach(() => {
+    registry = new ToolRegistry();
+    registry.register(weatherTool);
+  });
+
+  it('should expose definitions without the implementation', () => {
+    const definitions = registry.getDefinitions();
+
+    expect(definitions).toHaveLength(1);
+    expect(definitions[0]).toEqual({
+      name: 'get_weather',
+      description: weatherTool.description,
+      parameters: weatherTool.parameters,
+    });
+  });
+
+  it('should reject duplicate and malformed names', () => {
+    expect(() => registry.register(weatherTool)).toThrow(AgentValidationError);
+    expect(() => registry.register({ ...weatherTool, name: 'bad name' })).toThrow(AgentValidationError);
+  });
+
+  it('should invoke a tool with valid arguments', async () => {
+    const result = await registry.invoke(
+      { id: 'call_1', name: 'get_weather', arguments: { city: 'Tokyo', days: 3 } },
+      { executionId: 'exec_1' }
+    );
+
+    expect(result).toEqual({ city: 'Tokyo', days: 3, forecast: 'sunny' });
+  });
+
+  it('should reject invalid arguments with the failing path', async () => {
+    const error = await registry.invoke(
+      { id: 'call_1', name: 'get_weather', arguments: { city: 'Tokyo', days: 10 } },
+      { executionId: 'exec_1' }
+    ).catch(e => e) as AgentValidationError;
+
+    expect(error).toBeInstanceOf(AgentValidationError);
+    expect(error.field).toBe('$.days');
+    expect(error.value).toBe(10);
+  });
+
+  it('should report missing and unexpected properties', () => {
+    expect(() => registry.validate('get_weather', {})).toThrow(/\$\.city is required/);
+    expect(() => registry.validate('get_weather', { city: 'Oslo', units: 'c' }))
+      .toThrow(/\$\.units is not an allowed property/);
+  });
+
+  it('should throw AgentToolError for unknown tools', async () => {
+    await expect(registry.invoke(
+      { id: 'call_1', name: 'missing', arguments: {} },
+      { executionId: 'exec_1' }
+    )).rejects.toThrow(AgentToolError);
+  });
+
+  it('should wrap tool failures in AgentToolError', async () => {
+    registry.register({
+      name: 'explode',
+      description: 'Always fails',
+      parameters: { type: 'object' },
+      execute: () => {
+        throw new Error('boom');
+      },
+    });
+
+    const error = await registry.invoke(
+      { id: 'call_1', name: 'explode', arguments: {} },
+      { executionId: 'exec_1' }
+    ).catch(e => e) as AgentToolError;
+
+    expect(error).toBeInstanceOf(AgentToolError);
+    expect(error.toolName).toBe('explode');
+    expect(error.message).toContain('boom');
+  });
+});
+
+describe('AgentRuntime tool calling', () => {
+  const createRuntime = (provider: MockProvider, maxIterations = 5) => new AgentRuntime({
+    provider,
+    tools: new ToolRegistry([weatherTool as Tool]),
+    maxIterations,
+    metrics: { enabled: false },
+    circuitBreaker: { enabled: false },
+  });
+
+  it('should run the model -> tool -> model loop', async () => {
+    const provider = new MockProvider({
+      responses: [
+        { toolCalls: [{ id: 'call_1', name: 'get_weather', arguments: { city: 'Paris' } }] },
+        { content: 'It is sunny in Paris.' },
+      ],
+    });
+
+    const result = await createRuntime(provider).execute('Weather in Paris?');
+
+    expect(result.status).toBe('completed');
+    expect(result.output).toBe('It is sunny in Paris.');
+    expect(result.toolCalls).toEqual([{
+      id: 'call_1',
+      name: 'get_weather',
+      arguments: { city: 'Paris' },
+      result: { city: 'Paris', days: 1, forecast: 'sunny' },
+    }]);
+    expect(result.messages.map(m => m.role)).toEqual(['system', 'user', 'assistant', 'tool', 'assistant']);
+    expect(provider.requests[0]?.tools?.[0]?.name).toBe('get_weather');
+    expect(provider.requests[1]?.messages[3]?.toolCallId).toBe('call_1');
+  });
+
+  it('should record argument errors and let the model recover', async () => {
+    const provider = new MockProvider({
+      responses: [
+        { toolCalls: [{ id: 'call_1', name: 'get_weather', arguments: { days: 2 } }] },
+        { content: 'Which city?' },
+      ],
+    });
+
+    const result = await createRuntime(provider).execute('Weather?');
+
+    expect(result.status).toBe('completed');
+    expect(result.toolCalls[0]?.error).toContain('$.city is required');
+    expect(result.messages[3]?.content).toContain('$.city is required');
+  });
+
+  it('should stop after maxIterations', async () => {
+    const provider = new MockProvider({
+      handler: () => ({
+        toolCalls: [{ id: 'call_n', name: 'get_weather', arguments: { city: 'Rome' } }],
+      }),
+    });
+
+    const result = await createRuntime(provider, 3).execute('Loop forever');
+
+    expect(provider.requests).toHaveLength(3);
+    expect(result.toolCalls).toHaveLength(3);
+    expect(result.metadata?.maxIterationsReached).toBe(true);
+  });
+});
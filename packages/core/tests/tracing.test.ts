@@ -0,0 +1,129 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tracing Tests
+ */
+
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  Tracer,
+  InMemorySpanExporter,
+  FileSpanExporter,
+  parseTraceparent,
+  formatTraceparent,
+} from '../src/tracing.js';
+import { AgentTimeoutError } from '../src/errors.js';
+
+describe('traceparent', () => {
+  const header = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01';
+
+  it('should parse and format W3C trace context', () => {
+    const context = parseTraceparent(header, 'vendor=value');
+
+    expect(context).toEqual({
+      traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+      spanId: '00f067aa0ba902b7',
+      traceFlags: 1,
+      traceState: 'vendor=value',
+    });
+    expect(formatTraceparent(context!)).toBe(header);
+  });
+
+  it('should reject malformed or invalid headers', () => {
+    expect(parseTraceparent(undefined)).toBeUndefined();
+    expect(parseTraceparent('00-abc-def-01')).toBeUndefined();
+    expect(parseTraceparent('ff-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01')).toBeUndefined();
+    expect(parseTraceparent('00-00000000000000000000000000000000-00f067aa0ba902b7-01')).toBeUndefined();
+    expect(parseTraceparent('00-4bf92f3577b34da6a3ce929d0e0e4736-0000000000000000-01')).toBeUndefined();
+  });
+});
+
+describe('Tracer', () => {
+  let exporter: InMemorySpanExporter;
+  let tracer: Tracer;
+
+  beforeEach(() => {
+    exporter = new InMemorySpanExporter();
+    tracer = new Tracer({ serviceName: 'agent', exporter });
+  });
+
+  it('should start a new sampled trace without a parent', () => {
+    const span = tracer.startSpan('root', { attributes: { model: 'gpt-4o', skipped: undefined } });
+    span.end();
+    span.end();
+
+    const [data] = exporter.getFinishedSpans();
+    expect(exporter.getFinishedSpans()).toHaveLength(1);
+    expect(data).toMatchObject({ name: 'root', service: 'agent', status: 'ok', attributes: { model: 'gpt-4o' } });
+    expect(data?.traceId).toMatch(/^[0-9a-f]{32}$/);
+    expect(data?.parentSpanId).toBeUndefined();
+    expect(span.traceparent()).toBe(`00-${data?.traceId}-${data?.spanId}-01`);
+  });
+
+  it('should inherit the trace of the parent', () => {
+    const root = tracer.startSpan('root');
+    const child = tracer.startSpan('child', { parent: root.context });
+
+    expect(child.context.traceId).toBe(root.context.traceId);
+    expect(child.parentSpanId).toBe(root.context.spanId);
+    expect(child.context.spanId).not.toBe(root.context.spanId);
+  });
+
+  it('should record errors with their code', () => {
+    const span = tracer.startSpan('call');
+    span.recordError(new AgentTimeoutError('call', 10)).end();
+
+    const [data] = exporter.getFinishedSpans();
+    expect(data).toMatchObject({
+      status: 'error',
+      statusMessage: "Operation 'call' timed out after 10ms",
+      attributes: { 'error.code': 'AGENT_TIMEOUT' },
+      events: [{ name: 'exception', attributes: { 'exception.type': 'AgentTimeoutError' } }],
+    });
+  });
+
+  it('should not export unsampled traces', () => {
+    const parent = parseTraceparent('00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-00');
+    tracer.startSpan('root', { parent }).end();
+
+    expect(exporter.getFinishedSpans()).toHaveLength(0);
+  });
+});
+
+describe('FileSpanExporter', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'agent-traces-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should append one JSON span per line', async () => {
+    const path = join(directory, 'nested', 'spans.jsonl');
+    const tracer = new Tracer({ exporter: new FileSpanExporter(path) });
+
+    const root = tracer.startSpan('root');
+    tracer.startSpan('child', { parent: root.context }).end();
+    root.end();
+    await tracer.flush();
+
+    const lines = readFileSync(path, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+    expect(lines.map(span => span.name)).toEqual(['child', 'root']);
+    expect(lines[0].parentSpanId).toBe(lines[1].spanId);
+  });
+
+  it('should report write failures on flush', async () => {
+    const exporter = new FileSpanExporter(directory);
+    new Tracer({ exporter }).startSpan('root').end();
+
+    await expect(exporter.flush()).rejects.toThrow();
+    await expect(exporter.flush()).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Workflow Tests
+ */
+
+import { Workflow, WorkflowStep, renderTemplate } from '../src/workflow.js';
+import { AgentRuntime } from '../src/runtime.js';
+import { MockProvider } from '../src/providers.js';
+import { ToolRegistry } from '../src/tools.js';
+import { AgentValidationError } from '../src/errors.js';
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function fn(id: string, run: () => unknown, extra: Partial<WorkflowStep> = {}): WorkflowStep {
+  return { id, type: 'function', run, ...extra } as WorkflowStep;
+}
+
+describe('renderTemplate', () => {
+  it('should keep whole references raw and interpolate the rest', () => {
+    const scope = { input: { id: 7, tags: ['a'] }, steps: { fetch: { output: 'ok' } } };
+
+    expect(renderTemplate({ id: '{{input.id}}', list: ['{{ input.tags }}'] }, scope)).toEqual({ id: 7, list: [['a']] });
+    expect(renderTemplate('Order {{input.id}} is {{steps.fetch.output}}: {{input.tags}}', scope))
+      .toBe('Order 7 is ok: ["a"]');
+  });
+
+  it('should reject references to missing steps', () => {
+    expect(() => renderTemplate('{{steps.missing.output}}', { steps: {} })).toThrow(AgentValidationError);
+  });
+});
+
+describe('Workflow', () => {
+  it('should pipe templated outputs through tool, agent and function steps', async () => {
+    const provider = new MockProvider({
+      responses: [
+        { content: '{"category":"refund"}', usage: { promptTokens: 5, completionTokens: 2, totalTokens: 7 } },
+        { content: 'Customer wants a refund', usage: { promptTokens: 4, completionTokens: 3, totalTokens: 7 } },
+      ],
+    });
+    const tools = new ToolRegistry().register({
+      name: 'fetch_ticket',
+      description: 'Fetch a ticket',
+      parameters: { type: 'object', properties: { id: { type: 'number' } } },
+      execute: (args: { id: number }) => `Ticket ${args.id}: I want my money back`,
+    });
+    const workflow = new Workflow({
+      name: 'triage',
+      runtime: new AgentRuntime({ provider }),
+      tools,
+      steps: [
+        { id: 'extract', type: 'tool', tool: 'fetch_ticket', arguments: { id: '{{input.ticket}}' } },
+        {
+          id: 'classify',
+          type: 'agent',
+          dependsOn: ['extract'],
+          task: 'Classify: {{steps.extract.output}}',
+          config: { responseSchema: { type: 'object', properties: { category: { type: 'string' } } } },
+        },
+        { id: 'summarize', type: 'agent', dependsOn: ['classify'], task: 'Summarize the {{steps.classify.output.category}} ticket' },
+        fn('report', () => 'unused', { dependsOn: ['summarize'] }),
+      ],
+      output: 'summarize',
+    });
+    const events: string[] = [];
+    workflow.on('step:complete', ({ stepId }) => events.push(stepId));
+
+    const run = await workflow.run({ ticket: 42 });
+
+    expect(run).toMatchObject({ workflow: 'triage', status: 'completed', output: 'Customer wants a refund' });
+    expect(run.steps.map(step => [step.id, step.status, step.attempts])).toEqual([
+      ['extract', 'completed', 1],
+      ['classify', 'completed', 1],
+      ['summarize', 'completed', 1],
+      ['report', 'completed', 1],
+    ]);
+    expect(run.steps[0]!.input).toEqual({ id: 42 });
+    expect(run.steps[1]!.output).toEqual({ category: 'refund' });
+    expect(provider.requests[0]!.messages.at(-1)!.content).toBe('Classify: Ticket 42: I want my money back');
+    expect(run.steps[2]!.input).toBe('Summarize the refund ticket');
+    expect(run.steps[2]!.executionId).toMatch(/^exec_/);
+    expect(run.usage).toMatchObject({ promptTokens: 9, completionTokens: 5, totalTokens: 14 });
+    expect(events).toEqual(['extract', 'classify', 'summarize', 'report']);
+  });
+
+  it('should follow conditional edges and join on any branch', async () => {
+    const workflow = new Workflow({
+      steps: [
+        fn('classify', () => 'refund'),
+        fn('refund', () => 'refunded', {
+          dependsOn: [{ step: 'classify', when: context => context.steps.classify!.output === 'refund' }],
+        }),
+        fn('escalate', () => 'escalated', {
+          dependsOn: [{ step: 'classify', when: context => context.steps.classify!.output === 'other' }],
+        }),
+        fn('notify', () => 'notified', { dependsOn: ['refund', 'escalate'], join: 'any' }),
+        fn('audit', () => 'audited', { dependsOn: ['refund', 'escalate'] }),
+      ],
+    });
+    const skipped: string[] = [];
+    workflow.on('step:skipped', ({ stepId }) => skipped.push(stepId));
+
+    const run = await workflow.run();
+
+    expect(run.steps.map(step => step.status)).toEqual(['completed', 'completed', 'skipped', 'completed', 'skipped']);
+    expect(skipped).toEqual(['escalate', 'audit']);
+    expect(run.output).toBe('notified');
+  });
+
+  it('should run independent branches in parallel', async () => {
+    const workflow = new Workflow({
+      steps: [
+        fn('a', () => sleep(50).then(() => 'a')),
+        fn('b', () => sleep(50).then(() => 'b')),
+        { id: 'merge', type: 'function', dependsOn: ['a', 'b'], run: context => `${context.steps.a!.output}${context.steps.b!.output}` },
+      ],
+    });
+
+    const run = await workflow.run();
+
+    expect(run.output).toBe('ab');
+    expect(run.duration).toBeLessThan(100);
+    expect(run.steps[2]!.startedAt).toBeGreaterThanOrEqual(Math.max(run.steps[0]!.startedAt!, run.steps[1]!.startedAt!) + 45);
+  });
+
+  it('should retry steps and time out each attempt', async () => {
+    let calls = 0;
+    const workflow = new Workflow({
+      retry: { baseDelay: 1, maxDelay: 1 },
+      steps: [
+        fn('flaky', () => {
+          if (++calls < 3) {
+            throw new Error('try again');
+          }
+          return 'ok';
+        }, { retry: { maxRetries: 2 } }),
+        fn('slow', () => sleep(200), { dependsOn: ['flaky'], timeout: 20, retry: { maxRetries: 1 } }),
+      ],
+    });
+    const retries: number[] = [];
+    workflow.on('step:retry', ({ stepId, attempt }) => stepId === 'flaky' && retries.push(attempt));
+
+    const run = await workflow.run();
+
+    expect(run.steps[0]).toMatchObject({ status: 'completed', output: 'ok', attempts: 3 });
+    expect(retries).toHaveLength(2);
+    expect(run.steps[1]).toMatchObject({ status: 'failed', attempts: 2, errorCode: 'AGENT_TIMEOUT' });
+    expect(run.steps[1]!.error).toBe("Operation 'step slow' timed out after 20ms");
+    expect(run).toMatchObject({ status: 'failed', errorCode: 'AGENT_TIMEOUT', output: 'ok' });
+  });
+
+  it('should stop scheduling after a failure and skip the rest', async () => {
+    const after = jest.fn();
+    const workflow = new Workflow({
+      steps: [
+        fn('broken', () => { throw new Error('boom'); }),
+        fn('next', after, { dependsOn: ['broken'], join: 'any' }),
+      ],
+    });
+    const errors: unknown[] = [];
+    workflow.on('workflow:error', event => errors.push(event));
+
+    const run = await workflow.run();
+
+    expect(run).toMatchObject({ status: 'failed', error: 'boom', errorCode: 'UNKNOWN_ERROR' });
+    expect(run.steps.map(step => step.status)).toEqual(['failed', 'skipped']);
+    expect(after).not.toHaveBeenCalled();
+    expect(errors).toHaveLength(1);
+  });
+
+  it('should fail the guarded step when a condition throws', async () => {
+    const slow = jest.fn(() => sleep(20).then(() => 'slow'));
+    const workflow = new Workflow({
+      steps: [
+        fn('classify', () => 'refund'),
+        fn('slow', slow),
+        fn('refund', () => 'refunded', {
+          dependsOn: [{ step: 'classify', when: () => { throw new Error('bad condition'); } }],
+        }),
+        fn('notify', () => 'notified', { dependsOn: ['refund'] }),
+      ],
+    });
+    const errors: unknown[] = [];
+    workflow.on('workflow:error', event => errors.push(event));
+
+    const run = await workflow.run();
+
+    expect(run).toMatchObject({ status: 'failed', error: 'bad condition', errorCode: 'UNKNOWN_ERROR' });
+    expect(run.steps.map(step => step.status)).toEqual(['completed', 'completed', 'failed', 'skipped']);
+    expect(run.steps[2]).toMatchObject({ attempts: 0, error: 'bad condition' });
+    expect(slow).toHaveBeenCalledTimes(1);
+    expect(errors).toHaveLength(1);
+  });
+
+  it('should fail agent steps whose execution failed', async () => {
+    const provider = new MockProvider({ handler: () => { throw new Error('Provider down'); } });
+    const workflow = new Workflow({
+      runtime: new AgentRuntime({ provider, retry: { maxRetries: 0 } }),
+      steps: [{ id: 'ask', type: 'agent', task: 'Hi' }],
+    });
+
+    const run = await workflow.run();
+
+    expect(run.status).toBe('failed');
+    expect(run.steps[0]).toMatchObject({ status: 'failed', attempts: 1 });
+    expect(run.steps[0]!.executionId).toMatch(/^exec_/);
+  });
+
+  it('should reject invalid definitions', () => {
+    expect(() => new Workflow({
+      steps: [fn('a', () => 1, { dependsOn: ['c'] }), fn('b', () => 1, { dependsOn: ['a'] }), fn('c', () => 1, { dependsOn: ['b'] })],
+    })).toThrow('Workflow steps form a cycle: a -> c -> b -> a');
+    expect(() => new Workflow({ steps: [fn('a', () => 1), fn('a', () => 2)] })).toThrow("Step 'a' is defined twice");
+    expect(() => new Workflow({ steps: [fn('a', () => 1, { dependsOn: ['x'] })] })).toThrow(AgentValidationError);
+    expect(() => new Workflow({ steps: [{ id: 'a', type: 'agent', task: 'Hi' }] })).toThrow("Agent step 'a' has no runtime");
+    expect(() => new Workflow({ steps: [{ id: 'a', type: 'tool', tool: 'missing' }] })).toThrow("uses unknown tool 'missing'");
+  });
+});
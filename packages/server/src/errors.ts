@@ -0,0 +1,69 @@
+/**
+ * HTTP Errors - Status codes and response bodies for agent errors
+ */
+
+import { AgentError, AgentRateLimitError } from '@agent-pro/core';
+
+/**
+ * Error raised by the server itself rather than the runtime
+ */
+export class HttpError extends AgentError {
+  public readonly status: number;
+
+  constructor(status: number, message: string, code: string) {
+    super(message, code, false, { status });
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+/**
+ * HTTP status for each AgentError code; anything else is a 500
+ */
+export const ERROR_STATUS: Record<string, number> = {
+  AGENT_VALIDATION_ERROR: 400,
+  AGENT_BUDGET_EXCEEDED: 402,
+  AGENT_GUARDRAIL_BLOCKED: 422,
+  AGENT_RATE_LIMIT: 429,
+  AGENT_CANCELLED: 499,
+  AGENT_MODEL_ERROR: 502,
+  AGENT_CIRCUIT_OPEN: 503,
+  AGENT_QUEUE_FULL: 503,
+  AGENT_BULKHEAD_FULL: 503,
+  NO_PROVIDER: 503,
+  AGENT_TIMEOUT: 504,
+};
+
+/**
+ * Get the HTTP status for an error
+ */
+export function statusFor(error: AgentError): number {
+  if (error instanceof HttpError) {
+    return error.status;
+  }
+  return ERROR_STATUS[error.code] ?? 500;
+}
+
+/**
+ * Get the response headers for an error
+ *
+ * Rate limit errors pass the provider's Retry-After on to the client.
+ */
+export function headersFor(error: AgentError): Record<string, string> {
+  if (error instanceof AgentRateLimitError && error.retryAfter !== undefined) {
+    return { 'retry-after': String(error.retryAfter) };
+  }
+  return {};
+}
+
+/**
+ * Convert anything thrown into an AgentError that is safe to return
+ *
+ * Unexpected errors, including those the runtime wrapped as
+ * UNKNOWN_ERROR, keep their details out of the response.
+ */
+export function toAgentError(error: unknown): AgentError {
+  return error instanceof AgentError && error.code !== 'UNKNOWN_ERROR'
+    ? error
+    : new AgentError('Internal server error', 'INTERNAL_ERROR');
+}
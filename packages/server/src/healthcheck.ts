@@ -0,0 +1,10 @@
+/**
+ * Container health check - exits 0 when /healthz answers 200
+ */
+
+const port = process.env.PORT || 3000;
+
+fetch(`http://127.0.0.1:${port}/healthz`, { signal: AbortSignal.timeout(2000) }).then(
+  response => process.exit(response.ok ? 0 : 1),
+  () => process.exit(1)
+);
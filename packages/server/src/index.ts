@@ -0,0 +1,13 @@
+/**
+ * @agent-pro/server - HTTP API for the agent runtime
+ *
+ * Serves an AgentRuntime with:
+ * - Synchronous and streaming (Server-Sent Events) executions
+ * - Liveness and readiness probes
+ * - Prometheus metrics
+ */
+
+export { AgentServer } from './server.js';
+export { HttpError, ERROR_STATUS, statusFor, headersFor, toAgentError } from './errors.js';
+
+export type { ServerConfig, ExecutionRequest } from './server.js';
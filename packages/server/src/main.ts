@@ -0,0 +1,48 @@
+/**
+ * Server entry point
+ *
+ * Runtime settings come from AGENT_* environment variables, layered over
+ * an optional JSON file named by AGENT_CONFIG_FILE. The model provider is
+ * any OpenAI-compatible API at OPENAI_BASE_URL.
+ */
+
+import { AgentConfigBuilder, AgentRuntime, OpenAICompatibleProvider } from '@agent-pro/core';
+import { AgentServer } from './server.js';
+
+async function main(): Promise<void> {
+  const provider = new OpenAICompatibleProvider({
+    baseUrl: process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+    apiKey: process.env.OPENAI_API_KEY,
+    name: 'openai',
+  });
+
+  const config = new AgentConfigBuilder()
+    .fromFile(process.env.AGENT_CONFIG_FILE || 'agent.config.json', { optional: true })
+    .fromEnv()
+    .override({ provider })
+    .build();
+
+  const server = new AgentServer({
+    runtime: new AgentRuntime(config),
+    port: Number(process.env.PORT || 3000),
+    host: process.env.HOST,
+  });
+
+  const address = await server.listen();
+  process.stdout.write(`Agent server listening on ${address.address}:${address.port}\n`);
+
+  // Stop taking traffic, let in-flight executions finish, then exit
+  const shutdown = () => {
+    server.close().then(
+      () => process.exit(0),
+      () => process.exit(1)
+    );
+  };
+  process.once('SIGTERM', shutdown);
+  process.once('SIGINT', shutdown);
+}
+
+main().catch(error => {
+  process.stderr.write(`Agent server failed to start: ${error instanceof Error ? error.message : String(error)}\n`);
+  process.exit(1);
+});
@@ -0,0 +1,348 @@
+/**
+ * Agent Server - HTTP API for the agent runtime
+ *
+ * Routes:
+ * - POST /v1/executions         run a task and return the ExecutionResult
+ * - POST /v1/executions/stream  stream StreamChunks as Server-Sent Events
+ * - GET  /healthz               liveness, with the runtime health report
+ * - GET  /readyz                readiness, 503 while unhealthy or closing
+ * - GET  /metrics               Prometheus or OpenMetrics exposition
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import {
+  AgentError,
+  AgentRuntime,
+  AgentValidationError,
+  ExecutionConfig,
+  JSONSchema,
+  StreamChunk,
+  formatSchemaIssues,
+  validateSchema,
+} from '@agent-pro/core';
+import { HttpError, headersFor, statusFor, toAgentError } from './errors.js';
+
+/**
+ * Server configuration
+ *
+ * Clients may lower but not raise the iteration and time limits: a
+ * requested `maxIterations` or `timeout` is clamped to `maxIterations`
+ * and `maxTimeout`, which default to the runtime's own settings.
+ */
+export interface ServerConfig {
+  runtime: AgentRuntime;
+  port?: number;
+  host?: string;
+  maxBodyBytes?: number;
+  maxIterations?: number;
+  maxTimeout?: number;
+}
+
+/**
+ * Body of both execution routes
+ */
+export interface ExecutionRequest {
+  task: string;
+  config?: Omit<ExecutionConfig, 'signal' | 'stream'>;
+}
+
+const EXECUTION_REQUEST_SCHEMA: JSONSchema = {
+  type: 'object',
+  required: ['task'],
+  additionalProperties: false,
+  properties: {
+    task: { type: 'string', minLength: 1 },
+    config: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        userId: { type: 'string' },
+        sessionId: { type: 'string' },
+        conversationId: { type: 'string' },
+        timeout: { type: 'integer', minimum: 1 },
+        maxIterations: { type: 'integer', minimum: 1 },
+        cache: { type: 'boolean' },
+        responseSchema: { type: 'object' },
+        repairAttempts: { type: 'integer', minimum: 0, maximum: 5 },
+        metadata: { type: 'object' },
+      },
+    },
+  },
+};
+
+const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+const OPENMETRICS_CONTENT_TYPE = 'application/openmetrics-text; version=1.0.0; charset=utf-8';
+
+type Route = (req: IncomingMessage, res: ServerResponse, signal: AbortSignal) => Promise<void>;
+
+/**
+ * Agent Server - Serves one AgentRuntime over HTTP
+ *
+ * Executions are cancelled when the client disconnects before they
+ * finish. Errors are returned as `{ "error": AgentError.toJSON() }`.
+ */
+export class AgentServer {
+  private runtime: AgentRuntime;
+  private server: Server;
+  private closing = false;
+  private routes: Record<string, Record<string, Route>>;
+
+  constructor(private config: ServerConfig) {
+    this.runtime = config.runtime;
+    this.server = createServer((req, res) => {
+      void this.handle(req, res);
+    });
+    this.routes = {
+      '/v1/executions': { POST: (req, res, signal) => this.execute(req, res, signal) },
+      '/v1/executions/stream': { POST: (req, res, signal) => this.stream(req, res, signal) },
+      '/healthz': { GET: (_req, res) => this.healthz(res) },
+      '/readyz': { GET: (_req, res) => this.readyz(res) },
+      '/metrics': { GET: (req, res) => this.metrics(req, res) },
+    };
+  }
+
+  /**
+   * Initialize the runtime and start listening
+   */
+  async listen(): Promise<AddressInfo> {
+    await this.runtime.initialize();
+
+    await new Promise<void>((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(this.config.port ?? 3000, this.config.host ?? '0.0.0.0', () => {
+        this.server.off('error', reject);
+        resolve();
+      });
+    });
+
+    return this.server.address() as AddressInfo;
+  }
+
+  /**
+   * Stop accepting connections and wait for in-flight requests
+   *
+   * /readyz reports 503 from the moment close() is called.
+   */
+  async close(): Promise<void> {
+    this.closing = true;
+
+    await new Promise<void>((resolve, reject) => {
+      this.server.close(error => (error ? reject(error) : resolve()));
+      this.server.closeIdleConnections();
+    });
+  }
+
+  /**
+   * Get the underlying Node.js server
+   */
+  getServer(): Server {
+    return this.server;
+  }
+
+  /**
+   * Route a request and turn any thrown error into an error response
+   */
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const controller = new AbortController();
+    // The client went away before the response was complete
+    res.on('close', () => {
+      if (!res.writableFinished) {
+        controller.abort();
+      }
+    });
+
+    try {
+      const path = new URL(req.url || '/', 'http://localhost').pathname;
+      const methods = this.routes[path];
+
+      if (!methods) {
+        throw new HttpError(404, `No route for ${path}`, 'HTTP_NOT_FOUND');
+      }
+
+      const route = methods[req.method || 'GET'];
+      if (!route) {
+        res.setHeader('allow', Object.keys(methods).join(', '));
+        throw new HttpError(405, `Method ${req.method} not allowed for ${path}`, 'HTTP_METHOD_NOT_ALLOWED');
+      }
+
+      await route(req, res, controller.signal);
+    } catch (error) {
+      if (!res.headersSent) {
+        sendError(res, toAgentError(error));
+      } else {
+        res.end();
+      }
+    }
+  }
+
+  /**
+   * POST /v1/executions
+   *
+   * Completed executions return 200 with the result; anything else
+   * returns the error's status with the result alongside it.
+   */
+  private async execute(req: IncomingMessage, res: ServerResponse, signal: AbortSignal): Promise<void> {
+    const body = await this.readExecutionRequest(req);
+    const { failure, ...result } = await this.runtime.execute(body.task, { ...body.config, signal });
+
+    if (failure) {
+      const error = toAgentError(failure);
+      sendError(res, error, { result: { ...result, error: error.message, errorCode: error.code } });
+      return;
+    }
+
+    sendJson(res, 200, result);
+  }
+
+  /**
+   * POST /v1/executions/stream
+   *
+   * Each StreamChunk is one event named after its type. A failure after
+   * the stream has started arrives as an `error` event, since the status
+   * line has already been sent.
+   */
+  private async stream(req: IncomingMessage, res: ServerResponse, signal: AbortSignal): Promise<void> {
+    const body = await this.readExecutionRequest(req);
+
+    res.writeHead(200, {
+      'content-type': 'text/event-stream; charset=utf-8',
+      'cache-control': 'no-cache',
+      connection: 'keep-alive',
+      'x-accel-buffering': 'no',
+    });
+
+    for await (const chunk of this.runtime.stream(body.task, { ...body.config, signal })) {
+      if (res.destroyed) {
+        continue;
+      }
+      res.write(`event: ${chunk.type}\ndata: ${JSON.stringify(serializeChunk(chunk))}\n\n`);
+    }
+
+    res.end();
+  }
+
+  /**
+   * GET /healthz - 200 while the process can answer requests
+   */
+  private async healthz(res: ServerResponse): Promise<void> {
+    sendJson(res, 200, await this.runtime.health());
+  }
+
+  /**
+   * GET /readyz - 503 while the runtime is unhealthy or the server is closing
+   */
+  private async readyz(res: ServerResponse): Promise<void> {
+    const health = await this.runtime.health();
+    const ready = !this.closing && health.status !== 'unhealthy';
+
+    sendJson(res, ready ? 200 : 503, { ...health, ready });
+  }
+
+  /**
+   * GET /metrics - OpenMetrics when the scraper asks for it
+   */
+  private async metrics(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const openMetrics = (req.headers.accept || '').includes('application/openmetrics-text');
+    const body = this.runtime.getMetrics().getPrometheusMetrics(openMetrics ? 'openmetrics' : 'prometheus');
+
+    res.writeHead(200, { 'content-type': openMetrics ? OPENMETRICS_CONTENT_TYPE : PROMETHEUS_CONTENT_TYPE });
+    res.end(body);
+  }
+
+  /**
+   * Read and validate the JSON body of an execution route
+   */
+  private async readExecutionRequest(req: IncomingMessage): Promise<ExecutionRequest> {
+    if (!(req.headers['content-type'] || '').includes('application/json')) {
+      throw new HttpError(415, 'Content-Type must be application/json', 'HTTP_UNSUPPORTED_MEDIA_TYPE');
+    }
+
+    const raw = await readBody(req, this.config.maxBodyBytes ?? 1024 * 1024);
+    let body: unknown;
+
+    try {
+      body = JSON.parse(raw);
+    } catch (error) {
+      throw new AgentValidationError(
+        `Request body is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+        'body'
+      );
+    }
+
+    const issues = validateSchema(EXECUTION_REQUEST_SCHEMA, body);
+    if (issues.length > 0) {
+      throw new AgentValidationError(`Invalid request body: ${formatSchemaIssues(issues)}`, 'body');
+    }
+
+    const request = body as ExecutionRequest;
+    return { ...request, config: this.limitConfig(request.config) };
+  }
+
+  /**
+   * Clamp the client's iteration and time limits to the server's
+   */
+  private limitConfig(config: ExecutionRequest['config'] = {}): ExecutionRequest['config'] {
+    const { maxIterations, timeout } = this.runtime.getConfig();
+
+    return {
+      ...config,
+      ...(config.maxIterations !== undefined && {
+        maxIterations: Math.min(config.maxIterations, this.config.maxIterations ?? maxIterations),
+      }),
+      ...(config.timeout !== undefined && {
+        timeout: Math.min(config.timeout, this.config.maxTimeout ?? timeout),
+      }),
+    };
+  }
+}
+
+/**
+ * Read a request body, rejecting bodies over the limit
+ *
+ * The rest of an oversized body is drained so the 413 still reaches
+ * the client.
+ */
+function readBody(req: IncomingMessage, limit: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        reject(new HttpError(413, `Request body exceeds ${limit} bytes`, 'HTTP_PAYLOAD_TOO_LARGE'));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Replace an error chunk's failure with its serialized form
+ */
+function serializeChunk(chunk: StreamChunk): Record<string, unknown> {
+  if (chunk.type !== 'error') {
+    return { ...chunk };
+  }
+
+  const { failure, ...rest } = chunk;
+  return { ...rest, error: failure ? toAgentError(failure).toJSON() : { message: chunk.error } };
+}
+
+function sendJson(
+  res: ServerResponse,
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {}
+): void {
+  res.writeHead(status, { 'content-type': 'application/json; charset=utf-8', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+function sendError(res: ServerResponse, error: AgentError, extra: Record<string, unknown> = {}): void {
+  sendJson(res, statusFor(error), { error: error.toJSON(), ...extra }, headersFor(error));
+}
@@ -0,0 +1,217 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Agent Server Tests
+ */
+
+import { AgentRuntime, AgentRateLimitError, MockProvider } from '@agent-pro/core';
+import type { ExecutionResult, HealthStatus } from '@agent-pro/core';
+import { AgentServer } from '../src/server.js';
+
+/**
+ * Body of every error response
+ */
+interface ErrorBody {
+  error: { name: string; message: string; code: string; retryable: boolean };
+  result?: ExecutionResult;
+}
+
+describe('AgentServer', () => {
+  let provider: MockProvider;
+  let runtime: AgentRuntime;
+  let server: AgentServer;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    provider = new MockProvider();
+    runtime = new AgentRuntime({ provider, retry: { maxRetries: 0 } });
+    server = new AgentServer({ runtime, port: 0, host: '127.0.0.1', maxBodyBytes: 1024 });
+
+    const { port } = await server.listen();
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  const post = (path: string, body: unknown) => fetch(`${baseUrl}${path}`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  const events = (text: string) => text.trim().split('\n\n').map(block => {
+    const [event, data] = block.split('\n');
+    return { event: event!.slice('event: '.length), data: JSON.parse(data!.slice('data: '.length)) };
+  });
+
+  describe('POST /v1/executions', () => {
+    it('should return the execution result', async () => {
+      const response = await post('/v1/executions', { task: 'ping', config: { userId: 'u1' } });
+      const body = await response.json() as ExecutionResult;
+
+      expect(response.status).toBe(200);
+      expect(body.status).toBe('completed');
+      expect(body.output).toBe('Processed: ping');
+      expect(body).not.toHaveProperty('failure');
+    });
+
+    it('should reject invalid bodies with a 400', async () => {
+      const response = await post('/v1/executions', { task: '', extra: true });
+      const body = await response.json() as ErrorBody;
+
+      expect(response.status).toBe(400);
+      expect(body.error.code).toBe('AGENT_VALIDATION_ERROR');
+      expect(body.error.message).toContain('$.task must be at least 1 characters');
+      expect(body.error.message).toContain('$.extra is not an allowed property');
+      expect(body.error).not.toHaveProperty('stack');
+    });
+
+    it('should reject malformed JSON and non-JSON bodies', async () => {
+      const malformed = await fetch(`${baseUrl}/v1/executions`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: '{"task":',
+      });
+      const text = await fetch(`${baseUrl}/v1/executions`, { method: 'POST', body: 'task' });
+
+      expect(malformed.status).toBe(400);
+      expect(text.status).toBe(415);
+    });
+
+    it('should reject bodies over the limit with a 413', async () => {
+      const response = await post('/v1/executions', { task: 'x'.repeat(2048) });
+
+      expect(response.status).toBe(413);
+      expect((await response.json() as ErrorBody).error.code).toBe('HTTP_PAYLOAD_TOO_LARGE');
+    });
+
+    it('should map execution failures to their HTTP status', async () => {
+      provider = new MockProvider({
+        handler: () => Promise.reject(new AgentRateLimitError('slow down', 7)),
+      });
+      await server.close();
+      server = new AgentServer({
+        runtime: new AgentRuntime({ provider, retry: { maxRetries: 0 } }),
+        port: 0,
+        host: '127.0.0.1',
+      });
+      baseUrl = `http://127.0.0.1:${(await server.listen()).port}`;
+
+      const response = await post('/v1/executions', { task: 'ping' });
+      const body = await response.json() as ErrorBody;
+
+      expect(response.status).toBe(429);
+      expect(response.headers.get('retry-after')).toBe('7');
+      expect(body.error).toMatchObject({ name: 'AgentRateLimitError', code: 'AGENT_RATE_LIMIT', retryable: true });
+      expect(body.error).not.toHaveProperty('stack');
+      expect(body.result?.status).toBe('failed');
+    });
+    it('should hide the details of unexpected failures', async () => {
+      provider = new MockProvider({
+        handler: () => { throw new TypeError("Cannot read properties of undefined (reading 'secret')"); },
+      });
+      await server.close();
+      server = new AgentServer({
+        runtime: new AgentRuntime({ provider, retry: { maxRetries: 0 } }),
+        port: 0,
+        host: '127.0.0.1',
+      });
+      baseUrl = `http://127.0.0.1:${(await server.listen()).port}`;
+
+      const response = await post('/v1/executions', { task: 'ping' });
+      const body = await response.json() as ErrorBody;
+      const [event] = events(await (await post('/v1/executions/stream', { task: 'ping' })).text());
+
+      expect(response.status).toBe(500);
+      expect(body.error).toMatchObject({ message: 'Internal server error', code: 'INTERNAL_ERROR' });
+      expect(body.result).toMatchObject({ status: 'failed', error: 'Internal server error', errorCode: 'INTERNAL_ERROR' });
+      expect(event?.data.error).toMatchObject({ message: 'Internal server error', code: 'INTERNAL_ERROR' });
+      expect(JSON.stringify(body) + JSON.stringify(event)).not.toContain('secret');
+    });
+
+    it('should cap client iteration and time limits', async () => {
+      const execute = jest.spyOn(runtime, 'execute');
+
+      await post('/v1/executions', { task: 'ping', config: { maxIterations: 1000, timeout: 1e9 } });
+      await post('/v1/executions', { task: 'ping', config: { maxIterations: 2, timeout: 500 } });
+
+      expect(execute.mock.calls.map(([, config]) => [config?.maxIterations, config?.timeout]))
+        .toEqual([[10, 60000], [2, 500]]);
+    });
+  });
+
+  describe('POST /v1/executions/stream', () => {
+    it('should stream chunks as server-sent events', async () => {
+      const response = await post('/v1/executions/stream', { task: 'ping' });
+      const received = events(await response.text());
+
+      expect(response.headers.get('content-type')).toContain('text/event-stream');
+      expect(received.filter(e => e.event === 'content').map(e => e.data.content).join('')).toBe('Processed: ping');
+      expect(received[received.length - 1]).toMatchObject({ event: 'done', data: { type: 'done' } });
+    });
+
+    it('should send failures as a serialized error event', async () => {
+      const failing = new AgentServer({
+        runtime: new AgentRuntime({ retry: { maxRetries: 0 } }),
+        port: 0,
+        host: '127.0.0.1',
+      });
+      const { port } = await failing.listen();
+
+      try {
+        const response = await fetch(`http://127.0.0.1:${port}/v1/executions/stream`, {
+          method: 'POST',
+          headers: { 'content-type': 'application/json' },
+          body: JSON.stringify({ task: 'ping' }),
+        });
+        const [event] = events(await response.text());
+
+        expect(event?.event).toBe('error');
+        expect(event?.data.error).toMatchObject({ code: 'NO_PROVIDER', message: 'No model provider configured' });
+        expect(event?.data.error).not.toHaveProperty('stack');
+      } finally {
+        await failing.close();
+      }
+    });
+  });
+
+  describe('probes and metrics', () => {
+    it('should report liveness and readiness from health()', async () => {
+      const healthz = await fetch(`${baseUrl}/healthz`);
+      const readyz = await fetch(`${baseUrl}/readyz`);
+
+      expect(healthz.status).toBe(200);
+      expect((await healthz.json() as HealthStatus).checks.initialized?.status).toBe('pass');
+      expect(readyz.status).toBe(200);
+      expect((await readyz.json() as HealthStatus & { ready: boolean }).ready).toBe(true);
+    });
+
+    it('should serve Prometheus and OpenMetrics text', async () => {
+      await post('/v1/executions', { task: 'ping' });
+
+      const prometheus = await fetch(`${baseUrl}/metrics`);
+      const openMetrics = await fetch(`${baseUrl}/metrics`, {
+        headers: { accept: 'application/openmetrics-text; version=1.0.0' },
+      });
+
+      expect(prometheus.headers.get('content-type')).toContain('text/plain; version=0.0.4');
+      expect(await prometheus.text()).toContain('agent_executions_total');
+      expect(openMetrics.headers.get('content-type')).toContain('application/openmetrics-text');
+      expect((await openMetrics.text()).trim().endsWith('# EOF')).toBe(true);
+    });
+
+    it('should answer unknown routes and methods with 404 and 405', async () => {
+      const missing = await fetch(`${baseUrl}/nope`);
+      const wrongMethod = await fetch(`${baseUrl}/v1/executions`);
+
+      expect(missing.status).toBe(404);
+      expect((await missing.json() as ErrorBody).error.code).toBe('HTTP_NOT_FOUND');
+      expect(wrongMethod.status).toBe(405);
+      expect(wrongMethod.headers.get('allow')).toBe('POST');
+    });
+  });
+});